@@ -5,24 +5,49 @@
  * registration, agent resources publication, and MCP client interaction.
  */
 
-import { AgentManager } from 'src/agents/AgentManager'
-import { AgentExecutor } from 'src/execution/AgentExecutor'
+import type { ReadResourceResult } from '@modelcontextprotocol/sdk/types.js'
+import type { ServerConfig } from 'src/config/ServerConfig'
 import { McpServer } from 'src/server/McpServer'
-import type { ServerConfigInterface } from 'src/types'
 import { afterEach, beforeEach, describe, expect, it } from 'vitest'
 
+/**
+ * Names of the agent tools among the listed tools.
+ */
+const agentToolNames = (tools: { name: string }[]) =>
+  tools.map((tool) => tool.name).filter((name) => name.startsWith('agent_'))
+
+/**
+ * Text of the first content of a resource.
+ */
+const readText = async (server: McpServer, uri: string) => {
+  const [content] = ((await server.readResource(uri)) as ReadResourceResult).contents
+  return content && 'text' in content ? content.text : ''
+}
+
 describe('McpServer Integration', () => {
   let server: McpServer
-  let mockConfig: ServerConfigInterface
+  let mockConfig: ServerConfig
 
   beforeEach(() => {
     mockConfig = {
       serverName: 'test-mcp-server',
       serverVersion: '1.0.0',
       agentsDir: './test-agents',
+      agentLayers: [{ name: './test-agents', directory: './test-agents' }],
+      agentsIgnore: [],
+      projectAgentsDirs: [],
       logLevel: 'info',
       agentType: 'cursor',
       executionTimeoutMs: 300000,
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      httpSessionTimeoutMs: 1800000,
+      httpAuthToken: undefined,
+      backendsConfig: undefined,
+      maxConcurrentAgents: 0,
+      queueTimeoutMs: 300000,
+      allowedRoots: [],
     }
   })
 
@@ -335,6 +360,7 @@ describe('McpServer Integration', () => {
         const collisionConfig = {
           ...mockConfig,
           agentsDir: testDir,
+          agentLayers: [{ name: testDir, directory: testDir }],
           logLevel: 'debug' as const,
         }
 
@@ -388,4 +414,145 @@ describe('McpServer Integration', () => {
       }
     })
   })
+
+  describe('layered agent directories', () => {
+    it('should let later layers override agents and show what they shadow', async () => {
+      const fs = await import('node:fs/promises')
+      const path = await import('node:path')
+      const { tmpdir } = await import('node:os')
+
+      const testDir = await fs.mkdtemp(path.join(tmpdir(), 'mcp-layer-test-agents-'))
+      const teamDir = path.join(testDir, 'team')
+      const projectDir = path.join(testDir, 'project')
+
+      try {
+        await fs.mkdir(teamDir)
+        await fs.mkdir(projectDir)
+        await fs.writeFile(path.join(teamDir, 'reviewer.md'), '# Reviewer\n\nTeam reviewer.')
+        await fs.writeFile(path.join(teamDir, 'planner.md'), '# Planner\n\nTeam planner.')
+        await fs.writeFile(path.join(projectDir, 'reviewer.md'), '# Reviewer\n\nProject reviewer.')
+
+        const layeredServer = new McpServer({
+          ...mockConfig,
+          agentsDir: projectDir,
+          agentLayers: [
+            { name: 'team', directory: teamDir },
+            { name: 'project', directory: projectDir },
+            { name: 'missing', directory: path.join(testDir, 'missing') },
+          ],
+          logLevel: 'error',
+        })
+
+        try {
+          const tools = await layeredServer.listTools()
+          expect(agentToolNames(tools).sort()).toEqual(['agent_planner', 'agent_reviewer'])
+
+          const text = await readText(layeredServer, 'agents://list')
+          expect(text).toContain(`**File:** ${path.join(projectDir, 'reviewer.md')}`)
+          expect(text).toContain('**Layer:** project')
+          expect(text).toContain(`**Shadows:** ${path.join(teamDir, 'reviewer.md')} (team)`)
+          expect(text).toContain('**Layer:** team')
+        } finally {
+          await layeredServer.close()
+        }
+      } finally {
+        await fs.rm(testDir, { recursive: true, force: true }).catch(() => {})
+      }
+    })
+  })
+
+  describe('namespaced agents', () => {
+    it('should expose agents in sub-folders under namespaced tool names', async () => {
+      const fs = await import('node:fs/promises')
+      const path = await import('node:path')
+      const { tmpdir } = await import('node:os')
+
+      const testDir = await fs.mkdtemp(path.join(tmpdir(), 'mcp-namespace-test-agents-'))
+
+      try {
+        await fs.mkdir(path.join(testDir, 'review', 'drafts'), { recursive: true })
+        await fs.mkdir(path.join(testDir, '.hidden'))
+        // Same name at the top level and in a folder must not collide
+        await fs.writeFile(path.join(testDir, 'security.md'), '# Security\n\nTop level agent.')
+        await fs.writeFile(
+          path.join(testDir, 'review', 'security.md'),
+          '# Security Review\n\nNamespaced agent.'
+        )
+        await fs.writeFile(path.join(testDir, 'review', 'drafts', 'wip.md'), '# WIP\n\nIgnored.')
+        await fs.writeFile(path.join(testDir, '.hidden', 'secret.md'), '# Secret\n\nHidden.')
+
+        const namespaceServer = new McpServer({
+          ...mockConfig,
+          agentsDir: testDir,
+          agentLayers: [{ name: testDir, directory: testDir }],
+          agentsIgnore: ['drafts'],
+          logLevel: 'error',
+        })
+
+        try {
+          const tools = await namespaceServer.listTools()
+          expect(agentToolNames(tools).sort()).toEqual(['agent_review__security', 'agent_security'])
+
+          const text = await readText(namespaceServer, 'agents://list')
+          expect(text).toContain('## review/security')
+          expect(text).toContain('**Namespace:** review')
+          expect(text).toContain('**Tool Name:** agent_review__security')
+        } finally {
+          await namespaceServer.close()
+        }
+      } finally {
+        await fs.rm(testDir, { recursive: true, force: true }).catch(() => {})
+      }
+    })
+  })
+
+  describe('output schemas', () => {
+    it('should publish output schemas from frontmatter and sidecar files', async () => {
+      const fs = await import('node:fs/promises')
+      const path = await import('node:path')
+      const { tmpdir } = await import('node:os')
+
+      const testDir = await fs.mkdtemp(path.join(tmpdir(), 'mcp-output-schema-test-agents-'))
+
+      try {
+        await fs.writeFile(
+          path.join(testDir, 'reviewer.md'),
+          '---\ndescription: Reviews code\noutputSchema:\n  type: object\n  properties:\n    approved:\n      type: boolean\n---\nReview.'
+        )
+        await fs.writeFile(
+          path.join(testDir, 'triage.md'),
+          '---\ndescription: Triage\n---\nTriage.'
+        )
+        await fs.writeFile(
+          path.join(testDir, 'triage.schema.json'),
+          JSON.stringify({ type: 'object', required: ['severity'] })
+        )
+
+        const schemaServer = new McpServer({
+          ...mockConfig,
+          agentsDir: testDir,
+          agentLayers: [{ name: testDir, directory: testDir }],
+          logLevel: 'error',
+        })
+
+        try {
+          const tools = await schemaServer.listTools()
+          expect(tools.filter((tool) => tool.name.startsWith('agent_'))).toEqual([
+            expect.objectContaining({
+              name: 'agent_reviewer',
+              outputSchema: { type: 'object', properties: { approved: { type: 'boolean' } } },
+            }),
+            expect.objectContaining({
+              name: 'agent_triage',
+              outputSchema: { type: 'object', required: ['severity'] },
+            }),
+          ])
+        } finally {
+          await schemaServer.close()
+        }
+      } finally {
+        await fs.rm(testDir, { recursive: true, force: true }).catch(() => {})
+      }
+    })
+  })
 })
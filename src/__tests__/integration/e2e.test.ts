@@ -37,7 +37,7 @@ describe('E2E Integration Tests', () => {
         prompt.includes('performance-agent') || args.includes('performance-agent')
 
       return {
-        stdin: { end: vi.fn() },
+        stdin: { end: vi.fn(), on: vi.fn() },
         stdout: {
           on: vi.fn((event, callback) => {
             if (event === 'data') {
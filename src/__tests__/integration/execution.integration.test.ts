@@ -29,6 +29,7 @@ describe('AgentExecutor Integration', () => {
       const mockProcess = {
         stdin: {
           end: vi.fn(),
+          on: vi.fn(),
         },
         stdout: {
           on: vi.fn((event, callback) => {
@@ -116,6 +117,8 @@ describe('AgentExecutor Integration', () => {
         executionTime: expect.any(Number),
         hasResult: expect.any(Boolean),
         resultJson: expect.any(Object),
+        extractedResult: { text: '', isError: false, toolCalls: [], filesTouched: [] },
+        success: expect.any(Boolean),
       })
 
       // Verify basic execution properties
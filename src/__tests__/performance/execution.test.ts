@@ -19,7 +19,7 @@ vi.mock('node:child_process', () => ({
   spawn: vi.fn(() => {
     // Mock spawn to return a mock ChildProcess
     const mockChildProcess = {
-      stdin: { end: vi.fn() },
+      stdin: { end: vi.fn(), on: vi.fn() },
       stdout: {
         on: vi.fn((event, callback) => {
           if (event === 'data') {
@@ -119,7 +119,7 @@ describe('Execution Performance Tests', () => {
     mockedSpawn.mockImplementation((cmd: string, args: string[], options: any) => {
       // Return the same mock ChildProcess that was defined in the vi.mock
       const mockChildProcess = {
-        stdin: { end: vi.fn() },
+        stdin: { end: vi.fn(), on: vi.fn() },
         stdout: {
           on: vi.fn((event, callback) => {
             if (event === 'data') {
@@ -210,7 +210,7 @@ describe('Execution Performance Tests', () => {
 
     server = new McpServer(config)
     agentManager = new AgentManager(config)
-    const executionConfig = createExecutionConfig('bash')
+    const executionConfig = createExecutionConfig('cursor')
     agentExecutor = new AgentExecutor(executionConfig)
 
     await server.start()
@@ -42,6 +42,7 @@ describe('Security Validation Tests', () => {
       const mockProcess = {
         stdin: {
           end: vi.fn(),
+          on: vi.fn(),
         },
         stdout: {
           on: vi.fn((event, callback) => {
@@ -0,0 +1,266 @@
+import type { AgentInput, AgentInputType } from 'src/types/AgentDefinition'
+
+/**
+ * Parameters every agent tool has; inputs cannot use these names.
+ */
+export const RESERVED_INPUT_NAMES = [
+  'prompt',
+  'output_instructions',
+  'cwd',
+  'extra_args',
+  'session_id',
+  'track_changes',
+  'include_diff',
+  'isolation',
+]
+
+/**
+ * Maximum length of a string input value in characters.
+ */
+export const MAX_INPUT_LENGTH = 5000
+
+/**
+ * Input names, usable as tool parameter names and as `{{name}}` variables.
+ */
+const INPUT_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+/**
+ * Input type: a JSON type or `enum[a,b]`, followed by '?' when the input is optional.
+ */
+const INPUT_TYPE_PATTERN = /^(string|number|integer|boolean|enum\[([^\]]*)\])(\?)?$/
+
+/**
+ * Variable in an agent body, e.g. `{{language}}`.
+ */
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g
+
+/**
+ * Keys of the long form of an input declaration.
+ */
+const INPUT_KEYS = ['type', 'description', 'required', 'default']
+
+/**
+ * Value of an input variable.
+ */
+export type AgentInputValue = string | number | boolean
+
+/**
+ * Parse the `inputs` frontmatter of an agent.
+ *
+ * Each input is declared as a type (`string`, `number`, `integer`, `boolean`
+ * or `enum[low,high]`), optionally followed by '?' to make it optional, or as
+ * a mapping with `type`, `description`, `required` and `default`. Inputs are
+ * required unless marked optional or given a default.
+ *
+ * @param value - Value of the `inputs` key
+ * @returns Inputs by name, or an error message if the declaration is invalid
+ */
+export function parseAgentInputs(value: unknown): Record<string, AgentInput> | string {
+  if (!isRecord(value)) {
+    return "'inputs' must be a mapping of input names to types"
+  }
+
+  const inputs: Record<string, AgentInput> = {}
+  for (const [name, spec] of Object.entries(value)) {
+    if (!INPUT_NAME_PATTERN.test(name)) {
+      return `Invalid input name '${name}': use letters, digits and underscores`
+    }
+    if (RESERVED_INPUT_NAMES.includes(name)) {
+      return `Input name '${name}' is reserved for a built-in tool parameter`
+    }
+
+    const input = parseInput(name, spec)
+    if (typeof input === 'string') {
+      return input
+    }
+    inputs[name] = input
+  }
+  return inputs
+}
+
+/**
+ * Parse the declaration of a single input.
+ *
+ * @param name - Input name
+ * @param spec - Type string or mapping
+ * @returns Input, or an error message
+ */
+function parseInput(name: string, spec: unknown): AgentInput | string {
+  const fields = typeof spec === 'string' ? { type: spec } : spec
+  if (!isRecord(fields) || typeof fields['type'] !== 'string') {
+    return `Input '${name}' must be a type such as 'string' or a mapping with a 'type'`
+  }
+
+  const unknownKey = Object.keys(fields).find((key) => !INPUT_KEYS.includes(key))
+  if (unknownKey) {
+    return `Unknown key '${unknownKey}' in input '${name}'; expected ${INPUT_KEYS.join(', ')}`
+  }
+
+  const typeMatch = fields['type'].trim().match(INPUT_TYPE_PATTERN)
+  if (!typeMatch?.[1]) {
+    return `Invalid type '${fields['type']}' for input '${name}': expected string, number, integer, boolean or enum[a,b]`
+  }
+
+  const input: AgentInput = { type: 'string', required: true }
+  if (typeMatch[2] !== undefined) {
+    const values = typeMatch[2]
+      .split(',')
+      .map((enumValue) => enumValue.trim())
+      .filter((enumValue) => enumValue.length > 0)
+    if (values.length === 0) {
+      return `Input '${name}' must list at least one enum value`
+    }
+    input.enum = values
+  } else {
+    input.type = typeMatch[1] as AgentInputType
+  }
+
+  if (fields['description'] !== undefined) {
+    if (typeof fields['description'] !== 'string') {
+      return `Description of input '${name}' must be a string`
+    }
+    input.description = fields['description'].trim()
+  }
+
+  if (fields['default'] !== undefined) {
+    const error = checkInputValue(name, input, fields['default'])
+    if (error) {
+      return `Invalid default: ${error}`
+    }
+    input.default = fields['default'] as AgentInputValue
+  }
+
+  if (fields['required'] !== undefined && typeof fields['required'] !== 'boolean') {
+    return `'required' of input '${name}' must be true or false`
+  }
+  input.required =
+    (fields['required'] as boolean | undefined) ??
+    (typeMatch[3] === undefined && input.default === undefined)
+  return input
+}
+
+/**
+ * Build the tool parameter schemas of agent inputs.
+ *
+ * @param inputs - Inputs by name
+ * @returns JSON schema properties and the names of the required inputs
+ */
+export function getInputSchema(inputs: Record<string, AgentInput>): {
+  properties: Record<string, Record<string, unknown>>
+  required: string[]
+} {
+  const properties: Record<string, Record<string, unknown>> = {}
+  for (const [name, input] of Object.entries(inputs)) {
+    properties[name] = {
+      type: input.type,
+      ...(input.enum && { enum: input.enum }),
+      ...(input.description && { description: input.description }),
+      ...(input.default !== undefined && { default: input.default }),
+    }
+  }
+  const required = Object.keys(inputs).filter((name) => inputs[name]?.required)
+  return { properties, required }
+}
+
+/**
+ * Validate the input values passed in a tool call.
+ *
+ * @param inputs - Inputs by name
+ * @param params - Tool call parameters
+ * @returns Value of every input that was passed or has a default
+ * @throws {Error} When a required input is missing or a value has the wrong type
+ */
+export function resolveInputValues(
+  inputs: Record<string, AgentInput>,
+  params: Record<string, unknown>
+): Record<string, AgentInputValue> {
+  const values: Record<string, AgentInputValue> = {}
+  for (const [name, input] of Object.entries(inputs)) {
+    const value = params[name]
+    if (value === undefined || value === null) {
+      if (input.required) {
+        throw new Error(`Input '${name}' is required`)
+      }
+      if (input.default !== undefined) {
+        values[name] = input.default
+      }
+      continue
+    }
+
+    const error = checkInputValue(name, input, value)
+    if (error) {
+      throw new Error(error)
+    }
+    values[name] = value as AgentInputValue
+  }
+  return values
+}
+
+/**
+ * Substitute input values into an agent body.
+ *
+ * `{{name}}` variables of declared inputs are replaced with their values, or
+ * removed when an optional input has no value. Other `{{...}}` text is kept.
+ *
+ * @param content - Agent body
+ * @param inputs - Inputs by name
+ * @param values - Validated input values
+ * @returns Body with the variables replaced
+ */
+export function renderAgentBody(
+  content: string,
+  inputs: Record<string, AgentInput>,
+  values: Record<string, AgentInputValue>
+): string {
+  return content.replace(VARIABLE_PATTERN, (variable, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(inputs, name)) {
+      return variable
+    }
+    const value = values[name]
+    return value === undefined ? '' : String(value)
+  })
+}
+
+/**
+ * Check a value against the type of an input.
+ *
+ * @param name - Input name, used in the message
+ * @param input - Input declaration
+ * @param value - Value to check
+ * @returns Error message, or undefined if the value is valid
+ */
+function checkInputValue(name: string, input: AgentInput, value: unknown): string | undefined {
+  if (input.enum) {
+    return typeof value === 'string' && input.enum.includes(value)
+      ? undefined
+      : `Input '${name}' must be one of ${input.enum.join(', ')}`
+  }
+
+  switch (input.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return `Input '${name}' must be a string`
+      }
+      return value.length > MAX_INPUT_LENGTH
+        ? `Input '${name}' too long (max ${MAX_INPUT_LENGTH} characters)`
+        : undefined
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? undefined
+        : `Input '${name}' must be a number`
+    case 'integer':
+      return Number.isInteger(value) ? undefined : `Input '${name}' must be an integer`
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : `Input '${name}' must be true or false`
+  }
+}
+
+/**
+ * Check if a value is a plain object.
+ *
+ * @param value - Value to check
+ * @returns True for non-null objects that are not arrays
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -1,65 +1,161 @@
 import fs from 'node:fs'
 import path from 'node:path'
+import { FrontmatterParser } from 'src/agents/FrontmatterParser'
+import { checkOutputSchema } from 'src/agents/OutputSchema'
+import { PARTIALS_DIR, PartialResolver } from 'src/agents/PartialResolver'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
 import type { ServerConfig } from 'src/config/ServerConfig'
 import type { AgentDefinition } from 'src/types/AgentDefinition'
+import type { AgentDiagnostic } from 'src/types/AgentDiagnostic'
+import type { AgentLayer } from 'src/types/AgentLayer'
+import { matchesAnyGlob } from 'src/utils/Glob'
 import { type Logger, Logger as LoggerClass } from 'src/utils/Logger'
 
+/**
+ * Get the name identifying an agent across namespaces, e.g. 'review/security'.
+ *
+ * @param agent - Agent name and namespace
+ * @returns Name prefixed with the namespace, or the plain name at the top level
+ */
+export function getQualifiedAgentName(agent: Pick<AgentDefinition, 'name' | 'namespace'>): string {
+  return agent.namespace ? `${agent.namespace}/${agent.name}` : agent.name
+}
+
+/**
+ * An agent definition file found in an agents directory.
+ */
+interface AgentFile {
+  filePath: string
+  /** Path relative to the agents directory, '/' separated */
+  relativePath: string
+  namespace?: string
+  /** Sidecar `<name>.schema.json` next to the definition, if any */
+  schemaPath?: string
+}
+
+/**
+ * A parsed agent definition file kept between loads.
+ */
+interface CachedAgentFile {
+  mtimeMs: number
+  size: number
+  namespace: string | undefined
+  agent: AgentDefinition
+  /** Diagnostics found while parsing the file */
+  diagnostics: AgentDiagnostic[]
+  /** Sidecar output schema the entry was built with */
+  schemaPath: string | undefined
+  /** Partials and sidecar schema read for the entry; a change to any of them invalidates it */
+  dependencies: { filePath: string; mtimeMs: number; size: number }[]
+}
+
+/**
+ * Hit and miss counts of the parsed agent cache.
+ */
+export interface AgentCacheStats {
+  /** Files served from the cache because their mtime and size were unchanged */
+  hits: number
+  /** Files read and parsed because they were new or changed */
+  misses: number
+  /** Files currently cached */
+  size: number
+}
+
 /**
  * AgentManager class for discovering, loading, parsing, and caching agent definitions.
  *
  * Provides automatic detection of .md/.txt files in configured directory,
  * parsing of Claude Code sub-agent format, and efficient caching with
- * file change detection.
+ * file change detection: each load still lists the directories, but a file is
+ * only read and parsed again when its mtime or size changed. Deleted files
+ * are dropped from the cache.
+ *
+ * Sub-folders are searched recursively; the folder path of an agent becomes
+ * its namespace. Hidden entries and those matching AGENTS_IGNORE are skipped.
+ * Several directories can be layered, later ones overriding earlier ones.
+ * The top-level `partials` folder of each directory holds files included into
+ * agent bodies with `{{> name}}`; they are not loaded as agents.
  */
 export class AgentManager {
   private logger: Logger
+  private frontmatterParser: FrontmatterParser
+  private partialResolver = new PartialResolver()
+  private diagnostics: AgentDiagnostic[] = []
+  private projectLayers: AgentLayer[] = []
+  private cache: Map<string, CachedAgentFile> = new Map()
+  private cacheStats = { hits: 0, misses: 0 }
 
-  constructor(private config: ServerConfig) {
+  /**
+   * @param config - Server configuration
+   * @param backends - Backend registry used to validate agentType values (defaults to built-ins)
+   */
+  constructor(
+    private config: ServerConfig,
+    backends?: BackendRegistry
+  ) {
     this.logger = new LoggerClass(config.logLevel)
+    this.frontmatterParser = new FrontmatterParser(backends || BackendRegistry.withBuiltins())
   }
 
   /**
    * Retrieves a specific agent definition by name.
    *
    * @param name - The name of the agent to retrieve
+   * @param namespace - Folder of the agent relative to the agents directory, if any
    * @returns Promise resolving to the agent definition or undefined if not found
-   * @throws {Error} When agent name is invalid
+   * @throws {Error} When agent name or namespace is invalid
    */
-  async getAgent(name: string): Promise<AgentDefinition | undefined> {
+  async getAgent(name: string, namespace?: string): Promise<AgentDefinition | undefined> {
     // Input validation for security
-    if (!name || typeof name !== 'string') {
-      throw new Error('Invalid agent name: agent name is required')
+    this.validateName(name, 'agent name')
+    if (namespace !== undefined) {
+      for (const segment of namespace.split('/')) {
+        this.validateName(segment, 'agent namespace')
+      }
     }
 
-    if (name.trim().length === 0) {
-      throw new Error('Invalid agent name: empty agent name not allowed')
+    const agents = await this.loadAgentsFromDirectory()
+    return agents.get(getQualifiedAgentName({ name, ...(namespace && { namespace }) }))
+  }
+
+  /**
+   * Validates an agent name or namespace segment against path traversal and injection.
+   *
+   * @param value - Name to validate
+   * @param label - Description of the value used in error messages
+   * @throws {Error} When the value is invalid
+   */
+  private validateName(value: string, label: string): void {
+    if (!value || typeof value !== 'string') {
+      throw new Error(`Invalid ${label}: ${label} is required`)
     }
 
-    if (name.length > 255) {
-      throw new Error('Invalid agent name: too long agent name')
+    if (value.trim().length === 0) {
+      throw new Error(`Invalid ${label}: empty ${label} not allowed`)
+    }
+
+    if (value.length > 255) {
+      throw new Error(`Invalid ${label}: too long ${label}`)
     }
 
     // Check for invalid characters that could be used for path traversal or injection
     const invalidChars = /[<>:"/\\|?*;`$()&|\s]/
-    if (invalidChars.test(name)) {
-      throw new Error('Invalid agent name: forbidden characters detected')
+    if (invalidChars.test(value)) {
+      throw new Error(`Invalid ${label}: forbidden characters detected`)
     }
 
     // Check for control characters using char code inspection
-    for (let i = 0; i < name.length; i++) {
-      const charCode = name.charCodeAt(i)
+    for (let i = 0; i < value.length; i++) {
+      const charCode = value.charCodeAt(i)
       if ((charCode >= 0 && charCode <= 31) || charCode === 127) {
-        throw new Error('Invalid agent name: forbidden characters detected')
+        throw new Error(`Invalid ${label}: forbidden characters detected`)
       }
     }
 
     // Check for path traversal attempts
-    if (name.includes('..') || name.includes('./') || name.includes('.\\')) {
-      throw new Error('Invalid agent name: path traversal attempt detected')
+    if (value.includes('..') || value.includes('./') || value.includes('.\\')) {
+      throw new Error(`Invalid ${label}: path traversal attempt detected`)
     }
-
-    const agents = await this.loadAgentsFromDirectory()
-    return agents.get(name)
   }
 
   /**
@@ -72,6 +168,24 @@ export class AgentManager {
     return Array.from(agents.values())
   }
 
+  /**
+   * Gets the diagnostics found during the last agent discovery.
+   *
+   * @returns Diagnostics with file and line of each problem
+   */
+  getDiagnostics(): AgentDiagnostic[] {
+    return [...this.diagnostics]
+  }
+
+  /**
+   * Gets the hit and miss counts of the parsed agent cache.
+   *
+   * @returns Cache statistics since the manager was created
+   */
+  getCacheStats(): AgentCacheStats {
+    return { ...this.cacheStats, size: this.cache.size }
+  }
+
   /**
    * Refreshes the agents by re-scanning the agents directory.
    * Forces reload of all agent definitions from disk.
@@ -83,80 +197,438 @@ export class AgentManager {
   }
 
   /**
-   * Loads all agent definitions from the configured directory.
-   * Scans for .md and .txt files and parses them as agent definitions.
+   * Gets the agent directory layers, ordered from lowest to highest precedence.
+   * Project layers found in the client's workspace come after the configured ones.
    *
-   * @returns Map of agent name to agent definition
+   * @returns Configured and project layers
    */
-  private async loadAgentsFromDirectory(): Promise<Map<string, AgentDefinition>> {
-    try {
-      const agentsDir = path.resolve(this.config.agentsDir)
-      this.logger.info('Starting agent discovery', { directory: agentsDir })
-
-      const files = await fs.promises.readdir(agentsDir)
+  getLayers(): AgentLayer[] {
+    return [...this.config.agentLayers, ...this.projectLayers]
+  }
 
-      const agentFiles = files.filter((file) => file.endsWith('.md') || file.endsWith('.txt'))
+  /**
+   * Gets the project agent folders found in the client's workspace roots.
+   *
+   * @returns Project layers
+   */
+  getProjectLayers(): AgentLayer[] {
+    return [...this.projectLayers]
+  }
 
-      this.logger.info('Agent definition files discovered', {
-        totalFiles: files.length,
-        agentFiles: agentFiles.length,
-        files: agentFiles,
-      })
+  /**
+   * Sets the project agent folders found in the client's workspace roots.
+   * Their agents override configured agents with the same name from the next load on.
+   *
+   * @param layers - Project layers, lowest precedence first
+   */
+  setProjectLayers(layers: AgentLayer[]): void {
+    this.projectLayers = [...layers]
+  }
 
+  /**
+   * Loads all agent definitions from the configured directories.
+   * Scans each layer for .md and .txt files and parses them as agent definitions;
+   * agents in later layers override agents with the same name in earlier layers.
+   * Layers that cannot be read are skipped unless none can be read.
+   *
+   * @returns Map of qualified agent name to agent definition
+   */
+  private async loadAgentsFromDirectory(): Promise<Map<string, AgentDefinition>> {
+    const layers = this.getLayers()
+    const directories = layers.map((layer) => layer.directory).join(', ')
+    try {
       const agents = new Map<string, AgentDefinition>()
-
-      for (const file of agentFiles) {
-        const filePath = path.join(agentsDir, file)
+      // Definition each overriding agent replaced, for agents extending their own name
+      const shadowedAgents = new Map<AgentDefinition, AgentDefinition>()
+      const diagnostics: AgentDiagnostic[] = []
+      const seenFiles = new Set<string>()
+      const missesBefore = this.cacheStats.misses
+      let readableLayers = 0
+
+      for (const layer of layers) {
+        const agentsDir = path.resolve(layer.directory)
+        this.logger.debug('Starting agent discovery', { layer: layer.name, directory: agentsDir })
+
+        let agentFiles: AgentFile[]
         try {
-          const agent = await this.loadAgentFromFile(filePath)
-          if (agent) {
-            agents.set(agent.name, agent)
-            this.logger.debug('Agent definition loaded successfully', {
-              name: agent.name,
+          agentFiles = await this.findAgentFiles(agentsDir, [])
+        } catch (error) {
+          this.logger.warn('Skipping unreadable agents directory', {
+            layer: layer.name,
+            directory: agentsDir,
+            error: error instanceof Error ? error.message : String(error),
+          })
+          continue
+        }
+        readableLayers++
+        for (const { filePath } of agentFiles) {
+          seenFiles.add(filePath)
+        }
+
+        this.logger.debug('Agent definition files discovered', {
+          layer: layer.name,
+          agentFiles: agentFiles.length,
+          files: agentFiles.map(({ relativePath }) => relativePath),
+        })
+
+        const layerAgents = await this.loadLayerAgents(
+          agentFiles,
+          diagnostics,
+          path.join(agentsDir, PARTIALS_DIR)
+        )
+        for (const [qualifiedName, agent] of layerAgents) {
+          agent.layer = layer.name
+          const shadowed = agents.get(qualifiedName)
+          if (shadowed) {
+            shadowedAgents.set(agent, shadowed)
+            agent.shadows = [
+              ...(shadowed.shadows ?? []),
+              { layer: shadowed.layer ?? '', filePath: shadowed.filePath },
+            ]
+            this.logger.debug('Agent definition overrides an earlier layer', {
+              name: qualifiedName,
               filePath: agent.filePath,
-              description: agent.description,
+              shadowedFilePath: shadowed.filePath,
             })
           }
-        } catch (error) {
-          this.logger.error(
-            'Failed to load agent definition from file',
-            error instanceof Error ? error : undefined,
-            { filePath }
-          )
+          agents.set(qualifiedName, agent)
         }
       }
 
-      this.logger.info('Agent discovery completed', {
-        loadedAgents: agents.size,
+      if (readableLayers === 0) {
+        throw new Error('No agents directory could be read')
+      }
+
+      const resolvedAgents = this.resolveInheritance(agents, shadowedAgents, diagnostics)
+
+      // Drop deleted files (and files of layers that are gone) from the cache
+      for (const filePath of this.cache.keys()) {
+        if (!seenFiles.has(filePath)) {
+          this.cache.delete(filePath)
+        }
+      }
+
+      this.diagnostics = diagnostics
+
+      // Loads served entirely from the cache happen on every call, so only report re-reads
+      const filesRead = this.cacheStats.misses - missesBefore
+      const summary = {
+        loadedAgents: resolvedAgents.size,
+        filesRead,
+        diagnostics: diagnostics.length,
+        cacheHits: this.cacheStats.hits,
+        cacheMisses: this.cacheStats.misses,
         timestamp: new Date().toISOString(),
-      })
+      }
+      if (filesRead > 0) {
+        this.logger.info('Agent discovery completed', summary)
+      } else {
+        this.logger.debug('Agent discovery completed', summary)
+      }
 
-      return agents
+      return resolvedAgents
     } catch (error) {
       this.logger.error(
         'Failed to scan agents directory',
         error instanceof Error ? error : undefined,
-        { directory: this.config.agentsDir }
+        { directory: directories }
       )
-      throw new Error(`Failed to load agents from directory: ${this.config.agentsDir}`)
+      throw new Error(`Failed to load agents from directory: ${directories}`)
+    }
+  }
+
+  /**
+   * Loads the agent definition files of one layer.
+   * Agents defined twice within the layer are reported; the later file wins.
+   *
+   * @param agentFiles - Agent files found in the layer
+   * @param diagnostics - Collected diagnostics
+   * @param partialsDir - Partials folder of the layer
+   * @returns Map of qualified agent name to agent definition
+   */
+  private async loadLayerAgents(
+    agentFiles: AgentFile[],
+    diagnostics: AgentDiagnostic[],
+    partialsDir: string
+  ): Promise<Map<string, AgentDefinition>> {
+    const agents = new Map<string, AgentDefinition>()
+
+    for (const agentFile of agentFiles) {
+      const { filePath } = agentFile
+      try {
+        const agent = await this.loadAgentFromFile(agentFile, diagnostics, partialsDir)
+        if (agent) {
+          const qualifiedName = getQualifiedAgentName(agent)
+          const duplicate = agents.get(qualifiedName)
+          if (duplicate) {
+            this.addDiagnostic(diagnostics, {
+              severity: 'error',
+              filePath,
+              line: 1,
+              key: 'name',
+              message: `Agent name '${qualifiedName}' is already defined in ${duplicate.filePath}, which this file replaces`,
+            })
+          }
+          agents.set(qualifiedName, agent)
+          this.logger.debug('Agent definition loaded successfully', {
+            name: agent.name,
+            filePath: agent.filePath,
+            description: agent.description,
+          })
+        }
+      } catch (error) {
+        this.logger.error(
+          'Failed to load agent definition from file',
+          error instanceof Error ? error : undefined,
+          { filePath }
+        )
+      }
+    }
+
+    return agents
+  }
+
+  /**
+   * Resolves `extends` chains across all loaded agents.
+   * An agent extending its own name builds on the definition it overrides in a
+   * lower layer, e.g. a project agent refining the team agent of the same name.
+   * Agents whose parent is missing, cannot be loaded or forms a cycle are
+   * reported and left out, so they never run without the parent's settings.
+   *
+   * @param agents - Map of qualified agent name to agent definition as loaded
+   * @param shadowedAgents - Definition each overriding agent replaced in a lower layer
+   * @param diagnostics - Collected diagnostics
+   * @returns Map of qualified agent name to agent definition with inheritance applied
+   */
+  private resolveInheritance(
+    agents: Map<string, AgentDefinition>,
+    shadowedAgents: Map<AgentDefinition, AgentDefinition>,
+    diagnostics: AgentDiagnostic[]
+  ): Map<string, AgentDefinition> {
+    // Keyed by definition, since a name may stand for several layers of one agent
+    const resolved = new Map<AgentDefinition, AgentDefinition>()
+    const failed = new Set<AgentDefinition>()
+    const cycleErrors = new Map<AgentDefinition, string>()
+
+    const resolve = (
+      agent: AgentDefinition,
+      chain: AgentDefinition[]
+    ): AgentDefinition | undefined => {
+      const done = resolved.get(agent)
+      if (done || failed.has(agent)) {
+        return done
+      }
+
+      if (!agent.extends) {
+        resolved.set(agent, agent)
+        return agent
+      }
+
+      const qualifiedName = getQualifiedAgentName(agent)
+      const lineage = [...chain, agent]
+      const parentName = this.findParentName(agent, agents)
+      const parentAgent =
+        parentName === qualifiedName
+          ? shadowedAgents.get(agent)
+          : parentName && agents.get(parentName)
+      let parent: AgentDefinition | undefined
+      let error: string | undefined
+      if (!parentName) {
+        error = `Agent '${qualifiedName}' extends unknown agent '${agent.extends}'`
+      } else if (!parentAgent) {
+        error = `Agent '${qualifiedName}' extends its own name, but no lower layer defines it`
+      } else if (lineage.includes(parentAgent)) {
+        const cycle = [...lineage.slice(lineage.indexOf(parentAgent)), parentAgent]
+        error = `Circular extends: ${cycle.map((member) => getQualifiedAgentName(member)).join(' -> ')}`
+        for (const member of cycle) {
+          cycleErrors.set(member, error)
+        }
+      } else {
+        parent = resolve(parentAgent, lineage)
+        if (!parent) {
+          error =
+            cycleErrors.get(agent) ??
+            `Agent '${qualifiedName}' extends '${parentName}', which could not be loaded`
+        }
+      }
+
+      if (error || !parent) {
+        failed.add(agent)
+        this.addDiagnostic(diagnostics, {
+          severity: 'error',
+          filePath: agent.filePath,
+          line: 1,
+          key: 'extends',
+          message: `${error}; the agent is not loaded`,
+        })
+        return undefined
+      }
+
+      const inherited = this.inheritFrom(parent, agent)
+      resolved.set(agent, inherited)
+      return inherited
+    }
+
+    const result = new Map<string, AgentDefinition>()
+    for (const [qualifiedName, agent] of agents) {
+      const inherited = resolve(agent, [])
+      if (inherited) {
+        result.set(qualifiedName, inherited)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Finds the agent named by `extends`. A plain name is looked up in the agent's
+   * own namespace first, then at the top level; a name containing '/' is qualified.
+   *
+   * @param agent - Agent extending another agent
+   * @param agents - Map of qualified agent name to agent definition
+   * @returns Qualified name of the parent, or undefined if there is no such agent
+   */
+  private findParentName(
+    agent: AgentDefinition,
+    agents: Map<string, AgentDefinition>
+  ): string | undefined {
+    const parentName = agent.extends as string
+    if (agent.namespace && !parentName.includes('/')) {
+      const sibling = `${agent.namespace}/${parentName}`
+      if (agents.has(sibling)) {
+        return sibling
+      }
+    }
+    return agents.has(parentName) ? parentName : undefined
+  }
+
+  /**
+   * Applies a resolved parent to an agent: settings the agent does not set are
+   * inherited, inputs are merged and the parent's body is combined with the agent's body.
+   *
+   * @param parent - Resolved parent definition
+   * @param agent - Agent extending the parent
+   * @returns New agent definition with inheritance applied
+   */
+  private inheritFrom(parent: AgentDefinition, agent: AgentDefinition): AgentDefinition {
+    const content =
+      agent.extendsBody === 'append'
+        ? `${agent.content}\n\n${parent.content}`
+        : `${parent.content}\n\n${agent.content}`
+
+    return {
+      ...(parent.tools && { tools: parent.tools }),
+      ...(parent.model && { model: parent.model }),
+      ...(parent.agentType && { agentType: parent.agentType }),
+      ...(parent.autoApprovalMode !== undefined && {
+        autoApprovalMode: parent.autoApprovalMode,
+      }),
+      ...(parent.systemPromptMode && { systemPromptMode: parent.systemPromptMode }),
+      ...(parent.maxConcurrent !== undefined && { maxConcurrent: parent.maxConcurrent }),
+      ...(parent.isolation && { isolation: parent.isolation }),
+      ...(parent.outputSchema && { outputSchema: parent.outputSchema }),
+      ...agent,
+      ...((parent.inputs || agent.inputs) && { inputs: { ...parent.inputs, ...agent.inputs } }),
+      content,
+    }
+  }
+
+  /**
+   * Recursively finds agent definition files below a directory.
+   * Hidden entries and entries matching the ignore patterns are skipped.
+   *
+   * @param directory - Directory to scan
+   * @param segments - Folder names from the agents directory down to this directory
+   * @returns Agent files with their namespace, sorted by path
+   */
+  private async findAgentFiles(directory: string, segments: string[]): Promise<AgentFile[]> {
+    const entries = await fs.promises.readdir(directory, { withFileTypes: true })
+    entries.sort((a, b) => a.name.localeCompare(b.name))
+
+    const agentFiles: AgentFile[] = []
+    for (const entry of entries) {
+      const relativePath = [...segments, entry.name].join('/')
+      if (entry.name.startsWith('.') || matchesAnyGlob(relativePath, this.config.agentsIgnore)) {
+        continue
+      }
+
+      const entryPath = path.join(directory, entry.name)
+      if (entry.isDirectory() && segments.length === 0 && entry.name === PARTIALS_DIR) {
+        // Partials are included into agent bodies, not agents themselves
+        continue
+      }
+      if (entry.isDirectory()) {
+        try {
+          agentFiles.push(...(await this.findAgentFiles(entryPath, [...segments, entry.name])))
+        } catch (error) {
+          this.logger.warn('Skipping unreadable agents sub-directory', {
+            directory: entryPath,
+            error: error instanceof Error ? error.message : String(error),
+          })
+        }
+      } else if (
+        (entry.isFile() || entry.isSymbolicLink()) &&
+        (entry.name.endsWith('.md') || entry.name.endsWith('.txt'))
+      ) {
+        const schemaName = entry.name.replace(/\.(md|txt)$/, '.schema.json')
+        const schemaEntry = entries.find(
+          (other) => other.name === schemaName && !other.isDirectory()
+        )
+        agentFiles.push({
+          filePath: entryPath,
+          relativePath,
+          ...(segments.length > 0 && { namespace: segments.join('/') }),
+          ...(schemaEntry && { schemaPath: path.join(directory, schemaEntry.name) }),
+        })
+      }
     }
+    return agentFiles
   }
 
   /**
    * Loads and parses a single agent definition from a file.
+   * Files whose mtime and size did not change since the last load are served from the cache.
    *
-   * @param filePath - Absolute path to the agent definition file
+   * @param agentFile - Agent definition file with its namespace and sidecar schema
+   * @param diagnostics - Collector for diagnostics of the file
+   * @param partialsDir - Partials folder include directives are resolved in
    * @returns Promise resolving to the parsed agent definition or undefined
    */
-  private async loadAgentFromFile(filePath: string): Promise<AgentDefinition | undefined> {
+  private async loadAgentFromFile(
+    agentFile: AgentFile,
+    diagnostics: AgentDiagnostic[],
+    partialsDir: string
+  ): Promise<AgentDefinition | undefined> {
+    const { filePath, namespace, schemaPath } = agentFile
     try {
+      const stats = await fs.promises.stat(filePath)
+
+      // Serve unchanged files from the cache; their diagnostics were logged when parsed
+      const cached = this.cache.get(filePath)
+      if (
+        cached &&
+        cached.mtimeMs === stats.mtimeMs &&
+        cached.size === stats.size &&
+        cached.namespace === namespace &&
+        cached.schemaPath === schemaPath &&
+        (await this.dependenciesUnchanged(cached))
+      ) {
+        this.cacheStats.hits++
+        diagnostics.push(...cached.diagnostics)
+        return { ...cached.agent }
+      }
+      this.cacheStats.misses++
+
       this.logger.debug('Loading agent definition from file', { filePath })
 
       const content = await fs.promises.readFile(filePath, 'utf-8')
-      const stats = await fs.promises.stat(filePath)
+      const fileDiagnostics: AgentDiagnostic[] = []
 
       // Parse frontmatter if present
-      const { frontmatter, bodyContent } = this.parseFrontmatter(content)
+      const parsed = this.frontmatterParser.parse(content, filePath)
+      const { frontmatter, bodyContent } = parsed
+      for (const diagnostic of parsed.diagnostics) {
+        this.addDiagnostic(fileDiagnostics, diagnostic)
+      }
 
       // Extract agent name from filename (without extension) as fallback
       const fileName = path.basename(filePath)
@@ -167,11 +639,52 @@ export class AgentManager {
 
       // Use frontmatter description if available, otherwise extract from content
       const description = frontmatter.description || this.extractDescription(bodyContent || content)
+      if (!frontmatter.description) {
+        this.addDiagnostic(fileDiagnostics, {
+          severity: 'warning',
+          filePath,
+          line: 1,
+          key: 'description',
+          message: `Missing 'description'; clients will see '${description}' instead`,
+        })
+      }
+
+      // Expand {{> partial}} includes; an agent with broken includes is not loaded
+      const body = bodyContent || content
+      const bodyLineOffset = content.slice(0, content.length - body.length).split('\n').length - 1
+      const expansion = await this.partialResolver.expand(
+        body,
+        filePath,
+        partialsDir,
+        bodyLineOffset
+      )
+      for (const diagnostic of expansion.diagnostics) {
+        this.addDiagnostic(fileDiagnostics, diagnostic)
+      }
+      if (expansion.diagnostics.some((diagnostic) => diagnostic.severity === 'error')) {
+        diagnostics.push(...fileDiagnostics)
+        return undefined
+      }
+
+      // An output schema in the frontmatter takes precedence over a sidecar file
+      let outputSchema = frontmatter.outputSchema
+      if (schemaPath && outputSchema) {
+        this.addDiagnostic(fileDiagnostics, {
+          severity: 'warning',
+          filePath: schemaPath,
+          line: 1,
+          key: 'outputSchema',
+          message: `Ignored because ${path.basename(filePath)} declares 'outputSchema' in its frontmatter`,
+        })
+      } else if (schemaPath) {
+        outputSchema = await this.loadOutputSchema(schemaPath, fileDiagnostics)
+      }
 
       const agentDefinition: AgentDefinition = {
         name: agentName,
         description,
-        content: bodyContent || content,
+        content: expansion.content,
+        ...(namespace && { namespace }),
         filePath,
         lastModified: stats.mtime,
         ...(frontmatter.model && { model: frontmatter.model }),
@@ -181,6 +694,15 @@ export class AgentManager {
           autoApprovalMode: frontmatter.autoApprovalMode,
         }),
         ...(frontmatter.agentType && { agentType: frontmatter.agentType }),
+        ...(frontmatter.systemPromptMode && { systemPromptMode: frontmatter.systemPromptMode }),
+        ...(frontmatter.maxConcurrent !== undefined && {
+          maxConcurrent: frontmatter.maxConcurrent,
+        }),
+        ...(frontmatter.isolation && { isolation: frontmatter.isolation }),
+        ...(frontmatter.inputs && { inputs: frontmatter.inputs }),
+        ...(outputSchema && { outputSchema }),
+        ...(frontmatter.extends && { extends: frontmatter.extends }),
+        ...(frontmatter.extendsBody && { extendsBody: frontmatter.extendsBody }),
       }
 
       this.logger.debug('Agent definition parsed successfully', {
@@ -194,7 +716,27 @@ export class AgentManager {
         agentType: frontmatter.agentType,
       })
 
-      return agentDefinition
+      this.cache.set(filePath, {
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+        namespace,
+        agent: agentDefinition,
+        diagnostics: fileDiagnostics,
+        schemaPath,
+        dependencies: await Promise.all(
+          [...expansion.includes, ...(schemaPath ? [schemaPath] : [])].map(async (dependency) => {
+            const dependencyStats = await fs.promises.stat(dependency)
+            return {
+              filePath: dependency,
+              mtimeMs: dependencyStats.mtimeMs,
+              size: dependencyStats.size,
+            }
+          })
+        ),
+      })
+      diagnostics.push(...fileDiagnostics)
+
+      return { ...agentDefinition }
     } catch (error) {
       this.logger.error(
         'Error reading agent definition file',
@@ -206,103 +748,75 @@ export class AgentManager {
   }
 
   /**
-   * Parses YAML frontmatter from markdown content (Claude Code format).
-   * Extracts metadata like name, description, tools, model, color, and agentType.
+   * Reads a sidecar output schema file.
    *
-   * @param content - The full file content
-   * @returns Object with parsed frontmatter and remaining body content
+   * @param schemaPath - Path of the `.schema.json` file
+   * @param diagnostics - Collector for diagnostics of the agent
+   * @returns The schema, or undefined if the file is not a valid output schema
    */
-  private parseFrontmatter(content: string): {
-    frontmatter: {
-      name?: string
-      description?: string
-      tools?: string[]
-      autoApprovalMode?: boolean
-      model?: string
-      color?: string
-      agentType?: 'cursor' | 'claude' | 'gemini'
+  private async loadOutputSchema(
+    schemaPath: string,
+    diagnostics: AgentDiagnostic[]
+  ): Promise<Record<string, unknown> | undefined> {
+    const reportError = (message: string) => {
+      this.addDiagnostic(diagnostics, {
+        severity: 'error',
+        filePath: schemaPath,
+        line: 1,
+        key: 'outputSchema',
+        message,
+      })
     }
-    bodyContent: string | null
-  } {
-    // Match YAML frontmatter between --- delimiters
-    const frontmatterRegex = /^---\s*\n([\s\S]*?)\n---\s*\n([\s\S]*)$/
-
-    const match = content.match(frontmatterRegex)
-
-    if (!match) {
-      // No frontmatter found, return empty metadata
-      return {
-        frontmatter: {},
-        bodyContent: null,
-      }
+
+    let schema: unknown
+    try {
+      schema = JSON.parse(await fs.promises.readFile(schemaPath, 'utf-8'))
+    } catch (error) {
+      reportError(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`)
+      return undefined
     }
 
-    const frontmatterText = match[1]
-    const bodyContent = match[2]
-
-    const frontmatter: {
-      name?: string
-      description?: string
-      tools?: string[]
-      autoApprovalMode?: boolean
-      model?: string
-      color?: string
-      agentType?: 'cursor' | 'claude' | 'gemini'
-    } = {}
-
-    if (frontmatterText) {
-      // Parse simple YAML key-value pairs
-      const lines = frontmatterText.split('\n')
-
-      for (const line of lines) {
-        // Match key: value or key: 'value' or key: "value"
-        const keyValueMatch = line.match(/^(\w+):\s*(.+)$/)
-
-        if (keyValueMatch) {
-          const key = keyValueMatch[1]?.trim()
-          let value = keyValueMatch[2]?.trim()
-
-          if (key && value) {
-            // Remove quotes if present
-            if (
-              (value.startsWith("'") && value.endsWith("'")) ||
-              (value.startsWith('"') && value.endsWith('"'))
-            ) {
-              value = value.slice(1, -1)
-            }
+    const error = checkOutputSchema(schema)
+    if (error) {
+      reportError(error)
+      return undefined
+    }
+    return schema as Record<string, unknown>
+  }
 
-            // Store relevant fields
-            if (key === 'name') {
-              frontmatter.name = value
-            } else if (key === 'description') {
-              frontmatter.description = value
-            } else if (key === 'tools') {
-              // Parse comma-separated tools list
-              frontmatter.tools = value
-                .split(',')
-                .map((tool) => tool.trim())
-                .filter((tool) => tool.length > 0)
-            } else if (key === 'autoApprovalMode') {
-              frontmatter.autoApprovalMode = value === 'true'
-            } else if (key === 'model') {
-              frontmatter.model = value
-            } else if (key === 'color') {
-              frontmatter.color = value
-            } else if (key === 'agentType') {
-              // Validate agentType value
-              if (value === 'cursor' || value === 'claude' || value === 'gemini') {
-                frontmatter.agentType = value
-              }
-            }
-          }
+  /**
+   * Checks whether the partials and sidecar schema read for a cached agent are unchanged.
+   *
+   * @param cached - Cached agent file
+   * @returns True if every dependency still has the cached mtime and size
+   */
+  private async dependenciesUnchanged(cached: CachedAgentFile): Promise<boolean> {
+    for (const dependency of cached.dependencies) {
+      try {
+        const stats = await fs.promises.stat(dependency.filePath)
+        if (stats.mtimeMs !== dependency.mtimeMs || stats.size !== dependency.size) {
+          return false
         }
+      } catch {
+        return false
       }
     }
+    return true
+  }
 
-    return {
-      frontmatter,
-      bodyContent: bodyContent ?? null,
-    }
+  /**
+   * Logs a diagnostic and adds it to the collected diagnostics.
+   *
+   * @param diagnostics - Diagnostics collected during discovery
+   * @param diagnostic - Problem found in an agent definition file
+   */
+  private addDiagnostic(diagnostics: AgentDiagnostic[], diagnostic: AgentDiagnostic): void {
+    this.logger.warn('Problem in agent definition', {
+      location: `${diagnostic.filePath}:${diagnostic.line}`,
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+    })
+    diagnostics.push(diagnostic)
   }
 
   /**
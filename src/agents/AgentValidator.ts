@@ -0,0 +1,105 @@
+import { type AgentManager, getQualifiedAgentName } from 'src/agents/AgentManager'
+import { DynamicAgentTool } from 'src/tools/DynamicAgentTools'
+import type { AgentDiagnostic } from 'src/types/AgentDiagnostic'
+
+/**
+ * Maximum agent body length in characters.
+ * Larger bodies crowd out the task in the sub-agent's context and may exceed
+ * the argument size limit of backends that receive the prompt through argv.
+ */
+export const MAX_AGENT_BODY_LENGTH = 50000
+
+/**
+ * Result of validating the agents directory.
+ */
+export interface AgentValidationReport {
+  /**
+   * Number of agents loaded from the directory.
+   */
+  agentCount: number
+
+  /**
+   * Number of diagnostics with severity 'error'.
+   */
+  errorCount: number
+
+  /**
+   * Number of diagnostics with severity 'warning'.
+   */
+  warningCount: number
+
+  /**
+   * All problems found, ordered by file and line.
+   */
+  diagnostics: AgentDiagnostic[]
+}
+
+/**
+ * AgentValidator class checking agent definitions for problems.
+ *
+ * Combines the diagnostics reported while AgentManager loads the agents
+ * (frontmatter errors, duplicate names, missing descriptions, broken includes) with checks
+ * across the loaded agents: tool name collisions and oversized bodies.
+ */
+export class AgentValidator {
+  /**
+   * @param agentManager - Agent manager loading the agents directory
+   */
+  constructor(private readonly agentManager: AgentManager) {}
+
+  /**
+   * Load all agents and collect their problems.
+   *
+   * @returns Validation report
+   * @throws {Error} When the agents directory cannot be read
+   */
+  async validate(): Promise<AgentValidationReport> {
+    const agents = await this.agentManager.listAgents()
+    const diagnostics = this.agentManager.getDiagnostics()
+
+    // Agents whose names sanitize to the same MCP tool name shadow each other
+    const agentsByToolName = new Map<string, typeof agents>()
+    for (const agent of agents) {
+      const toolName = DynamicAgentTool.sanitizeToolName(agent.name, agent.namespace)
+      agentsByToolName.set(toolName, [...(agentsByToolName.get(toolName) ?? []), agent])
+    }
+    for (const [toolName, collidingAgents] of agentsByToolName) {
+      if (collidingAgents.length < 2) {
+        continue
+      }
+      for (const agent of collidingAgents) {
+        const others = collidingAgents
+          .filter((other) => other !== agent)
+          .map((other) => `'${getQualifiedAgentName(other)}'`)
+          .join(', ')
+        diagnostics.push({
+          severity: 'error',
+          filePath: agent.filePath,
+          line: 1,
+          key: 'name',
+          message: `Agent '${getQualifiedAgentName(agent)}' and ${others} share the tool name '${toolName}'; only one of them is exposed`,
+        })
+      }
+    }
+
+    for (const agent of agents) {
+      if (agent.content.length > MAX_AGENT_BODY_LENGTH) {
+        diagnostics.push({
+          severity: 'error',
+          filePath: agent.filePath,
+          line: 1,
+          message: `Agent body is ${agent.content.length} characters long (max ${MAX_AGENT_BODY_LENGTH})`,
+        })
+      }
+    }
+
+    diagnostics.sort((a, b) => a.filePath.localeCompare(b.filePath) || a.line - b.line)
+
+    return {
+      agentCount: agents.length,
+      errorCount: diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length,
+      warningCount: diagnostics.filter((diagnostic) => diagnostic.severity === 'warning').length,
+      diagnostics,
+    }
+  }
+}
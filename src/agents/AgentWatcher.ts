@@ -0,0 +1,163 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { Logger } from 'src/utils/Logger'
+
+/**
+ * Default delay in milliseconds used to coalesce bursts of file system events.
+ * Editors typically emit several events (write, rename, chmod) for a single save.
+ */
+export const DEFAULT_WATCH_DEBOUNCE_MS = 200
+
+/**
+ * AgentWatcher class for observing agent definition files on disk.
+ *
+ * Watches the configured agents directory and its sub-folders and invokes the
+ * change callback whenever an agent definition file or its sidecar schema is
+ * added, changed or removed, or a sub-folder is added, renamed or removed.
+ * Events are debounced so that a single save results in a single reload.
+ */
+export class AgentWatcher {
+  private watcher: fs.FSWatcher | null = null
+  private debounceTimer: NodeJS.Timeout | null = null
+  private logger: Logger
+
+  /**
+   * Creates a new AgentWatcher instance.
+   *
+   * @param directory - Directory containing agent definition files
+   * @param onChange - Callback invoked after agent definition files changed
+   * @param debounceMs - Delay used to coalesce bursts of events
+   * @param logger - Optional Logger instance for structured logging
+   */
+  constructor(
+    private directory: string,
+    private onChange: () => void | Promise<void>,
+    private debounceMs: number = DEFAULT_WATCH_DEBOUNCE_MS,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info')
+  }
+
+  /**
+   * Starts watching the agents directory.
+   * Failures (e.g. a missing directory) are logged and leave the watcher inactive.
+   *
+   * @returns True if the watcher was started
+   */
+  start(): boolean {
+    if (this.watcher) {
+      return true
+    }
+
+    const directory = path.resolve(this.directory)
+
+    try {
+      this.watcher = fs.watch(directory, { recursive: true }, (eventType, fileName) => {
+        // Some platforms do not report the file name; reload to be safe
+        if (
+          fileName &&
+          !this.isAgentFile(fileName.toString()) &&
+          !(
+            eventType === 'rename' && this.isFolderChange(path.join(directory, fileName.toString()))
+          )
+        ) {
+          return
+        }
+        this.scheduleChange()
+      })
+
+      this.watcher.on('error', (error) => {
+        this.logger.warn('Agent directory watcher failed', {
+          directory,
+          error: error.message,
+        })
+        this.stop()
+      })
+
+      this.logger.debug('Watching agent directory for changes', { directory })
+      return true
+    } catch (error) {
+      this.logger.warn('Failed to watch agent directory (hot reload disabled)', {
+        directory,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      this.watcher = null
+      return false
+    }
+  }
+
+  /**
+   * Stops watching and cancels any pending change notification.
+   */
+  stop(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer)
+      this.debounceTimer = null
+    }
+    if (this.watcher) {
+      this.watcher.close()
+      this.watcher = null
+    }
+  }
+
+  /**
+   * Check if the watcher is currently active
+   *
+   * @returns True if watching
+   */
+  isWatching(): boolean {
+    return this.watcher !== null
+  }
+
+  /**
+   * Schedules the change callback, restarting the debounce window.
+   *
+   * @private
+   */
+  private scheduleChange(): void {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer)
+    }
+
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = null
+      Promise.resolve(this.onChange()).catch((error: unknown) => {
+        this.logger.error(
+          'Agent change handler failed',
+          error instanceof Error ? error : undefined,
+          { directory: this.directory }
+        )
+      })
+    }, this.debounceMs)
+  }
+
+  /**
+   * Check if a file name refers to an agent definition file.
+   *
+   * @private
+   * @param fileName - File name reported by the watcher
+   * @returns True for .md and .txt files and sidecar .schema.json files
+   */
+  private isAgentFile(fileName: string): boolean {
+    return (
+      fileName.endsWith('.md') || fileName.endsWith('.txt') || fileName.endsWith('.schema.json')
+    )
+  }
+
+  /**
+   * Check if a rename event may have added, renamed or removed a folder.
+   * Folder names decide namespaced tool names, so such changes need a reload.
+   *
+   * @private
+   * @param filePath - Path reported by the watcher
+   * @returns True if the path is a folder or no longer exists
+   */
+  private isFolderChange(filePath: string): boolean {
+    try {
+      return fs.statSync(filePath).isDirectory()
+    } catch {
+      // Removed or renamed away; it may have been a folder of agents
+      return true
+    }
+  }
+}
@@ -0,0 +1,383 @@
+import { parseAgentInputs } from 'src/agents/AgentInputs'
+import { checkOutputSchema } from 'src/agents/OutputSchema'
+import type { BackendRegistry } from 'src/backends/BackendRegistry'
+import type {
+  AgentInput,
+  ExtendsBodyMode,
+  IsolationMode,
+  SystemPromptMode,
+} from 'src/types/AgentDefinition'
+import type { AgentDiagnostic } from 'src/types/AgentDiagnostic'
+import type { AgentType } from 'src/types/AgentType'
+import { LineCounter, isMap, isNode, isScalar, parseDocument, parse as parseYaml } from 'yaml'
+
+/**
+ * Metadata declared in the YAML frontmatter of an agent definition file.
+ */
+export interface AgentFrontmatter {
+  name?: string
+  description?: string
+  tools?: string[]
+  autoApprovalMode?: boolean
+  model?: string
+  color?: string
+  agentType?: AgentType
+  systemPromptMode?: SystemPromptMode
+  maxConcurrent?: number
+  isolation?: IsolationMode
+  inputs?: Record<string, AgentInput>
+  outputSchema?: Record<string, unknown>
+  extends?: string
+  extendsBody?: ExtendsBodyMode
+}
+
+/**
+ * Result of parsing an agent definition file.
+ */
+export interface FrontmatterParseResult {
+  frontmatter: AgentFrontmatter
+  /** Content after the frontmatter, or null when the file has no frontmatter */
+  bodyContent: string | null
+  diagnostics: AgentDiagnostic[]
+}
+
+/**
+ * Frontmatter keys understood by the server.
+ */
+const FRONTMATTER_KEYS: (keyof AgentFrontmatter)[] = [
+  'name',
+  'description',
+  'tools',
+  'autoApprovalMode',
+  'model',
+  'color',
+  'agentType',
+  'systemPromptMode',
+  'maxConcurrent',
+  'isolation',
+  'inputs',
+  'outputSchema',
+  'extends',
+  'extendsBody',
+]
+
+/**
+ * Frontmatter between --- delimiters at the start of the file (LF or CRLF line endings).
+ */
+const FRONTMATTER_PATTERN =
+  /^\uFEFF?---[ \t]*\r?\n(?:([\s\S]*?)\r?\n)?---[ \t]*(?:\r?\n|$)([\s\S]*)$/
+
+/**
+ * Model names and aliases, e.g. 'sonnet', 'gpt-4o', 'openai/gpt-4o' or 'claude-opus-4@latest'.
+ */
+const MODEL_PATTERN = /^[A-Za-z0-9][\w.:/@[\]-]*$/
+
+/**
+ * A top-level frontmatter entry with the file line it was declared on.
+ */
+interface FrontmatterEntry {
+  key: string
+  value: unknown
+  line: number
+}
+
+/**
+ * FrontmatterParser class parsing and validating agent definition frontmatter.
+ *
+ * The frontmatter is parsed as YAML, so lists, block scalars, comments and
+ * CRLF files are supported. Each key is checked against the frontmatter
+ * schema; unknown keys, wrongly typed values and unregistered agent types
+ * are reported as diagnostics with the file line instead of being dropped
+ * silently. Frontmatter that is not valid YAML (e.g. an unquoted description
+ * containing ': ') is reported and read line by line as `key: value` pairs.
+ */
+export class FrontmatterParser {
+  /**
+   * @param backends - Backend registry used to validate agentType values
+   */
+  constructor(private readonly backends: BackendRegistry) {}
+
+  /**
+   * Parse the frontmatter of an agent definition file.
+   *
+   * @param content - Full file content
+   * @param filePath - Path of the file, used in diagnostics
+   * @returns Validated frontmatter, remaining body content and diagnostics
+   */
+  parse(content: string, filePath: string): FrontmatterParseResult {
+    const match = content.match(FRONTMATTER_PATTERN)
+    if (!match) {
+      return { frontmatter: {}, bodyContent: null, diagnostics: [] }
+    }
+
+    const frontmatterText = match[1] ?? ''
+    const diagnostics: AgentDiagnostic[] = []
+    const report = (
+      severity: AgentDiagnostic['severity'],
+      line: number,
+      message: string,
+      key?: string
+    ) => {
+      diagnostics.push({
+        severity,
+        filePath,
+        line,
+        ...(key !== undefined && { key }),
+        message,
+      })
+    }
+
+    const frontmatter: AgentFrontmatter = {}
+    const reportError = (line: number, message: string) => report('error', line, message)
+    for (const entry of this.readEntries(frontmatterText, reportError)) {
+      if (!FRONTMATTER_KEYS.includes(entry.key as keyof AgentFrontmatter)) {
+        const suggestion = this.suggestKey(entry.key)
+        report(
+          'warning',
+          entry.line,
+          `Unknown frontmatter key '${entry.key}'${suggestion ? ` (did you mean '${suggestion}'?)` : ''}`,
+          entry.key
+        )
+        continue
+      }
+
+      const error = this.applyEntry(frontmatter, entry)
+      if (error) {
+        report('error', entry.line, error, entry.key)
+      }
+    }
+
+    return { frontmatter, bodyContent: match[2] ?? '', diagnostics }
+  }
+
+  /**
+   * Read the top-level entries of the frontmatter.
+   *
+   * @param text - Frontmatter text between the delimiters
+   * @param report - Callback collecting diagnostics
+   * @returns Entries with their file line numbers
+   */
+  private readEntries(
+    text: string,
+    report: (line: number, message: string) => void
+  ): FrontmatterEntry[] {
+    // The frontmatter starts on the second line of the file
+    const lineOffset = 1
+    const lineCounter = new LineCounter()
+    const document = parseDocument(text, { lineCounter, prettyErrors: false })
+
+    if (document.errors.length > 0) {
+      for (const error of document.errors) {
+        const line = lineCounter.linePos(error.pos[0]).line + lineOffset
+        report(line, `Invalid YAML: ${error.message.split('\n')[0]}`)
+      }
+      return this.readPlainEntries(text, lineOffset)
+    }
+
+    if (document.contents === null) {
+      return []
+    }
+    if (!isMap(document.contents)) {
+      report(1 + lineOffset, 'Frontmatter must be a mapping of keys to values')
+      return []
+    }
+
+    const entries: FrontmatterEntry[] = []
+    for (const pair of document.contents.items) {
+      if (!isScalar(pair.key)) {
+        continue
+      }
+      const offset = pair.key.range?.[0] ?? 0
+      entries.push({
+        key: String(pair.key.value),
+        value: isNode(pair.value) ? pair.value.toJS(document) : pair.value,
+        line: lineCounter.linePos(offset).line + lineOffset,
+      })
+    }
+    return entries
+  }
+
+  /**
+   * Read frontmatter that is not valid YAML as one `key: value` pair per line.
+   *
+   * @param text - Frontmatter text between the delimiters
+   * @param lineOffset - Number of file lines before the frontmatter text
+   * @returns Entries with their file line numbers
+   */
+  private readPlainEntries(text: string, lineOffset: number): FrontmatterEntry[] {
+    const entries: FrontmatterEntry[] = []
+    text.split(/\r?\n/).forEach((line, index) => {
+      const keyValueMatch = line.match(/^(\w+):\s*(.+)$/)
+      if (!keyValueMatch?.[1] || !keyValueMatch[2]) {
+        return
+      }
+
+      // Read each value as a YAML scalar where possible, otherwise as plain text
+      const rawValue = keyValueMatch[2].trim()
+      let value: unknown = rawValue
+      try {
+        const parsed = parseYaml(rawValue)
+        if (parsed === null || typeof parsed !== 'object') {
+          value = parsed
+        }
+      } catch {
+        // Keep the plain text
+      }
+
+      entries.push({ key: keyValueMatch[1], value, line: index + 1 + lineOffset })
+    })
+    return entries
+  }
+
+  /**
+   * Validate an entry and store its value in the frontmatter.
+   *
+   * @param frontmatter - Frontmatter being built
+   * @param entry - Entry to apply
+   * @returns Error message if the value is invalid, otherwise null
+   */
+  private applyEntry(frontmatter: AgentFrontmatter, entry: FrontmatterEntry): string | null {
+    const { key, value } = entry
+
+    switch (key) {
+      case 'name':
+      case 'description':
+      case 'color':
+        if (typeof value !== 'string' || value.trim() === '') {
+          return `'${key}' must be a non-empty string`
+        }
+        frontmatter[key] = value.trim()
+        return null
+
+      case 'model':
+        // Passed to the CLI as the value of --model, so it must be a single plain token
+        if (typeof value !== 'string' || !MODEL_PATTERN.test(value.trim())) {
+          return `Invalid model '${String(value)}': expected a model name or alias such as 'sonnet'`
+        }
+        frontmatter.model = value.trim()
+        return null
+
+      case 'tools': {
+        // Claude Code style comma separated string or a YAML list
+        const tools =
+          typeof value === 'string'
+            ? value.split(',')
+            : Array.isArray(value) && value.every((tool) => typeof tool === 'string')
+              ? (value as string[])
+              : null
+        if (!tools) {
+          return "'tools' must be a comma separated string or a list of strings"
+        }
+        frontmatter.tools = tools.map((tool) => tool.trim()).filter((tool) => tool.length > 0)
+        return null
+      }
+
+      case 'autoApprovalMode':
+        if (typeof value !== 'boolean') {
+          return "'autoApprovalMode' must be true or false"
+        }
+        frontmatter.autoApprovalMode = value
+        return null
+
+      case 'agentType':
+        if (typeof value !== 'string' || !this.backends.has(value)) {
+          return `Unknown agentType '${String(value)}'. Registered backends: ${this.backends.names().join(', ')}`
+        }
+        frontmatter.agentType = value
+        return null
+
+      case 'systemPromptMode':
+        if (value !== 'inline' && value !== 'append' && value !== 'replace') {
+          return "'systemPromptMode' must be one of inline, append, replace"
+        }
+        frontmatter.systemPromptMode = value
+        return null
+
+      case 'maxConcurrent':
+        if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+          return "'maxConcurrent' must be a positive integer"
+        }
+        frontmatter.maxConcurrent = value
+        return null
+
+      case 'isolation':
+        if (value !== 'none' && value !== 'worktree') {
+          return "'isolation' must be one of none, worktree"
+        }
+        frontmatter.isolation = value
+        return null
+
+      case 'inputs': {
+        const inputs = parseAgentInputs(value)
+        if (typeof inputs === 'string') {
+          return inputs
+        }
+        frontmatter.inputs = inputs
+        return null
+      }
+
+      case 'outputSchema': {
+        const error = checkOutputSchema(value)
+        if (error) {
+          return error
+        }
+        frontmatter.outputSchema = value as Record<string, unknown>
+        return null
+      }
+
+      case 'extends':
+        if (typeof value !== 'string' || value.trim() === '') {
+          return "'extends' must be the name of another agent"
+        }
+        frontmatter.extends = value.trim()
+        return null
+
+      case 'extendsBody':
+        if (value !== 'prepend' && value !== 'append') {
+          return "'extendsBody' must be one of prepend, append"
+        }
+        frontmatter.extendsBody = value
+        return null
+
+      default:
+        return null
+    }
+  }
+
+  /**
+   * Suggest the known key closest to a misspelled one.
+   *
+   * @param key - Unknown key
+   * @returns Known key within two edits (ignoring case), or undefined
+   */
+  private suggestKey(key: string): string | undefined {
+    let best: { key: string; distance: number } | undefined
+    for (const knownKey of FRONTMATTER_KEYS) {
+      const distance = editDistance(key.toLowerCase(), knownKey.toLowerCase())
+      if (distance <= 2 && (!best || distance < best.distance)) {
+        best = { key: knownKey, distance }
+      }
+    }
+    return best?.key
+  }
+}
+
+/**
+ * Compute the Levenshtein distance between two strings.
+ *
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single character edits turning a into b
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = (previous[j - 1] ?? 0) + (a[i - 1] === b[j - 1] ? 0 : 1)
+      current.push(Math.min((previous[j] ?? 0) + 1, (current[j - 1] ?? 0) + 1, substitution))
+    }
+    previous = current
+  }
+  return previous[b.length] ?? 0
+}
@@ -0,0 +1,105 @@
+import Ajv from 'ajv'
+
+/**
+ * Shared validator; compiled schemas are cached by their content.
+ */
+const ajv = new Ajv({ allErrors: true })
+
+/**
+ * Result of reading structured output from an agent's answer.
+ */
+export type StructuredOutput = { value: Record<string, unknown> } | { error: string }
+
+/**
+ * Check that a value is usable as the output schema of an agent tool.
+ *
+ * MCP requires tool output schemas to describe an object, so the schema must
+ * be a JSON Schema (draft-07) with `type: object` at the top level.
+ *
+ * @param schema - Declared schema
+ * @returns Error message, or undefined if the schema is valid
+ */
+export function checkOutputSchema(schema: unknown): string | undefined {
+  if (typeof schema !== 'object' || schema === null || Array.isArray(schema)) {
+    return "'outputSchema' must be a JSON Schema object"
+  }
+  if ((schema as Record<string, unknown>)['type'] !== 'object') {
+    return "'outputSchema' must have type 'object' at the top level"
+  }
+  try {
+    ajv.compile(schema)
+  } catch (error) {
+    return `Invalid 'outputSchema': ${error instanceof Error ? error.message : String(error)}`
+  }
+  return undefined
+}
+
+/**
+ * Instructions appended to the prompt of an agent with an output schema.
+ *
+ * @param schema - Output schema of the agent
+ * @returns Prompt section asking for a JSON answer in the schema's shape
+ */
+export function getOutputSchemaInstructions(schema: Record<string, unknown>): string {
+  const schemaText = JSON.stringify(schema, null, 2)
+  return `Respond with only a JSON object that matches the following JSON Schema, without any other text:\n${schemaText}`
+}
+
+/**
+ * Parse an agent's answer and validate it against its output schema.
+ *
+ * The answer may be the bare JSON object, a fenced ```json block, or text
+ * around a single JSON object.
+ *
+ * @param text - Agent's answer
+ * @param schema - Output schema of the agent
+ * @returns Parsed object, or an error message
+ */
+export function parseStructuredOutput(
+  text: string,
+  schema: Record<string, unknown>
+): StructuredOutput {
+  const value = extractJsonObject(text)
+  if (value === undefined) {
+    return { error: 'The agent did not answer with a JSON object' }
+  }
+
+  const validate = ajv.compile(schema)
+  if (!validate(value)) {
+    return {
+      error: `The agent's answer does not match the output schema: ${ajv.errorsText(validate.errors, { dataVar: 'output' })}`,
+    }
+  }
+  return { value }
+}
+
+/**
+ * Find the JSON object in an agent's answer.
+ *
+ * @param text - Agent's answer
+ * @returns Parsed object, or undefined if the answer holds none
+ */
+function extractJsonObject(text: string): Record<string, unknown> | undefined {
+  const trimmed = text.trim()
+  const fenced = trimmed.match(/```(?:json)?\s*\n([\s\S]*?)\n\s*```/)
+  const candidates = [
+    trimmed,
+    fenced?.[1],
+    trimmed.slice(trimmed.indexOf('{'), trimmed.lastIndexOf('}') + 1),
+  ]
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue
+    }
+    try {
+      const value: unknown = JSON.parse(candidate)
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        return value as Record<string, unknown>
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined
+}
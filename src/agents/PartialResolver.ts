@@ -0,0 +1,197 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { AgentDiagnostic } from 'src/types/AgentDiagnostic'
+
+/**
+ * Folder inside each agents directory holding partials. Files in it are not agents.
+ */
+export const PARTIALS_DIR = 'partials'
+
+/**
+ * Include directive, e.g. `{{> shared/coding-standards.md}}`.
+ */
+const INCLUDE_PATTERN = /\{\{>\s*([^\s}]+)\s*\}\}/g
+
+/**
+ * Result of expanding the include directives of an agent body.
+ */
+export interface PartialExpansion {
+  /** Text with every include directive replaced by the partial's content */
+  content: string
+  /** Real paths of all partials the content was built from */
+  includes: string[]
+  /** Problems with include directives; the content is incomplete if any is an error */
+  diagnostics: AgentDiagnostic[]
+}
+
+/**
+ * PartialResolver class expanding include directives in agent bodies.
+ *
+ * `{{> name}}` is replaced with the content of `name` in the partials folder.
+ * Partials may include other partials; paths are always relative to the
+ * partials folder. Includes that resolve outside the folder (including through
+ * symlinks), missing partials and include cycles are reported as diagnostics
+ * with the file and line of the directive.
+ */
+export class PartialResolver {
+  /**
+   * Expand the include directives in a text.
+   *
+   * @param text - Text to expand, e.g. an agent body
+   * @param filePath - File the text comes from, used in diagnostics
+   * @param partialsDir - Partials folder includes are resolved in
+   * @param lineOffset - Number of file lines before the text
+   * @returns Expanded text, included partials and diagnostics
+   */
+  async expand(
+    text: string,
+    filePath: string,
+    partialsDir: string,
+    lineOffset = 0
+  ): Promise<PartialExpansion> {
+    if (!text.includes('{{>')) {
+      return { content: text, includes: [], diagnostics: [] }
+    }
+
+    const includes = new Set<string>()
+    const diagnostics: AgentDiagnostic[] = []
+    const realPartialsDir = await fs.promises.realpath(partialsDir).catch(() => undefined)
+    const content = await this.expandText(text, {
+      filePath,
+      lineOffset,
+      partialsDir,
+      realPartialsDir,
+      stack: [],
+      includes,
+      diagnostics,
+    })
+    return { content, includes: [...includes], diagnostics }
+  }
+
+  /**
+   * Replace the include directives of a text, recursing into included partials.
+   *
+   * @param text - Text to expand
+   * @param context - File of the text, partials folder, include stack and collectors
+   * @returns Expanded text; directives that cannot be resolved are removed
+   */
+  private async expandText(
+    text: string,
+    context: {
+      filePath: string
+      lineOffset: number
+      partialsDir: string
+      /** Real path of the partials folder, undefined if it does not exist */
+      realPartialsDir: string | undefined
+      stack: string[]
+      includes: Set<string>
+      diagnostics: AgentDiagnostic[]
+    }
+  ): Promise<string> {
+    let result = ''
+    let lastIndex = 0
+    for (const match of text.matchAll(INCLUDE_PATTERN)) {
+      const index = match.index ?? 0
+      result += text.slice(lastIndex, index)
+      lastIndex = index + match[0].length
+
+      const line = context.lineOffset + text.slice(0, index).split('\n').length
+      const reportError = (message: string) => {
+        context.diagnostics.push({ severity: 'error', filePath: context.filePath, line, message })
+      }
+
+      const reference = match[1] as string
+      const partialPath = await this.resolvePartial(
+        reference,
+        context.partialsDir,
+        context.realPartialsDir
+      )
+      if (!partialPath) {
+        reportError(`Partial '${reference}' not found in ${context.partialsDir}`)
+        continue
+      }
+      if (partialPath === 'outside') {
+        reportError(`Include '${reference}' points outside the partials folder`)
+        continue
+      }
+      if (context.stack.includes(partialPath)) {
+        const cycle = [...context.stack.slice(context.stack.indexOf(partialPath)), partialPath]
+        reportError(
+          `Circular include: ${cycle.map((partial) => this.displayName(partial, context.realPartialsDir)).join(' -> ')}`
+        )
+        continue
+      }
+
+      context.includes.add(partialPath)
+      const partialContent = await fs.promises.readFile(partialPath, 'utf-8')
+      result += await this.expandText(partialContent.replace(/\r?\n$/, ''), {
+        ...context,
+        filePath: partialPath,
+        lineOffset: 0,
+        stack: [...context.stack, partialPath],
+      })
+    }
+    return result + text.slice(lastIndex)
+  }
+
+  /**
+   * Resolve an include reference to the real path of a partial.
+   *
+   * @param reference - Path in the include directive
+   * @param partialsDir - Partials folder
+   * @param realPartialsDir - Real path of the partials folder, undefined if it does not exist
+   * @returns Real path of the partial, 'outside' if it escapes the folder, or undefined if missing
+   */
+  private async resolvePartial(
+    reference: string,
+    partialsDir: string,
+    realPartialsDir: string | undefined
+  ): Promise<string | 'outside' | undefined> {
+    if (!this.isInside(partialsDir, path.resolve(partialsDir, reference))) {
+      return 'outside'
+    }
+    if (!realPartialsDir) {
+      return undefined
+    }
+
+    try {
+      const realPath = await fs.promises.realpath(path.resolve(partialsDir, reference))
+      if (!this.isInside(realPartialsDir, realPath)) {
+        return 'outside'
+      }
+      return (await fs.promises.stat(realPath)).isFile() ? realPath : undefined
+    } catch {
+      return undefined
+    }
+  }
+
+  /**
+   * Check if a path is inside a directory.
+   *
+   * @param directory - Directory
+   * @param filePath - Absolute path to check
+   * @returns True if the path is below the directory
+   */
+  private isInside(directory: string, filePath: string): boolean {
+    const relativePath = path.relative(directory, filePath)
+    return (
+      relativePath !== '' &&
+      relativePath !== '..' &&
+      !relativePath.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relativePath)
+    )
+  }
+
+  /**
+   * Name of a partial relative to the partials folder, for messages.
+   *
+   * @param partialPath - Real path of the partial
+   * @param realPartialsDir - Real path of the partials folder
+   * @returns Path relative to the partials folder
+   */
+  private displayName(partialPath: string, realPartialsDir: string | undefined): string {
+    return realPartialsDir
+      ? path.relative(realPartialsDir, partialPath).split(path.sep).join('/')
+      : partialPath
+  }
+}
@@ -0,0 +1,50 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { AgentLayer } from 'src/types/AgentLayer'
+import { getRootPaths } from 'src/utils/WorkspaceSandbox'
+
+/**
+ * Folders inside a project that hold agent definitions committed to the repository.
+ */
+export const DEFAULT_PROJECT_AGENTS_DIRS = ['.claude/agents', '.cursor/agents']
+
+/**
+ * Find the project agent folders inside the client's workspace roots.
+ *
+ * Only `file://` roots are searched; folders that do not exist are left out.
+ * The layers follow the order of the roots and of the folder names, and each
+ * directory is listed once even if several roots contain it.
+ *
+ * @param roots - Workspace roots reported by the MCP client
+ * @param projectAgentsDirs - Folders to look for, relative to each root
+ * @returns Layers of the project agent folders that exist
+ */
+export function findProjectAgentLayers(
+  roots: { uri: string }[],
+  projectAgentsDirs: string[]
+): AgentLayer[] {
+  const layers: AgentLayer[] = []
+  for (const rootPath of getRootPaths(roots)) {
+    for (const projectAgentsDir of projectAgentsDirs) {
+      const directory = path.join(rootPath, projectAgentsDir)
+      if (isDirectory(directory) && !layers.some((layer) => layer.directory === directory)) {
+        layers.push({ name: directory, directory })
+      }
+    }
+  }
+  return layers
+}
+
+/**
+ * Check if a path refers to an existing directory.
+ *
+ * @param directory - Path to check
+ * @returns True for existing directories
+ */
+function isDirectory(directory: string): boolean {
+  try {
+    return fs.statSync(directory).isDirectory()
+  } catch {
+    return false
+  }
+}
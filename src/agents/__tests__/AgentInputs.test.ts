@@ -0,0 +1,95 @@
+import {
+  getInputSchema,
+  parseAgentInputs,
+  renderAgentBody,
+  resolveInputValues,
+} from 'src/agents/AgentInputs'
+import type { AgentInput } from 'src/types/AgentDefinition'
+import { describe, expect, it } from 'vitest'
+
+describe('AgentInputs', () => {
+  const inputs: Record<string, AgentInput> = {
+    language: { type: 'string', description: 'Language of the code', required: true },
+    strictness: { type: 'string', enum: ['low', 'high'], required: false, default: 'low' },
+    focus: { type: 'string', required: false },
+  }
+
+  describe('parseAgentInputs', () => {
+    it('should parse short and long declarations', () => {
+      expect(
+        parseAgentInputs({
+          language: 'string',
+          strictness: 'enum[low,high]',
+          verbose: 'boolean?',
+          limit: { type: 'number', required: false },
+        })
+      ).toEqual({
+        language: { type: 'string', required: true },
+        strictness: { type: 'string', enum: ['low', 'high'], required: true },
+        verbose: { type: 'boolean', required: false },
+        limit: { type: 'number', required: false },
+      })
+    })
+
+    it('should reject invalid declarations', () => {
+      expect(parseAgentInputs(['language'])).toBe(
+        "'inputs' must be a mapping of input names to types"
+      )
+      expect(parseAgentInputs({ prompt: 'string' })).toBe(
+        "Input name 'prompt' is reserved for a built-in tool parameter"
+      )
+      expect(parseAgentInputs({ 'my-input': 'string' })).toMatch(/^Invalid input name/)
+      expect(parseAgentInputs({ mode: 'enum[]' })).toBe(
+        "Input 'mode' must list at least one enum value"
+      )
+      expect(parseAgentInputs({ mode: { type: 'string', values: ['a'] } })).toMatch(
+        /^Unknown key 'values' in input 'mode'/
+      )
+      expect(parseAgentInputs({ depth: { type: 'integer', default: 'deep' } })).toBe(
+        "Invalid default: Input 'depth' must be an integer"
+      )
+    })
+  })
+
+  it('should build tool parameter schemas', () => {
+    expect(getInputSchema(inputs)).toEqual({
+      properties: {
+        language: { type: 'string', description: 'Language of the code' },
+        strictness: { type: 'string', enum: ['low', 'high'], default: 'low' },
+        focus: { type: 'string' },
+      },
+      required: ['language'],
+    })
+  })
+
+  describe('resolveInputValues', () => {
+    it('should apply defaults and leave out optional inputs without a value', () => {
+      expect(resolveInputValues(inputs, { prompt: 'Review', language: 'go' })).toEqual({
+        language: 'go',
+        strictness: 'low',
+      })
+    })
+
+    it('should reject missing required inputs and invalid values', () => {
+      expect(() => resolveInputValues(inputs, { prompt: 'Review' })).toThrow(
+        "Input 'language' is required"
+      )
+      expect(() => resolveInputValues(inputs, { language: 'go', strictness: 'medium' })).toThrow(
+        "Input 'strictness' must be one of low, high"
+      )
+      expect(() => resolveInputValues(inputs, { language: 42 })).toThrow(
+        "Input 'language' must be a string"
+      )
+    })
+  })
+
+  it('should substitute declared variables only', () => {
+    expect(
+      renderAgentBody(
+        'Review {{language}} code ({{ strictness }}).{{focus}} Keep {{other}} as is.',
+        inputs,
+        { language: 'go', strictness: 'high' }
+      )
+    ).toBe('Review go code (high). Keep {{other}} as is.')
+  })
+})
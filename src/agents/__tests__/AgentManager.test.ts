@@ -1,7 +1,7 @@
 import { AgentManager } from 'src/agents/AgentManager'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
 import type { ServerConfig } from 'src/config/ServerConfig'
-import type { AgentDefinition } from 'src/types/AgentDefinition'
-import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { type Mock, afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
 // Mock fs module
 vi.mock('node:fs', () => ({
@@ -31,13 +31,25 @@ import fs from 'node:fs'
 import path from 'node:path'
 
 // Type the mocked functions
-const mockReaddir = vi.mocked(fs.promises.readdir)
+// readdir is only called with withFileTypes, so type the mock with that overload
+const mockReaddir = vi.mocked(fs.promises.readdir) as unknown as Mock<
+  (path: string, options: { withFileTypes: true }) => Promise<fs.Dirent[]>
+>
 const mockReadFile = vi.mocked(fs.promises.readFile)
 const mockStat = vi.mocked(fs.promises.stat)
 const mockResolve = vi.mocked(path.resolve)
 const mockJoin = vi.mocked(path.join)
 const mockBasename = vi.mocked(path.basename)
 
+// Directory entries of regular files as returned by readdir with withFileTypes
+const fileEntries = (names: string[]) =>
+  names.map((name) => ({
+    name,
+    isFile: () => true,
+    isDirectory: () => false,
+    isSymbolicLink: () => false,
+  })) as unknown as fs.Dirent[]
+
 describe('AgentManager', () => {
   let agentManager: AgentManager
   let mockConfig: ServerConfig
@@ -54,12 +66,24 @@ describe('AgentManager', () => {
     // Create mock config
     mockConfig = {
       agentsDir: '/test/agents',
+      agentLayers: [{ name: '/test/agents', directory: '/test/agents' }],
+      agentsIgnore: [],
       serverName: 'test-server',
       serverVersion: '1.0.0',
       agentType: 'cursor',
+      projectAgentsDirs: [],
       logLevel: 'info',
       executionTimeoutMs: 300000,
-    } as ServerConfig
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      httpSessionTimeoutMs: 1800000,
+      httpAuthToken: undefined,
+      backendsConfig: undefined,
+      maxConcurrentAgents: 0,
+      queueTimeoutMs: 300000,
+      allowedRoots: [],
+    }
 
     agentManager = new AgentManager(mockConfig)
   })
@@ -81,14 +105,14 @@ describe('AgentManager', () => {
       const mockStats = { mtime: new Date('2025-01-01') }
       const mockContent = '# Test Agent\nThis is a test agent.'
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
       mockJoin.mockImplementation((dir, file) => `${dir}/${file}`)
       mockBasename.mockImplementation((filePath) => {
         const parts = filePath.split('/')
-        return parts[parts.length - 1]
+        return parts[parts.length - 1] ?? ''
       })
 
       // Act
@@ -96,14 +120,14 @@ describe('AgentManager', () => {
 
       // Assert
       expect(agents).toHaveLength(2) // Only .md and .txt files
-      expect(mockReaddir).toHaveBeenCalledWith('/test/agents')
+      expect(mockReaddir).toHaveBeenCalledWith('/test/agents', { withFileTypes: true })
       expect(agents.some((agent) => agent.name === 'agent1')).toBe(true)
       expect(agents.some((agent) => agent.name === 'agent2')).toBe(true)
     })
 
     it('should handle empty agents directory', async () => {
       // Arrange
-      mockReaddir.mockResolvedValue([] as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries([]))
       mockResolve.mockReturnValue('/test/agents')
 
       // Act
@@ -111,7 +135,7 @@ describe('AgentManager', () => {
 
       // Assert
       expect(agents).toHaveLength(0)
-      expect(mockReaddir).toHaveBeenCalledWith('/test/agents')
+      expect(mockReaddir).toHaveBeenCalledWith('/test/agents', { withFileTypes: true })
     })
 
     it('should handle directory read errors', async () => {
@@ -133,7 +157,7 @@ describe('AgentManager', () => {
       const mockStats = { mtime: new Date('2025-01-01') }
       const mockContent = '# Test Agent\nThis is a comprehensive test agent for validation.'
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -167,7 +191,7 @@ agentType: claude
 
 Content here.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -203,7 +227,7 @@ This agent helps create Playwright tests.
 # Usage
 Call this agent when you need to test browser functionality.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -240,7 +264,7 @@ model: opus
 
 Agent content here.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -268,7 +292,7 @@ model: sonnet
 
 Content here.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -298,7 +322,7 @@ model: sonnet
 
 This is the content.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -328,7 +352,7 @@ model: gpt-4
 
 Content for cursor agent.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -358,7 +382,7 @@ agentType: invalid-value
 
 Content here.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -373,6 +397,126 @@ Content here.`
       expect(agent!.agentType).toBeUndefined() // Invalid value should be ignored
     })
 
+    it('should parse systemPromptMode and ignore invalid values', async () => {
+      // Arrange
+      const mockContent = (mode: string) => `---
+name: persona-agent
+description: 'Agent with a native system prompt'
+systemPromptMode: ${mode}
+---
+
+You are a meticulous reviewer.`
+
+      mockReaddir.mockResolvedValue(fileEntries(['persona-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date('2025-01-01') } as fs.Stats)
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/persona-agent.md')
+      mockBasename.mockReturnValue('persona-agent.md')
+
+      // Act
+      mockReadFile.mockResolvedValue(mockContent('append'))
+      const appendAgent = await agentManager.getAgent('persona-agent')
+      await agentManager.refreshAgents()
+      // The file changed on disk, so it is parsed again
+      mockStat.mockResolvedValue({ mtime: new Date('2025-01-02'), mtimeMs: 1 } as fs.Stats)
+      mockReadFile.mockResolvedValue(mockContent('system'))
+      const invalidAgent = await agentManager.getAgent('persona-agent')
+
+      // Assert
+      expect(appendAgent!.systemPromptMode).toBe('append')
+      expect(invalidAgent!.systemPromptMode).toBeUndefined()
+    })
+
+    it('should collect frontmatter diagnostics with file and line', async () => {
+      // Arrange
+      const mockContent = `---
+name: typo-agent
+description: Agent with a typo
+modle: sonnet
+---
+
+Agent content.`
+
+      mockReaddir.mockResolvedValue(fileEntries(['typo-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date('2025-01-01') } as fs.Stats)
+      mockReadFile.mockResolvedValue(mockContent)
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/typo-agent.md')
+      mockBasename.mockReturnValue('typo-agent.md')
+
+      // Act
+      const agent = await agentManager.getAgent('typo-agent')
+
+      // Assert
+      expect(agent!.model).toBeUndefined()
+      expect(agentManager.getDiagnostics()).toEqual([
+        {
+          severity: 'warning',
+          filePath: '/test/agents/typo-agent.md',
+          line: 4,
+          key: 'modle',
+          message: "Unknown frontmatter key 'modle' (did you mean 'model'?)",
+        },
+      ])
+    })
+
+    it('should parse maxConcurrent and ignore invalid values', async () => {
+      // Arrange
+      const mockContent = (limit: string) => `---
+name: heavy-agent
+description: 'Agent with a concurrency limit'
+maxConcurrent: ${limit}
+---
+
+You run expensive analyses.`
+
+      mockReaddir.mockResolvedValue(fileEntries(['heavy-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date('2025-01-01') } as fs.Stats)
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/heavy-agent.md')
+      mockBasename.mockReturnValue('heavy-agent.md')
+
+      // Act
+      mockReadFile.mockResolvedValue(mockContent('2'))
+      const limitedAgent = await agentManager.getAgent('heavy-agent')
+      await agentManager.refreshAgents()
+      // The file changed on disk, so it is parsed again
+      mockStat.mockResolvedValue({ mtime: new Date('2025-01-02'), mtimeMs: 1 } as fs.Stats)
+      mockReadFile.mockResolvedValue(mockContent('-1'))
+      const invalidAgent = await agentManager.getAgent('heavy-agent')
+
+      // Assert
+      expect(limitedAgent!.maxConcurrent).toBe(2)
+      expect(invalidAgent!.maxConcurrent).toBeUndefined()
+    })
+
+    it('should accept agentType values of additionally registered backends', async () => {
+      // Arrange
+      const backends = BackendRegistry.withBuiltins()
+      backends.register('codex', { buildCommand: () => ({ command: 'codex', args: [] }) })
+      const managerWithBackends = new AgentManager(mockConfig, backends)
+      const mockContent = `---
+name: codex-agent
+description: 'Agent running on codex'
+agentType: codex
+---
+
+Content here.`
+
+      mockReaddir.mockResolvedValue(fileEntries(['codex-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date('2025-01-01') } as fs.Stats)
+      mockReadFile.mockResolvedValue(mockContent)
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/codex-agent.md')
+      mockBasename.mockReturnValue('codex-agent.md')
+
+      // Act
+      const agent = await managerWithBackends.getAgent('codex-agent')
+
+      // Assert
+      expect(agent!.agentType).toBe('codex')
+    })
+
     it('should extract description from first heading in markdown', async () => {
       // Arrange
       const mockFiles = ['agent.md']
@@ -381,7 +525,7 @@ Content here.`
 # My Custom Agent
 This agent does amazing things.`
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -402,7 +546,7 @@ This agent does amazing things.`
       const mockStats = { mtime: new Date('2025-01-01') }
       const mockContent = 'Simple agent for basic tasks\nWith some additional content.'
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
@@ -421,7 +565,7 @@ This agent does amazing things.`
       // Arrange
       const mockFiles = ['broken-agent.md']
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockReadFile.mockRejectedValue(new Error('Permission denied'))
       mockResolve.mockReturnValue('/test/agents')
       mockJoin.mockReturnValue('/test/agents/broken-agent.md')
@@ -440,7 +584,7 @@ This agent does amazing things.`
       const mockFiles = ['cached-agent.md']
       const mockContent = '# Cached Agent\nThis agent should be loaded.'
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
       mockJoin.mockReturnValue('/test/agents/cached-agent.md')
@@ -457,18 +601,97 @@ This agent does amazing things.`
       expect(mockReaddir).toHaveBeenCalledTimes(2) // Should read directory each time
     })
 
+    it('should parse unchanged files only once', async () => {
+      // Arrange
+      mockReaddir.mockResolvedValue(fileEntries(['cached-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 42 } as fs.Stats)
+      mockReadFile.mockResolvedValue('# Cached Agent\nThis agent should be cached.')
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/cached-agent.md')
+      mockBasename.mockReturnValue('cached-agent.md')
+
+      // Act
+      await agentManager.listAgents()
+      const agent = await agentManager.getAgent('cached-agent')
+
+      // Assert
+      expect(agent?.description).toBe('Cached Agent')
+      expect(mockReadFile).toHaveBeenCalledTimes(1)
+      expect(agentManager.getCacheStats()).toEqual({ hits: 1, misses: 1, size: 1 })
+    })
+
+    it('should log the discovery summary at info level only when files were read', async () => {
+      // Arrange
+      mockReaddir.mockResolvedValue(fileEntries(['cached-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 42 } as fs.Stats)
+      mockReadFile.mockResolvedValue('# Cached Agent\nThis agent should be cached.')
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/cached-agent.md')
+      mockBasename.mockReturnValue('cached-agent.md')
+      const info = vi.spyOn(agentManager['logger'], 'info')
+
+      // Act
+      await agentManager.listAgents()
+      await agentManager.listAgents()
+
+      // Assert
+      expect(info.mock.calls).toEqual([
+        ['Agent discovery completed', expect.objectContaining({ filesRead: 1 })],
+      ])
+    })
+
+    it('should parse files again when their size changes', async () => {
+      // Arrange
+      mockReaddir.mockResolvedValue(fileEntries(['cached-agent.md']))
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 42 } as fs.Stats)
+      mockReadFile.mockResolvedValue('# Cached Agent\nFirst version.')
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/cached-agent.md')
+      mockBasename.mockReturnValue('cached-agent.md')
+
+      // Act
+      await agentManager.listAgents()
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 64 } as fs.Stats)
+      mockReadFile.mockResolvedValue('# Changed Agent\nSecond version.')
+      const agent = await agentManager.getAgent('cached-agent')
+
+      // Assert
+      expect(agent?.description).toBe('Changed Agent')
+      expect(agentManager.getCacheStats()).toEqual({ hits: 0, misses: 2, size: 1 })
+    })
+
+    it('should drop deleted files from the cache', async () => {
+      // Arrange
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 42 } as fs.Stats)
+      mockReadFile.mockResolvedValue('# Deleted Agent\nGone soon.')
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockReturnValue('/test/agents/deleted-agent.md')
+      mockBasename.mockReturnValue('deleted-agent.md')
+      mockReaddir
+        .mockResolvedValueOnce(fileEntries(['deleted-agent.md']))
+        .mockResolvedValueOnce(fileEntries([]))
+
+      // Act
+      await agentManager.listAgents()
+      const agent = await agentManager.getAgent('deleted-agent')
+
+      // Assert
+      expect(agent).toBeUndefined()
+      expect(agentManager.getCacheStats().size).toBe(0)
+    })
+
     it('should load all agents on every listAgents call', async () => {
       // Arrange
       const mockFiles = ['agent1.md', 'agent2.txt']
       const mockContent = '# Test Agent\nTest content.'
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockReadFile.mockResolvedValue(mockContent)
       mockResolve.mockReturnValue('/test/agents')
       mockJoin.mockImplementation((dir, file) => `${dir}/${file}`)
       mockBasename.mockImplementation((filePath) => {
         const parts = filePath.split('/')
-        return parts[parts.length - 1]
+        return parts[parts.length - 1] ?? ''
       })
 
       // Act
@@ -494,14 +717,14 @@ This agent does amazing things.`
       mockJoin.mockImplementation((dir, file) => `${dir}/${file}`)
       mockBasename.mockImplementation((filePath) => {
         const parts = filePath.split('/')
-        return parts[parts.length - 1]
+        return parts[parts.length - 1] ?? ''
       })
 
       // Set up sequential mock responses
       mockReaddir
-        .mockResolvedValueOnce(initialFiles as unknown as fs.Dirent[]) // Initial listAgents
-        .mockResolvedValueOnce(refreshedFiles as unknown as fs.Dirent[]) // refreshAgents
-        .mockResolvedValueOnce(refreshedFiles as unknown as fs.Dirent[]) // Final listAgents
+        .mockResolvedValueOnce(fileEntries(initialFiles)) // Initial listAgents
+        .mockResolvedValueOnce(fileEntries(refreshedFiles)) // refreshAgents
+        .mockResolvedValueOnce(fileEntries(refreshedFiles)) // Final listAgents
 
       // Act - Initial load
       const initialAgents = await agentManager.listAgents()
@@ -520,7 +743,7 @@ This agent does amazing things.`
   describe('Agent Retrieval', () => {
     it('should return undefined for non-existent agent', async () => {
       // Arrange
-      mockReaddir.mockResolvedValue([] as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries([]))
       mockResolve.mockReturnValue('/test/agents')
 
       // Act
@@ -537,14 +760,15 @@ This agent does amazing things.`
       const targetContent = '# Target Agent\nThis is the target agent.'
       const otherContent = '# Other Agent\nThis is the other agent.'
 
-      mockReaddir.mockResolvedValue(mockFiles as unknown as fs.Dirent[])
+      mockReaddir.mockResolvedValue(fileEntries(mockFiles))
       mockStat.mockResolvedValue(mockStats as fs.Stats)
-      mockReadFile.mockResolvedValueOnce(targetContent).mockResolvedValueOnce(otherContent)
+      // Files are read in name order
+      mockReadFile.mockResolvedValueOnce(otherContent).mockResolvedValueOnce(targetContent)
       mockResolve.mockReturnValue('/test/agents')
       mockJoin.mockImplementation((dir, file) => `${dir}/${file}`)
       mockBasename.mockImplementation((filePath) => {
         const parts = filePath.split('/')
-        return parts[parts.length - 1]
+        return parts[parts.length - 1] ?? ''
       })
 
       // Act
@@ -557,4 +781,142 @@ This agent does amazing things.`
       expect(agent!.content).toBe(targetContent)
     })
   })
+
+  describe('Agent Inheritance', () => {
+    const useFiles = (files: Record<string, string>) => {
+      mockReaddir.mockResolvedValue(fileEntries(Object.keys(files)))
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 1 } as fs.Stats)
+      mockReadFile.mockImplementation((async (filePath: string) => {
+        return files[path.basename(filePath)]
+      }) as unknown as typeof fs.promises.readFile)
+      mockResolve.mockReturnValue('/test/agents')
+      mockJoin.mockImplementation((dir, file) => `${dir}/${file}`)
+      mockBasename.mockImplementation((filePath) => filePath.split('/').pop() as string)
+    }
+
+    it('should inherit settings and prepend the parent body', async () => {
+      useFiles({
+        'base-reviewer.md': `---
+name: base-reviewer
+description: House rules
+tools: Read, Grep
+model: sonnet
+agentType: claude
+autoApprovalMode: false
+---
+Follow the house rules.`,
+        'security.md': `---
+name: security
+description: Security review
+extends: base-reviewer
+model: opus
+---
+Look for injection flaws.`,
+      })
+
+      const agent = await agentManager.getAgent('security')
+
+      expect(agent).toMatchObject({
+        name: 'security',
+        description: 'Security review',
+        extends: 'base-reviewer',
+        tools: ['Read', 'Grep'],
+        model: 'opus',
+        agentType: 'claude',
+        autoApprovalMode: false,
+        content: 'Follow the house rules.\n\nLook for injection flaws.',
+      })
+      expect(agentManager.getDiagnostics()).toEqual([])
+    })
+
+    it('should append the parent body and resolve chains', async () => {
+      useFiles({
+        'a.md': '---\nname: a\ndescription: A\ntools: Read\n---\nA rules.',
+        'b.md': '---\nname: b\ndescription: B\nextends: a\n---\nB rules.',
+        'c.md': '---\nname: c\ndescription: C\nextends: b\nextendsBody: append\n---\nC rules.',
+      })
+
+      const agent = await agentManager.getAgent('c')
+
+      expect(agent?.tools).toEqual(['Read'])
+      expect(agent?.content).toBe('C rules.\n\nA rules.\n\nB rules.')
+    })
+
+    it('should merge inputs with the parent, the agent overriding same-named inputs', async () => {
+      useFiles({
+        'base.md':
+          '---\nname: base\ndescription: Base\ninputs:\n  language: string\n  strictness: enum[low,high]\n---\nBase.',
+        'child.md':
+          '---\nname: child\ndescription: Child\nextends: base\ninputs:\n  strictness: enum[low,high]?\n---\nChild.',
+      })
+
+      const agent = await agentManager.getAgent('child')
+
+      expect(agent?.inputs).toEqual({
+        language: { type: 'string', required: true },
+        strictness: { type: 'string', enum: ['low', 'high'], required: false },
+      })
+    })
+
+    it('should report unknown parents and cycles and leave those agents out', async () => {
+      useFiles({
+        'orphan.md': '---\nname: orphan\ndescription: O\nextends: missing\n---\nBody',
+        'x.md': '---\nname: x\ndescription: X\nextends: y\n---\nBody',
+        'y.md': '---\nname: y\ndescription: Y\nextends: x\n---\nBody',
+        'z.md': '---\nname: z\ndescription: Z\nextends: x\n---\nBody',
+      })
+
+      const agents = await agentManager.listAgents()
+
+      expect(agents).toEqual([])
+      expect(agentManager.getDiagnostics().map((diagnostic) => diagnostic.message)).toEqual([
+        "Agent 'orphan' extends unknown agent 'missing'; the agent is not loaded",
+        'Circular extends: x -> y -> x; the agent is not loaded',
+        'Circular extends: x -> y -> x; the agent is not loaded',
+        "Agent 'z' extends 'x', which could not be loaded; the agent is not loaded",
+      ])
+    })
+
+    it('should extend the lower-layer definition when an agent extends its own name', async () => {
+      const layerFiles: Record<string, Record<string, string>> = {
+        '/team': {
+          'rev.md': '---\nname: rev\ndescription: Team review\ntools: Read\n---\nTeam rules.',
+        },
+        '/project': {
+          'rev.md':
+            '---\nname: rev\ndescription: Project review\nextends: rev\n---\nProject rules.',
+          'solo.md': '---\nname: solo\ndescription: Solo\nextends: solo\n---\nBody',
+        },
+      }
+      mockReaddir.mockImplementation(async (dir) => fileEntries(Object.keys(layerFiles[dir] ?? {})))
+      mockStat.mockResolvedValue({ mtime: new Date(1000), mtimeMs: 1000, size: 1 } as fs.Stats)
+      mockReadFile.mockImplementation((async (filePath: string) => {
+        const [, layer, file] = filePath.split('/')
+        return layerFiles[`/${layer}`]?.[file as string]
+      }) as unknown as typeof fs.promises.readFile)
+      mockResolve.mockImplementation((dir) => dir)
+      mockJoin.mockImplementation((dir, file) => `${dir}/${file}`)
+      mockBasename.mockImplementation((filePath) => filePath.split('/').pop() as string)
+      const layeredManager = new AgentManager({
+        ...mockConfig,
+        agentLayers: [
+          { name: 'team', directory: '/team' },
+          { name: 'project', directory: '/project' },
+        ],
+      })
+
+      const agent = await layeredManager.getAgent('rev')
+
+      expect(agent).toMatchObject({
+        description: 'Project review',
+        layer: 'project',
+        tools: ['Read'],
+        content: 'Team rules.\n\nProject rules.',
+      })
+      expect(await layeredManager.getAgent('solo')).toBeUndefined()
+      expect(layeredManager.getDiagnostics().map((diagnostic) => diagnostic.message)).toEqual([
+        "Agent 'solo' extends its own name, but no lower layer defines it; the agent is not loaded",
+      ])
+    })
+  })
 })
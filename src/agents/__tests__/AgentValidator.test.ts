@@ -0,0 +1,105 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { AgentManager } from 'src/agents/AgentManager'
+import { AgentValidator, MAX_AGENT_BODY_LENGTH } from 'src/agents/AgentValidator'
+import type { ServerConfig } from 'src/config/ServerConfig'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('AgentValidator', () => {
+  let testAgentsDir: string
+  let validator: AgentValidator
+
+  beforeEach(() => {
+    testAgentsDir = fs.mkdtempSync(path.join(tmpdir(), 'agent-validator-test-'))
+    const config = {
+      agentsDir: testAgentsDir,
+      agentLayers: [{ name: testAgentsDir, directory: testAgentsDir }],
+      agentsIgnore: [],
+      logLevel: 'error',
+    } as unknown as ServerConfig
+    validator = new AgentValidator(new AgentManager(config))
+  })
+
+  afterEach(() => {
+    fs.rmSync(testAgentsDir, { recursive: true, force: true })
+  })
+
+  const writeAgent = (fileName: string, frontmatter: string, body = 'Do the work.') => {
+    fs.writeFileSync(path.join(testAgentsDir, fileName), `---\n${frontmatter}\n---\n${body}`)
+  }
+
+  it('should report no problems for valid agents', async () => {
+    writeAgent('reviewer.md', 'name: reviewer\ndescription: Reviews code')
+
+    expect(await validator.validate()).toEqual({
+      agentCount: 1,
+      errorCount: 0,
+      warningCount: 0,
+      diagnostics: [],
+    })
+  })
+
+  it('should report agents whose names collide after tool name sanitization', async () => {
+    writeAgent('a.md', 'name: code.reviewer\ndescription: First')
+    writeAgent('b.md', 'name: code reviewer\ndescription: Second')
+
+    const report = await validator.validate()
+
+    expect(report.errorCount).toBe(2)
+    expect(report.diagnostics[0]).toMatchObject({
+      filePath: path.join(testAgentsDir, 'a.md'),
+      key: 'name',
+      message: expect.stringContaining("share the tool name 'agent_code_reviewer'"),
+    })
+  })
+
+  it('should treat agents with the same name in different folders as distinct', async () => {
+    fs.mkdirSync(path.join(testAgentsDir, 'review'))
+    writeAgent('reviewer.md', 'name: reviewer\ndescription: Top level')
+    writeAgent('review/reviewer.md', 'name: reviewer\ndescription: Namespaced')
+    writeAgent('review__reviewer.md', 'name: review__reviewer\ndescription: Flat')
+
+    const report = await validator.validate()
+
+    expect(report.agentCount).toBe(3)
+    expect(report.diagnostics).toMatchObject([
+      {
+        filePath: path.join(testAgentsDir, 'review__reviewer.md'),
+        message: expect.stringContaining(
+          "Agent 'review__reviewer' and 'review/reviewer' share the tool name 'agent_review__reviewer'"
+        ),
+      },
+      { filePath: path.join(testAgentsDir, 'review', 'reviewer.md') },
+    ])
+  })
+
+  it('should report duplicate names', async () => {
+    writeAgent('a.md', 'name: reviewer\ndescription: First')
+    writeAgent('b.md', 'name: reviewer\ndescription: Second')
+
+    const report = await validator.validate()
+
+    expect(report.agentCount).toBe(1)
+    expect(report.diagnostics).toMatchObject([
+      {
+        severity: 'error',
+        filePath: path.join(testAgentsDir, 'b.md'),
+        message: expect.stringContaining("Agent name 'reviewer' is already defined"),
+      },
+    ])
+  })
+
+  it('should report oversized bodies and missing descriptions', async () => {
+    writeAgent('huge.md', 'name: huge', 'x'.repeat(MAX_AGENT_BODY_LENGTH + 1))
+
+    const report = await validator.validate()
+
+    expect(report.errorCount).toBe(1)
+    expect(report.warningCount).toBe(1)
+    expect(report.diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      expect.stringContaining("Missing 'description'"),
+      expect.stringContaining(`(max ${MAX_AGENT_BODY_LENGTH})`),
+    ])
+  })
+})
@@ -0,0 +1,137 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { AgentWatcher } from 'src/agents/AgentWatcher'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('AgentWatcher', () => {
+  let testAgentsDir: string
+  let watcher: AgentWatcher | undefined
+
+  beforeEach(() => {
+    testAgentsDir = fs.mkdtempSync(path.join(tmpdir(), 'agent-watcher-test-'))
+  })
+
+  afterEach(() => {
+    watcher?.stop()
+    watcher = undefined
+    fs.rmSync(testAgentsDir, { recursive: true, force: true })
+  })
+
+  const waitFor = async (predicate: () => boolean, timeoutMs = 2000): Promise<void> => {
+    const start = Date.now()
+    while (!predicate()) {
+      if (Date.now() - start > timeoutMs) {
+        throw new Error('Condition not met within timeout')
+      }
+      await new Promise((resolve) => setTimeout(resolve, 20))
+    }
+  }
+
+  it('should notify when an agent file is added', async () => {
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+
+    expect(watcher.start()).toBe(true)
+    fs.writeFileSync(path.join(testAgentsDir, 'new-agent.md'), '# New Agent')
+
+    await waitFor(() => onChange.mock.calls.length > 0)
+    expect(onChange).toHaveBeenCalled()
+  })
+
+  it('should notify when an agent file in a sub-folder is added', async () => {
+    fs.mkdirSync(path.join(testAgentsDir, 'review'))
+
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+    watcher.start()
+    fs.writeFileSync(path.join(testAgentsDir, 'review', 'security.md'), '# Security')
+
+    await waitFor(() => onChange.mock.calls.length > 0)
+    expect(onChange).toHaveBeenCalled()
+  })
+
+  it('should notify when an agent file is removed', async () => {
+    const agentFile = path.join(testAgentsDir, 'old-agent.md')
+    fs.writeFileSync(agentFile, '# Old Agent')
+
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+    watcher.start()
+    fs.rmSync(agentFile)
+
+    await waitFor(() => onChange.mock.calls.length > 0)
+    expect(onChange).toHaveBeenCalled()
+  })
+
+  it('should notify when a sidecar schema file changes', async () => {
+    const schemaFile = path.join(testAgentsDir, 'reviewer.schema.json')
+    fs.writeFileSync(schemaFile, '{"type": "object"}')
+
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+    watcher.start()
+    fs.writeFileSync(schemaFile, '{"type": "object", "required": ["approved"]}')
+
+    await waitFor(() => onChange.mock.calls.length > 0)
+    expect(onChange).toHaveBeenCalled()
+  })
+
+  it('should notify when a sub-folder is renamed', async () => {
+    // Some platforms report only the folder, not the agent files inside it
+    fs.mkdirSync(path.join(testAgentsDir, 'review'))
+
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+    watcher.start()
+    fs.renameSync(path.join(testAgentsDir, 'review'), path.join(testAgentsDir, 'audit'))
+
+    await waitFor(() => onChange.mock.calls.length > 0)
+    expect(onChange).toHaveBeenCalled()
+  })
+
+  it('should coalesce bursts of events into a single notification', async () => {
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 100)
+    watcher.start()
+
+    for (let i = 0; i < 5; i++) {
+      fs.writeFileSync(path.join(testAgentsDir, `agent-${i}.md`), `# Agent ${i}`)
+    }
+
+    await waitFor(() => onChange.mock.calls.length > 0)
+    await new Promise((resolve) => setTimeout(resolve, 200))
+    expect(onChange).toHaveBeenCalledTimes(1)
+  })
+
+  it('should ignore files that are not agent definitions', async () => {
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+    watcher.start()
+
+    fs.writeFileSync(path.join(testAgentsDir, 'notes.json'), '{}')
+
+    await new Promise((resolve) => setTimeout(resolve, 150))
+    expect(onChange).not.toHaveBeenCalled()
+  })
+
+  it('should not start when the directory does not exist', () => {
+    watcher = new AgentWatcher(path.join(testAgentsDir, 'missing'), vi.fn())
+
+    expect(watcher.start()).toBe(false)
+    expect(watcher.isWatching()).toBe(false)
+  })
+
+  it('should stop watching', async () => {
+    const onChange = vi.fn()
+    watcher = new AgentWatcher(testAgentsDir, onChange, 20)
+    watcher.start()
+    watcher.stop()
+
+    fs.writeFileSync(path.join(testAgentsDir, 'agent.md'), '# Agent')
+
+    await new Promise((resolve) => setTimeout(resolve, 150))
+    expect(watcher.isWatching()).toBe(false)
+    expect(onChange).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,182 @@
+import { FrontmatterParser } from 'src/agents/FrontmatterParser'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
+import { describe, expect, it } from 'vitest'
+
+describe('FrontmatterParser', () => {
+  const parser = new FrontmatterParser(BackendRegistry.withBuiltins())
+  const filePath = '/agents/reviewer.md'
+
+  it('should return no frontmatter for plain files', () => {
+    expect(parser.parse('# Reviewer\n\nReview code.', filePath)).toEqual({
+      frontmatter: {},
+      bodyContent: null,
+      diagnostics: [],
+    })
+  })
+
+  it('should parse YAML lists, block scalars and comments', () => {
+    const result = parser.parse(
+      `---
+name: reviewer # the tool name
+description: |
+  Reviews code.
+  Reports issues.
+tools:
+  - Read
+  - Grep
+autoApprovalMode: true
+maxConcurrent: 2
+---
+Review carefully.`,
+      filePath
+    )
+
+    expect(result.frontmatter).toEqual({
+      name: 'reviewer',
+      description: 'Reviews code.\nReports issues.',
+      tools: ['Read', 'Grep'],
+      autoApprovalMode: true,
+      maxConcurrent: 2,
+    })
+    expect(result.bodyContent).toBe('Review carefully.')
+    expect(result.diagnostics).toEqual([])
+  })
+
+  it('should parse CRLF files and comma separated tools', () => {
+    const result = parser.parse(
+      '---\r\nname: reviewer\r\ntools: Read, Grep\r\n---\r\nBody',
+      filePath
+    )
+
+    expect(result.frontmatter).toEqual({ name: 'reviewer', tools: ['Read', 'Grep'] })
+    expect(result.bodyContent).toBe('Body')
+  })
+
+  it('should report unknown keys with a suggestion and their line', () => {
+    const result = parser.parse('---\nname: reviewer\nagentTyp: claude\n---\nBody', filePath)
+
+    expect(result.diagnostics).toEqual([
+      {
+        severity: 'warning',
+        filePath,
+        line: 3,
+        key: 'agentTyp',
+        message: "Unknown frontmatter key 'agentTyp' (did you mean 'agentType'?)",
+      },
+    ])
+  })
+
+  it('should report wrongly typed values and unknown agent types', () => {
+    const result = parser.parse(
+      '---\nname: reviewer\nautoApprovalMode: "yes"\nagentType: codex\n---\nBody',
+      filePath
+    )
+
+    expect(result.frontmatter).toEqual({ name: 'reviewer' })
+    expect(result.diagnostics).toMatchObject([
+      { severity: 'error', line: 3, key: 'autoApprovalMode' },
+      {
+        severity: 'error',
+        line: 4,
+        key: 'agentType',
+        message: "Unknown agentType 'codex'. Registered backends: cursor, claude, gemini",
+      },
+    ])
+  })
+
+  it('should parse isolation and report unknown isolation modes', () => {
+    expect(parser.parse('---\nisolation: worktree\n---\nBody', filePath).frontmatter).toEqual({
+      isolation: 'worktree',
+    })
+
+    const result = parser.parse('---\nisolation: container\n---\nBody', filePath)
+
+    expect(result.frontmatter).toEqual({})
+    expect(result.diagnostics).toMatchObject([
+      {
+        severity: 'error',
+        line: 2,
+        key: 'isolation',
+        message: "'isolation' must be one of none, worktree",
+      },
+    ])
+  })
+
+  it('should report model values that are not a plain model name', () => {
+    const result = parser.parse('---\nmodel: sonnet --dangerous\n---\nBody', filePath)
+
+    expect(result.frontmatter).toEqual({})
+    expect(result.diagnostics).toMatchObject([{ severity: 'error', line: 2, key: 'model' }])
+  })
+
+  it('should parse extends and report invalid extendsBody values', () => {
+    const result = parser.parse(
+      '---\nextends: base-reviewer\nextendsBody: middle\n---\nBody',
+      filePath
+    )
+
+    expect(result.frontmatter).toEqual({ extends: 'base-reviewer' })
+    expect(result.diagnostics).toMatchObject([{ severity: 'error', line: 3, key: 'extendsBody' }])
+  })
+
+  it('should parse typed inputs and report invalid input types with their line', () => {
+    const result = parser.parse(
+      `---
+inputs:
+  language: string
+  strictness: enum[low, high]?
+  depth:
+    type: integer
+    description: How deep to look
+    default: 2
+---
+Body`,
+      filePath
+    )
+
+    expect(result.frontmatter.inputs).toEqual({
+      language: { type: 'string', required: true },
+      strictness: { type: 'string', enum: ['low', 'high'], required: false },
+      depth: { type: 'integer', description: 'How deep to look', default: 2, required: false },
+    })
+    expect(result.diagnostics).toEqual([])
+
+    const invalid = parser.parse(
+      '---\nname: reviewer\ninputs:\n  language: text\n---\nBody',
+      filePath
+    )
+
+    expect(invalid.frontmatter).toEqual({ name: 'reviewer' })
+    expect(invalid.diagnostics).toMatchObject([
+      {
+        severity: 'error',
+        line: 3,
+        key: 'inputs',
+        message: expect.stringContaining("Invalid type 'text' for input 'language'"),
+      },
+    ])
+  })
+
+  it('should report invalid YAML and still read plain key: value lines', () => {
+    const result = parser.parse(
+      '---\nname: reviewer\ndescription: Use when: the user asks for a review\n---\nBody',
+      filePath
+    )
+
+    expect(result.frontmatter).toEqual({
+      name: 'reviewer',
+      description: 'Use when: the user asks for a review',
+    })
+    expect(result.diagnostics).toHaveLength(1)
+    expect(result.diagnostics[0]).toMatchObject({ severity: 'error', line: 3 })
+    expect(result.diagnostics[0]?.message).toMatch(/^Invalid YAML: /)
+  })
+
+  it('should report frontmatter that is not a mapping', () => {
+    const result = parser.parse('---\n- reviewer\n---\nBody', filePath)
+
+    expect(result.diagnostics).toMatchObject([
+      { severity: 'error', line: 2, message: 'Frontmatter must be a mapping of keys to values' },
+    ])
+  })
+})
@@ -0,0 +1,56 @@
+import {
+  checkOutputSchema,
+  getOutputSchemaInstructions,
+  parseStructuredOutput,
+} from 'src/agents/OutputSchema'
+import { describe, expect, it } from 'vitest'
+
+describe('OutputSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      approved: { type: 'boolean' },
+      issues: { type: 'array', items: { type: 'string' } },
+    },
+    required: ['approved'],
+  }
+
+  it('should accept object schemas and reject other values', () => {
+    expect(checkOutputSchema(schema)).toBeUndefined()
+    expect(checkOutputSchema('object')).toBe("'outputSchema' must be a JSON Schema object")
+    expect(checkOutputSchema({ type: 'array' })).toBe(
+      "'outputSchema' must have type 'object' at the top level"
+    )
+    expect(checkOutputSchema({ type: 'object', required: 'approved' })).toMatch(
+      /^Invalid 'outputSchema': /
+    )
+  })
+
+  it('should include the schema in the prompt instructions', () => {
+    expect(getOutputSchemaInstructions(schema)).toContain('"required": [\n    "approved"\n  ]')
+  })
+
+  describe('parseStructuredOutput', () => {
+    it('should read bare, fenced and surrounded JSON objects', () => {
+      const expected = { value: { approved: true, issues: [] } }
+
+      expect(parseStructuredOutput('{"approved": true, "issues": []}', schema)).toEqual(expected)
+      expect(
+        parseStructuredOutput('Done.\n```json\n{"approved": true, "issues": []}\n```', schema)
+      ).toEqual(expected)
+      expect(
+        parseStructuredOutput('Result: {"approved": true, "issues": []} as requested', schema)
+      ).toEqual(expected)
+    })
+
+    it('should report answers without JSON or not matching the schema', () => {
+      expect(parseStructuredOutput('Looks good to me', schema)).toEqual({
+        error: 'The agent did not answer with a JSON object',
+      })
+      expect(parseStructuredOutput('{"issues": [1]}', schema)).toEqual({
+        error:
+          "The agent's answer does not match the output schema: output should have required property 'approved', output.issues[0] should be string",
+      })
+    })
+  })
+})
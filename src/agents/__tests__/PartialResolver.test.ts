@@ -0,0 +1,150 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { AgentManager } from 'src/agents/AgentManager'
+import { PartialResolver } from 'src/agents/PartialResolver'
+import type { ServerConfig } from 'src/config/ServerConfig'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('PartialResolver', () => {
+  let testAgentsDir: string
+  let partialsDir: string
+  const resolver = new PartialResolver()
+  const agentPath = '/agents/reviewer.md'
+
+  beforeEach(() => {
+    testAgentsDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'partial-resolver-test-')))
+    partialsDir = path.join(testAgentsDir, 'partials')
+    fs.mkdirSync(path.join(partialsDir, 'shared'), { recursive: true })
+  })
+
+  afterEach(() => {
+    fs.rmSync(testAgentsDir, { recursive: true, force: true })
+  })
+
+  const writePartial = (name: string, content: string) => {
+    fs.writeFileSync(path.join(partialsDir, name), content)
+  }
+
+  it('should replace include directives with partials, recursively', async () => {
+    writePartial('shared/coding-standards.md', 'Use strict types.\n{{> shared/naming.md}}\n')
+    writePartial('shared/naming.md', 'Name things clearly.')
+
+    const result = await resolver.expand(
+      'Review the code.\n\n{{> shared/coding-standards.md}}',
+      agentPath,
+      partialsDir
+    )
+
+    expect(result).toEqual({
+      content: 'Review the code.\n\nUse strict types.\nName things clearly.',
+      includes: [
+        path.join(partialsDir, 'shared', 'coding-standards.md'),
+        path.join(partialsDir, 'shared', 'naming.md'),
+      ],
+      diagnostics: [],
+    })
+  })
+
+  it('should report missing partials with the line of the directive', async () => {
+    const result = await resolver.expand('Intro\n{{> missing.md }}', agentPath, partialsDir, 4)
+
+    expect(result.content).toBe('Intro\n')
+    expect(result.diagnostics).toEqual([
+      {
+        severity: 'error',
+        filePath: agentPath,
+        line: 6,
+        message: `Partial 'missing.md' not found in ${partialsDir}`,
+      },
+    ])
+  })
+
+  it('should confine includes to the partials folder', async () => {
+    fs.writeFileSync(path.join(testAgentsDir, 'secret.md'), 'Secret')
+    fs.symlinkSync(path.join(testAgentsDir, 'secret.md'), path.join(partialsDir, 'link.md'))
+
+    const result = await resolver.expand(
+      '{{> ../secret.md}}\n{{> /etc/passwd}}\n{{> link.md}}',
+      agentPath,
+      partialsDir
+    )
+
+    expect(result.content).toBe('\n\n')
+    expect(result.diagnostics.map((diagnostic) => diagnostic.message)).toEqual([
+      "Include '../secret.md' points outside the partials folder",
+      "Include '/etc/passwd' points outside the partials folder",
+      "Include 'link.md' points outside the partials folder",
+    ])
+  })
+
+  it('should report include cycles in the partial that closes them', async () => {
+    writePartial('a.md', 'A\n{{> b.md}}')
+    writePartial('b.md', 'B\n{{> a.md}}')
+
+    const result = await resolver.expand('{{> a.md}}', agentPath, partialsDir)
+
+    expect(result.content).toBe('A\nB\n')
+    expect(result.diagnostics).toEqual([
+      {
+        severity: 'error',
+        filePath: path.join(partialsDir, 'b.md'),
+        line: 2,
+        message: 'Circular include: a.md -> b.md -> a.md',
+      },
+    ])
+  })
+
+  describe('in agent definitions', () => {
+    let agentManager: AgentManager
+
+    beforeEach(() => {
+      const config = {
+        agentsDir: testAgentsDir,
+        agentLayers: [{ name: testAgentsDir, directory: testAgentsDir }],
+        agentsIgnore: [],
+        logLevel: 'error',
+      } as unknown as ServerConfig
+      agentManager = new AgentManager(config)
+    })
+
+    it('should expand includes and not load partials as agents', async () => {
+      writePartial('shared/rules.md', 'Follow the house rules.')
+      fs.writeFileSync(
+        path.join(testAgentsDir, 'reviewer.md'),
+        '---\nname: reviewer\ndescription: Reviews code\n---\nReview.\n{{> shared/rules.md}}'
+      )
+
+      const agents = await agentManager.listAgents()
+
+      expect(agents.map((agent) => agent.name)).toEqual(['reviewer'])
+      expect(agents[0]?.content).toBe('Review.\nFollow the house rules.')
+    })
+
+    it('should reload agents when an included partial changes', async () => {
+      writePartial('rules.md', 'Old rules.')
+      fs.writeFileSync(
+        path.join(testAgentsDir, 'reviewer.md'),
+        '---\ndescription: Reviews code\n---\n{{> rules.md}}'
+      )
+      await agentManager.listAgents()
+
+      writePartial('rules.md', 'New and longer rules.')
+      const agent = await agentManager.getAgent('reviewer')
+
+      expect(agent?.content).toBe('New and longer rules.')
+    })
+
+    it('should not load agents with broken includes', async () => {
+      fs.writeFileSync(
+        path.join(testAgentsDir, 'reviewer.md'),
+        '---\ndescription: Reviews code\n---\nReview.\n{{> missing.md}}'
+      )
+
+      expect(await agentManager.listAgents()).toEqual([])
+      expect(agentManager.getDiagnostics()).toMatchObject([
+        { severity: 'error', line: 5, message: expect.stringContaining("'missing.md' not found") },
+      ])
+    })
+  })
+})
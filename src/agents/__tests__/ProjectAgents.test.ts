@@ -0,0 +1,46 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { DEFAULT_PROJECT_AGENTS_DIRS, findProjectAgentLayers } from 'src/agents/ProjectAgents'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('findProjectAgentLayers', () => {
+  let projectDir: string
+
+  beforeEach(() => {
+    projectDir = fs.mkdtempSync(path.join(tmpdir(), 'project-agents-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(projectDir, { recursive: true, force: true })
+  })
+
+  it('should find the agent folders that exist in a workspace root', () => {
+    const claudeAgents = path.join(projectDir, '.claude', 'agents')
+    fs.mkdirSync(claudeAgents, { recursive: true })
+
+    expect(
+      findProjectAgentLayers([{ uri: pathToFileURL(projectDir).href }], DEFAULT_PROJECT_AGENTS_DIRS)
+    ).toEqual([{ name: claudeAgents, directory: claudeAgents }])
+  })
+
+  it('should list each folder once and skip roots that are not files', () => {
+    const cursorAgents = path.join(projectDir, '.cursor', 'agents')
+    fs.mkdirSync(cursorAgents, { recursive: true })
+    const root = { uri: pathToFileURL(projectDir).href }
+
+    expect(
+      findProjectAgentLayers(
+        [root, { uri: 'https://example.com/repo' }, root],
+        DEFAULT_PROJECT_AGENTS_DIRS
+      )
+    ).toEqual([{ name: cursorAgents, directory: cursorAgents }])
+  })
+
+  it('should find nothing in roots without agent folders', () => {
+    expect(
+      findProjectAgentLayers([{ uri: pathToFileURL(projectDir).href }], DEFAULT_PROJECT_AGENTS_DIRS)
+    ).toEqual([])
+  })
+})
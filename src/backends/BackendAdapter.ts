@@ -0,0 +1,182 @@
+import type { ExtractedResult } from 'src/backends/ResultExtractor'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+
+/**
+ * Command line produced by a backend for a single agent execution.
+ */
+export interface BackendCommand {
+  /**
+   * Executable to spawn (resolved through PATH).
+   */
+  command: string
+
+  /**
+   * Arguments passed to the executable.
+   */
+  args: string[]
+
+  /**
+   * Prompt text delivered outside of argv. Written to the child's stdin or to
+   * the prompt file, depending on the backend's promptDelivery mode.
+   */
+  input?: string
+}
+
+/**
+ * How a backend receives the prompt.
+ * - argv: as a command line argument (visible in `ps`, limited by ARG_MAX)
+ * - stdin: written to the child's stdin
+ * - file: written to a temp file (mode 0600) that is removed after the execution
+ */
+export type PromptDelivery = 'argv' | 'stdin' | 'file'
+
+/**
+ * Context passed to buildCommand by the executor.
+ */
+export interface BuildCommandContext {
+  /**
+   * Path of the temp file the prompt will be written to (file delivery only).
+   */
+  promptFile?: string
+}
+
+/**
+ * Incremental parser for the stdout of a backend process.
+ * The default implementation is StreamProcessor, which understands stream-json output.
+ */
+export interface OutputParser {
+  /**
+   * Process a single line of stdout.
+   *
+   * @param line - Raw line from stdout
+   * @returns true when the final result was detected and the process can be stopped
+   */
+  processLine(line: string): boolean
+
+  /**
+   * Get the final result collected so far.
+   *
+   * @returns Parsed result or null if not yet available
+   */
+  getResult(): unknown
+
+  /**
+   * Signal that stdout has closed. Parsers that need the whole output to find
+   * the result parse it here.
+   */
+  end?(): void
+
+  /**
+   * Get the final result in the shape shared by all backends.
+   *
+   * @returns Final text, error and usage, or null if not yet available
+   */
+  getExtractedResult?(): ExtractedResult | null
+
+  /**
+   * Get the number of events received so far (used for progress reporting).
+   *
+   * @returns Event count
+   */
+  getEventCount(): number
+
+  /**
+   * Get the most recent assistant message text (used for progress reporting).
+   *
+   * @returns Assistant message text or null
+   */
+  getLastAssistantMessage(): string | null
+
+  /**
+   * Get the backend session id reported in the output, used to resume the conversation.
+   *
+   * @returns Session id or null if none was reported
+   */
+  getSessionId?(): string | null
+}
+
+/**
+ * Outcome of a backend process used for success detection.
+ */
+export interface BackendRunResult {
+  /**
+   * Exit code of the backend process.
+   */
+  exitCode: number
+
+  /**
+   * Whether the output parser detected a result.
+   */
+  hasResult: boolean
+
+  /**
+   * Result detected by the output parser, if any.
+   */
+  resultJson?: unknown
+
+  /**
+   * Normalized result read by the output parser, if any.
+   */
+  extractedResult?: ExtractedResult
+}
+
+/**
+ * Adapter that lets AgentExecutor run a specific agent CLI.
+ *
+ * Adapters own command construction, output parsing and success detection.
+ * Only buildCommand is required; the executor falls back to StreamProcessor
+ * for parsing and to exit code based success detection.
+ */
+export interface BackendAdapter {
+  /**
+   * How the backend receives the prompt. Default: 'argv'
+   */
+  readonly promptDelivery?: PromptDelivery
+
+  /**
+   * Build the command line for an execution.
+   *
+   * @param params - Execution parameters
+   * @param context - Delivery context such as the prompt file path
+   * @returns Command and arguments to spawn
+   */
+  buildCommand(params: ExecutionParams, context?: BuildCommandContext): BackendCommand
+
+  /**
+   * Create a parser for the stdout of one execution.
+   *
+   * @returns Fresh output parser
+   */
+  createOutputParser?(): OutputParser
+
+  /**
+   * Decide whether an execution succeeded.
+   *
+   * @param result - Outcome of the backend process
+   * @returns True if the execution succeeded
+   */
+  isSuccess?(result: BackendRunResult): boolean
+}
+
+/**
+ * Format the agent definition and user prompt into a single prompt.
+ * Used by backends that receive the agent instructions inline with the user prompt.
+ *
+ * @param params - Execution parameters
+ * @returns Combined prompt text
+ */
+export function formatAgentPrompt(params: ExecutionParams): string {
+  return `[System Context]\n${params.agent}\n\n[User Prompt]\n${params.prompt}`
+}
+
+/**
+ * Default success detection based on the process exit code.
+ * A SIGTERM (143) counts as success when the result was already received,
+ * because the executor stops the process itself once the result arrives.
+ *
+ * @param result - Outcome of the backend process
+ * @returns True if the execution succeeded
+ */
+export function isSuccessfulRun(result: BackendRunResult): boolean {
+  return result.exitCode === 0 || (result.exitCode === 143 && result.hasResult)
+}
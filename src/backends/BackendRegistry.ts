@@ -0,0 +1,364 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import type { BackendAdapter } from 'src/backends/BackendAdapter'
+import { DeclarativeBackend } from 'src/backends/DeclarativeBackend'
+import { ClaudeBackend } from 'src/backends/builtin/ClaudeBackend'
+import { CursorBackend } from 'src/backends/builtin/CursorBackend'
+import { GeminiBackend } from 'src/backends/builtin/GeminiBackend'
+import type { StreamJsonPromptDelivery } from 'src/backends/builtin/StreamJsonBackend'
+import type { AgentType } from 'src/types/AgentType'
+import { AppError } from 'src/utils/ErrorHandler'
+import { parse as parseYaml } from 'yaml'
+
+/**
+ * Valid backend names: letters, digits, dashes and underscores.
+ */
+const BACKEND_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]*$/
+
+/**
+ * File names looked up next to the agents directory when BACKENDS_CONFIG is not set.
+ */
+export const BACKENDS_CONFIG_FILENAMES = ['backends.json', 'backends.yaml', 'backends.yml']
+
+/**
+ * Factories of the built-in backends, taking the configured prompt delivery.
+ */
+const BUILTIN_BACKENDS = new Map<
+  AgentType,
+  (promptDelivery?: StreamJsonPromptDelivery) => BackendAdapter
+>([
+  ['cursor', (promptDelivery) => new CursorBackend(promptDelivery)],
+  ['claude', (promptDelivery) => new ClaudeBackend(promptDelivery)],
+  ['gemini', (promptDelivery) => new GeminiBackend(promptDelivery)],
+])
+
+/**
+ * Keys accepted in a declarative backend entry.
+ */
+const DECLARATIVE_KEYS = [
+  'command',
+  'args',
+  'promptDelivery',
+  'outputFormat',
+  'resultPath',
+  'sessionIdPath',
+  'maxConcurrent',
+]
+
+/**
+ * Keys accepted in a backend module entry.
+ */
+const MODULE_KEYS = ['module', 'maxConcurrent']
+
+/**
+ * Keys accepted in an entry configuring a built-in backend.
+ */
+const BUILTIN_KEYS = ['promptDelivery', 'maxConcurrent']
+
+/**
+ * Check whether a function is a class, so it must be called with `new`.
+ * Classes compiled to ES5 functions are recognized by methods on their prototype.
+ *
+ * @param fn - Exported function
+ * @returns True for classes
+ */
+function isClass(fn: { prototype?: object }): boolean {
+  return (
+    /^class[\s{]/.test(Function.prototype.toString.call(fn)) ||
+    Object.getOwnPropertyNames(fn.prototype ?? {}).some((key) => key !== 'constructor')
+  )
+}
+
+/**
+ * BackendRegistry class mapping agent types to backend adapters.
+ *
+ * Holds the built-in backends and any additional backends loaded from a
+ * JSON or YAML backends configuration file, e.g.:
+ *
+ * ```json
+ * {
+ *   "backends": {
+ *     "codex": { "module": "./backends/codex.js" },
+ *     "in-house": { "command": "llm-cli", "args": ["{prompt}"], "outputFormat": "text" }
+ *   }
+ * }
+ * ```
+ *
+ * A backend module exports a BackendAdapter (as `default`, `backend` or the
+ * module itself) or a factory function returning one. Entries with a
+ * `command` are declarative backends (see DeclarativeBackend).
+ *
+ * Any entry may set `maxConcurrent` to limit concurrent executions on that
+ * backend. An entry without `command` or `module` configures an already
+ * registered backend, e.g. `"claude": { "maxConcurrent": 2 }`; built-in
+ * backends also accept `promptDelivery` ('argv' or 'stdin'), e.g.
+ * `"cursor": { "promptDelivery": "stdin" }`. Unknown keys are rejected.
+ */
+export class BackendRegistry {
+  private backends: Map<AgentType, BackendAdapter> = new Map()
+  private concurrencyLimits: Map<AgentType, number> = new Map()
+
+  /**
+   * Create a registry containing the built-in cursor, claude and gemini backends.
+   *
+   * @returns Registry with built-in backends
+   */
+  static withBuiltins(): BackendRegistry {
+    const registry = new BackendRegistry()
+    for (const [name, createBackend] of BUILTIN_BACKENDS) {
+      registry.register(name, createBackend())
+    }
+    return registry
+  }
+
+  /**
+   * Find a backends configuration file next to the agents directory.
+   *
+   * @param agentsDir - Agents directory
+   * @returns Path of the first existing configuration file, or undefined
+   */
+  static findConfigFile(agentsDir: string): string | undefined {
+    const parentDir = path.dirname(path.resolve(agentsDir))
+    return BACKENDS_CONFIG_FILENAMES.map((fileName) => path.join(parentDir, fileName)).find(
+      (filePath) => fs.existsSync(filePath)
+    )
+  }
+
+  /**
+   * Register a backend, replacing any backend with the same name.
+   *
+   * @param name - Agent type the backend is selected by
+   * @param adapter - Backend adapter
+   * @throws {AppError} When the name or adapter is invalid
+   */
+  register(name: AgentType, adapter: BackendAdapter): void {
+    if (!BACKEND_NAME_PATTERN.test(name)) {
+      throw new AppError(`Invalid backend name: '${name}'`, 'BACKEND_CONFIG_INVALID')
+    }
+    if (!adapter || typeof adapter.buildCommand !== 'function') {
+      throw new AppError(
+        `Invalid backend '${name}': adapter must implement buildCommand()`,
+        'BACKEND_CONFIG_INVALID'
+      )
+    }
+    this.backends.set(name, adapter)
+  }
+
+  /**
+   * Get the backend registered for an agent type.
+   *
+   * @param name - Agent type
+   * @returns Backend adapter or undefined if not registered
+   */
+  get(name: AgentType): BackendAdapter | undefined {
+    return this.backends.get(name)
+  }
+
+  /**
+   * Check if a backend is registered for an agent type.
+   *
+   * @param name - Agent type
+   * @returns True if registered
+   */
+  has(name: string): boolean {
+    return this.backends.has(name)
+  }
+
+  /**
+   * Set the maximum number of concurrent executions on a backend.
+   *
+   * @param name - Agent type
+   * @param limit - Positive concurrency limit
+   * @throws {AppError} When the limit is not a positive integer
+   */
+  setConcurrencyLimit(name: AgentType, limit: number): void {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new AppError(
+        `Invalid backend '${name}': 'maxConcurrent' must be a positive integer`,
+        'BACKEND_CONFIG_INVALID'
+      )
+    }
+    this.concurrencyLimits.set(name, limit)
+  }
+
+  /**
+   * Get the maximum number of concurrent executions on a backend.
+   *
+   * @param name - Agent type
+   * @returns Concurrency limit or undefined if the backend is not limited
+   */
+  getConcurrencyLimit(name: AgentType): number | undefined {
+    return this.concurrencyLimits.get(name)
+  }
+
+  /**
+   * List the names of all registered backends.
+   *
+   * @returns Registered agent types
+   */
+  names(): AgentType[] {
+    return Array.from(this.backends.keys())
+  }
+
+  /**
+   * Load additional backends from a JSON or YAML configuration file.
+   * Module paths are resolved relative to the configuration file.
+   *
+   * @param filePath - Path to the backends configuration file
+   * @throws {AppError} When the file cannot be read or declares an invalid backend
+   */
+  loadConfigFile(filePath: string): void {
+    const configPath = path.resolve(filePath)
+    const config = this.readConfigFile(configPath)
+
+    for (const [name, entry] of Object.entries(config)) {
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        throw new AppError(
+          `Invalid backend '${name}' in ${configPath}: expected an object`,
+          'BACKEND_CONFIG_INVALID'
+        )
+      }
+
+      const declaration = entry as Record<string, unknown>
+      const maxConcurrent = declaration['maxConcurrent']
+      if (declaration['command'] !== undefined) {
+        this.checkKeys(name, configPath, declaration, DECLARATIVE_KEYS)
+        this.register(name, DeclarativeBackend.fromConfig(name, declaration))
+      } else if (declaration['module'] !== undefined || !this.has(name)) {
+        const modulePath = declaration['module']
+        if (typeof modulePath !== 'string' || modulePath.trim() === '') {
+          throw new AppError(
+            `Invalid backend '${name}' in ${configPath}: expected a 'module' path or a 'command'`,
+            'BACKEND_CONFIG_INVALID'
+          )
+        }
+        this.checkKeys(name, configPath, declaration, MODULE_KEYS)
+
+        this.register(
+          name,
+          this.loadModule(name, path.resolve(path.dirname(configPath), modulePath))
+        )
+      } else {
+        const createBuiltin = BUILTIN_BACKENDS.get(name)
+        this.checkKeys(
+          name,
+          configPath,
+          declaration,
+          createBuiltin ? BUILTIN_KEYS : ['maxConcurrent']
+        )
+
+        const promptDelivery = declaration['promptDelivery']
+        if (createBuiltin && promptDelivery !== undefined) {
+          if (promptDelivery !== 'argv' && promptDelivery !== 'stdin') {
+            throw new AppError(
+              `Invalid backend '${name}' in ${configPath}: 'promptDelivery' of a built-in backend must be one of argv, stdin`,
+              'BACKEND_CONFIG_INVALID'
+            )
+          }
+          this.register(name, createBuiltin(promptDelivery))
+        }
+      }
+
+      if (maxConcurrent !== undefined) {
+        this.setConcurrencyLimit(name, maxConcurrent as number)
+      }
+    }
+  }
+
+  /**
+   * Reject keys a backend entry does not understand, so that typos and
+   * unsupported settings are not silently ignored.
+   *
+   * @private
+   * @param name - Backend name
+   * @param configPath - Absolute path to the configuration file
+   * @param declaration - Raw backend declaration
+   * @param allowedKeys - Keys valid for this kind of entry
+   * @throws {AppError} When the entry contains another key
+   */
+  private checkKeys(
+    name: string,
+    configPath: string,
+    declaration: Record<string, unknown>,
+    allowedKeys: string[]
+  ): void {
+    const unknownKey = Object.keys(declaration).find((key) => !allowedKeys.includes(key))
+    if (unknownKey !== undefined) {
+      throw new AppError(
+        `Invalid backend '${name}' in ${configPath}: unknown key '${unknownKey}' (expected ${allowedKeys.join(', ')})`,
+        'BACKEND_CONFIG_INVALID'
+      )
+    }
+  }
+
+  /**
+   * Read and parse the backends section of a configuration file.
+   *
+   * @private
+   * @param configPath - Absolute path to the configuration file
+   * @returns Map of backend name to raw backend declaration
+   */
+  private readConfigFile(configPath: string): Record<string, unknown> {
+    let parsed: unknown
+    try {
+      const content = fs.readFileSync(configPath, 'utf-8')
+      parsed = /\.ya?ml$/i.test(configPath) ? parseYaml(content) : JSON.parse(content)
+    } catch (error) {
+      throw new AppError(
+        `Failed to read backends configuration ${configPath}: ${error instanceof Error ? error.message : String(error)}`,
+        'BACKEND_CONFIG_INVALID'
+      )
+    }
+
+    const backends =
+      parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>)['backends'] : null
+    if (!backends || typeof backends !== 'object' || Array.isArray(backends)) {
+      throw new AppError(
+        `Invalid backends configuration ${configPath}: expected a 'backends' object`,
+        'BACKEND_CONFIG_INVALID'
+      )
+    }
+
+    return backends as Record<string, unknown>
+  }
+
+  /**
+   * Load a backend adapter from a JavaScript module.
+   * The module exports an adapter, a class constructed with `new`, or a factory
+   * function; classes and factories receive the backend name.
+   *
+   * @private
+   * @param name - Backend name, passed to classes and factory functions
+   * @param modulePath - Absolute path to the module
+   * @returns Backend adapter exported by the module
+   * @throws {AppError} When the module cannot be loaded or does not provide an adapter
+   */
+  private loadModule(name: string, modulePath: string): BackendAdapter {
+    const fail = (reason: string) =>
+      new AppError(
+        `Failed to load backend '${name}' from ${modulePath}: ${reason}`,
+        'BACKEND_CONFIG_INVALID'
+      )
+
+    let adapter: unknown
+    try {
+      const loaded: unknown = require(modulePath)
+      const exports = loaded as Record<string, unknown>
+      const exported = exports['default'] ?? exports['backend'] ?? loaded
+      if (typeof exported !== 'function') {
+        adapter = exported
+      } else if (isClass(exported)) {
+        adapter = new (exported as new (name: string) => unknown)(name)
+      } else {
+        adapter = exported(name)
+      }
+    } catch (error) {
+      throw fail(error instanceof Error ? error.message : String(error))
+    }
+
+    if (!adapter || typeof (adapter as BackendAdapter).buildCommand !== 'function') {
+      throw fail('the module must export an adapter with buildCommand(), a class or a factory')
+    }
+    return adapter as BackendAdapter
+  }
+}
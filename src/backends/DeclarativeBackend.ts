@@ -0,0 +1,310 @@
+import {
+  type BackendAdapter,
+  type BackendCommand,
+  type BuildCommandContext,
+  type OutputParser,
+  type PromptDelivery,
+  formatAgentPrompt,
+} from 'src/backends/BackendAdapter'
+import {
+  type DeclarativeOutputFormat,
+  DeclarativeOutputParser,
+} from 'src/backends/DeclarativeOutputParser'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { AppError } from 'src/utils/ErrorHandler'
+import { type JsonPathSegment, parseJsonPath } from 'src/utils/JsonPath'
+
+/**
+ * Argument template entry. A nested array is an optional group that is
+ * dropped entirely when any of its placeholders has no value
+ * (e.g. `['--model', '{model}']` when the agent sets no model).
+ */
+export type ArgTemplate = string | ArgTemplate[]
+
+/**
+ * Backend declared in a backends configuration file instead of code, e.g.:
+ *
+ * ```yaml
+ * backends:
+ *   in-house:
+ *     command: llm-cli
+ *     args: [run, --json, [--model, '{model}'], '{prompt}']
+ *     outputFormat: json
+ *     resultPath: $.choices[0].text
+ * ```
+ *
+ * With promptDelivery 'file', args reference the prompt file as `{promptFile}`.
+ * Backends that can resume sessions use `{sessionId}` in an optional group,
+ * e.g. `[--resume, '{sessionId}']`, and report the id through sessionIdPath.
+ */
+export interface DeclarativeBackendDefinition {
+  /**
+   * Executable to spawn (resolved through PATH).
+   */
+  command: string
+
+  /**
+   * Argument template with placeholders such as {prompt}, {model}, {tools} and {cwd}.
+   */
+  args: ArgTemplate[]
+
+  /**
+   * How the CLI receives the prompt. Default: 'argv'
+   */
+  promptDelivery: PromptDelivery
+
+  /**
+   * Format of the CLI output. Default: 'text'
+   */
+  outputFormat: DeclarativeOutputFormat
+
+  /**
+   * JSONPath to the final answer within json/jsonl output.
+   * Without it the whole document (or last JSON line) is the answer.
+   */
+  resultPath?: string
+
+  /**
+   * JSONPath to the session id within json/jsonl output.
+   */
+  sessionIdPath?: string
+}
+
+/**
+ * Placeholders available in argument templates.
+ */
+export const ARG_PLACEHOLDERS = [
+  'prompt',
+  'promptFile',
+  'model',
+  'tools',
+  'cwd',
+  'sessionId',
+] as const
+
+const OUTPUT_FORMATS: readonly DeclarativeOutputFormat[] = ['json', 'jsonl', 'text']
+
+const PROMPT_DELIVERIES: readonly PromptDelivery[] = ['argv', 'stdin', 'file']
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g
+
+/**
+ * Backend running an arbitrary CLI described by a DeclarativeBackendDefinition.
+ * The user's extra_args are appended after the templated arguments.
+ */
+export class DeclarativeBackend implements BackendAdapter {
+  readonly promptDelivery: PromptDelivery
+  private readonly resultPath: JsonPathSegment[] | undefined
+  private readonly sessionIdPath: JsonPathSegment[] | undefined
+  private readonly supportsResume: boolean
+
+  /**
+   * @param definition - Validated backend definition
+   */
+  constructor(private readonly definition: DeclarativeBackendDefinition) {
+    this.promptDelivery = definition.promptDelivery
+    this.resultPath =
+      definition.resultPath !== undefined ? parseJsonPath(definition.resultPath) : undefined
+    this.sessionIdPath =
+      definition.sessionIdPath !== undefined ? parseJsonPath(definition.sessionIdPath) : undefined
+    this.supportsResume = DeclarativeBackend.usesPlaceholder(definition.args, 'sessionId')
+  }
+
+  /**
+   * Validate a raw backend declaration from a configuration file.
+   *
+   * @param name - Backend name, used in error messages
+   * @param entry - Raw declaration
+   * @returns Declarative backend
+   * @throws {AppError} When the declaration is invalid
+   */
+  static fromConfig(name: string, entry: Record<string, unknown>): DeclarativeBackend {
+    const invalid = (reason: string) =>
+      new AppError(`Invalid backend '${name}': ${reason}`, 'BACKEND_CONFIG_INVALID')
+
+    const {
+      command,
+      args = [],
+      promptDelivery = 'argv',
+      outputFormat = 'text',
+      resultPath,
+      sessionIdPath,
+    } = entry
+
+    if (typeof command !== 'string' || command.trim() === '') {
+      throw invalid("'command' must be a non-empty string")
+    }
+    if (!Array.isArray(args)) {
+      throw invalid("'args' must be an array")
+    }
+    DeclarativeBackend.validateArgs(args, invalid)
+    if (!PROMPT_DELIVERIES.includes(promptDelivery as PromptDelivery)) {
+      throw invalid(`'promptDelivery' must be one of ${PROMPT_DELIVERIES.join(', ')}`)
+    }
+    const usesPromptFile = DeclarativeBackend.usesPlaceholder(args as ArgTemplate[], 'promptFile')
+    if (promptDelivery === 'file' && !usesPromptFile) {
+      throw invalid("promptDelivery 'file' requires '{promptFile}' in 'args'")
+    }
+    if (promptDelivery !== 'file' && usesPromptFile) {
+      throw invalid("'{promptFile}' requires promptDelivery 'file'")
+    }
+    if (
+      promptDelivery !== 'argv' &&
+      DeclarativeBackend.usesPlaceholder(args as ArgTemplate[], 'prompt')
+    ) {
+      throw invalid(`'{prompt}' requires promptDelivery 'argv', it would put the prompt in argv`)
+    }
+    if (!OUTPUT_FORMATS.includes(outputFormat as DeclarativeOutputFormat)) {
+      throw invalid(`'outputFormat' must be one of ${OUTPUT_FORMATS.join(', ')}`)
+    }
+    for (const [key, jsonPath] of Object.entries({ resultPath, sessionIdPath })) {
+      if (jsonPath === undefined) {
+        continue
+      }
+      if (typeof jsonPath !== 'string') {
+        throw invalid(`'${key}' must be a JSONPath string`)
+      }
+      if (outputFormat === 'text') {
+        throw invalid(`'${key}' requires outputFormat json or jsonl`)
+      }
+      try {
+        parseJsonPath(jsonPath)
+      } catch (error) {
+        throw invalid(error instanceof Error ? error.message : String(error))
+      }
+    }
+
+    return new DeclarativeBackend({
+      command,
+      args: args as ArgTemplate[],
+      promptDelivery: promptDelivery as PromptDelivery,
+      outputFormat: outputFormat as DeclarativeOutputFormat,
+      ...(typeof resultPath === 'string' && { resultPath }),
+      ...(typeof sessionIdPath === 'string' && { sessionIdPath }),
+    })
+  }
+
+  /**
+   * Build the command line by expanding the argument template.
+   *
+   * @param params - Execution parameters
+   * @param context - Delivery context with the prompt file path
+   * @returns Command and arguments to spawn
+   */
+  buildCommand(params: ExecutionParams, context: BuildCommandContext = {}): BackendCommand {
+    if (params.sessionId && !this.supportsResume) {
+      throw new Error(`'${this.definition.command}' does not support resuming sessions`)
+    }
+
+    // A resumed session already holds the agent instructions
+    const prompt = params.sessionId ? params.prompt : formatAgentPrompt(params)
+    const values: Record<string, string | undefined> = {
+      prompt,
+      promptFile: context.promptFile,
+      model: params.model || undefined,
+      tools: params.tools && params.tools.length > 0 ? params.tools.join(',') : undefined,
+      cwd: params.cwd || process.cwd(),
+      sessionId: params.sessionId || undefined,
+    }
+
+    const args = this.definition.args.flatMap((template) => this.expand(template, values))
+
+    if (params.extra_args) {
+      args.push(...params.extra_args)
+    }
+
+    return {
+      command: this.definition.command,
+      args,
+      ...(this.promptDelivery !== 'argv' && { input: prompt }),
+    }
+  }
+
+  /**
+   * Create a parser for the configured output format.
+   *
+   * @returns Fresh output parser
+   */
+  createOutputParser(): OutputParser {
+    // Session ids are useless without a {sessionId} placeholder to resume them
+    return new DeclarativeOutputParser(
+      this.definition.outputFormat,
+      this.resultPath,
+      this.supportsResume ? this.sessionIdPath : undefined
+    )
+  }
+
+  /**
+   * Expand one template entry into arguments.
+   *
+   * @param template - Template string or optional group
+   * @param values - Placeholder values
+   * @returns Expanded arguments (empty when an optional group is dropped)
+   */
+  private expand(template: ArgTemplate, values: Record<string, string | undefined>): string[] {
+    if (typeof template === 'string') {
+      return [template.replace(PLACEHOLDER_PATTERN, (_match, key: string) => values[key] ?? '')]
+    }
+
+    // Nested groups are optional on their own and do not drop the enclosing group
+    const usesMissingValue = template.some(
+      (entry) =>
+        typeof entry === 'string' &&
+        DeclarativeBackend.placeholdersOf(entry).some((key) => values[key] === undefined)
+    )
+    if (usesMissingValue) {
+      return []
+    }
+    return template.flatMap((entry) => this.expand(entry, values))
+  }
+
+  /**
+   * Check that every template entry is a string or group and uses known placeholders.
+   *
+   * @param args - Raw argument template
+   * @param invalid - Error factory
+   */
+  private static validateArgs(args: unknown[], invalid: (reason: string) => AppError): void {
+    for (const entry of args) {
+      if (Array.isArray(entry)) {
+        DeclarativeBackend.validateArgs(entry, invalid)
+        continue
+      }
+      if (typeof entry !== 'string') {
+        throw invalid("'args' entries must be strings or arrays of strings")
+      }
+      for (const key of DeclarativeBackend.placeholdersOf(entry)) {
+        if (!(ARG_PLACEHOLDERS as readonly string[]).includes(key)) {
+          throw invalid(
+            `unknown placeholder '{${key}}' (available: ${ARG_PLACEHOLDERS.map((p) => `{${p}}`).join(', ')})`
+          )
+        }
+      }
+    }
+  }
+
+  /**
+   * Check if an argument template uses a placeholder anywhere.
+   *
+   * @param args - Argument template
+   * @param key - Placeholder name
+   * @returns True if the placeholder is used
+   */
+  private static usesPlaceholder(args: ArgTemplate[], key: string): boolean {
+    return args.some((entry) =>
+      Array.isArray(entry)
+        ? DeclarativeBackend.usesPlaceholder(entry, key)
+        : DeclarativeBackend.placeholdersOf(entry).includes(key)
+    )
+  }
+
+  /**
+   * List the placeholder names used in a template string.
+   *
+   * @param template - Template string
+   * @returns Placeholder names
+   */
+  private static placeholdersOf(template: string): string[] {
+    return Array.from(template.matchAll(PLACEHOLDER_PATTERN), (match) => match[1] ?? '')
+  }
+}
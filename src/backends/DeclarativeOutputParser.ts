@@ -0,0 +1,264 @@
+import type { OutputParser } from 'src/backends/BackendAdapter'
+import type { ExtractedResult } from 'src/backends/ResultExtractor'
+import { type JsonPathSegment, evaluateJsonPath } from 'src/utils/JsonPath'
+
+/**
+ * Output formats supported by declarative backends.
+ * - json: stdout is a JSON document (may span several lines); when several documents
+ *   are printed, e.g. JSON log objects before the answer, the last matching one wins
+ * - jsonl: stdout is one JSON object per line; the last matching line wins
+ * - text: stdout is plain text used as the answer as-is
+ */
+export type DeclarativeOutputFormat = 'json' | 'jsonl' | 'text'
+
+/**
+ * Output parser for declarative backends.
+ *
+ * Results are reported as `{ result }`, where `result` is the value selected
+ * by the backend's resultPath (or the whole output without a resultPath).
+ * When the resultPath matches nothing no result is reported, so the raw
+ * stdout is returned to the caller instead.
+ */
+export class DeclarativeOutputParser implements OutputParser {
+  private result: unknown = undefined
+  private eventCount = 0
+  private lastMessage: string | null = null
+  private lines: string[] = []
+  private ended = false
+  private sessionId: string | null = null
+
+  /**
+   * @param format - Output format of the backend
+   * @param resultPath - Parsed JSONPath to the final answer, if configured
+   * @param sessionIdPath - Parsed JSONPath to the session id, if configured
+   */
+  constructor(
+    private readonly format: DeclarativeOutputFormat,
+    private readonly resultPath: JsonPathSegment[] | undefined,
+    private readonly sessionIdPath: JsonPathSegment[] | undefined
+  ) {}
+
+  /**
+   * Process a single line of stdout.
+   *
+   * The result of declarative backends is only known when the output ends,
+   * so this never reports completion.
+   *
+   * @param line - Raw line from stdout
+   * @returns Always false
+   */
+  processLine(line: string): boolean {
+    switch (this.format) {
+      case 'json':
+        this.processJsonLine(line)
+        return false
+      case 'jsonl':
+        this.processJsonlLine(line)
+        return false
+      default:
+        this.lines.push(line)
+        this.eventCount++
+        if (line.trim()) {
+          this.lastMessage = line.trim()
+        }
+        return false
+    }
+  }
+
+  /**
+   * Parse the collected json output once stdout has closed.
+   */
+  end(): void {
+    if (this.ended) {
+      return
+    }
+    this.ended = true
+    if (this.format === 'json') {
+      this.parseJsonDocuments(this.lines.join('\n'))
+    }
+  }
+
+  /**
+   * Get the final result collected so far.
+   *
+   * @returns Result object or null if no answer was found
+   */
+  getResult(): unknown {
+    if (this.format === 'text') {
+      const text = this.lines.join('\n').trim()
+      return text ? { result: text } : null
+    }
+    return this.result === undefined ? null : { result: this.result }
+  }
+
+  /**
+   * Get the answer as normalized result. Declarative backends report no usage, errors or tool calls.
+   *
+   * @returns Answer text, or null if no answer was found
+   */
+  getExtractedResult(): ExtractedResult | null {
+    const result = this.getResult() as { result: unknown } | null
+    if (!result) {
+      return null
+    }
+    const text = typeof result.result === 'string' ? result.result : JSON.stringify(result.result)
+    return { text, isError: false, toolCalls: [], filesTouched: [] }
+  }
+
+  /**
+   * Get the number of output lines received so far.
+   *
+   * @returns Event count
+   */
+  getEventCount(): number {
+    return this.eventCount
+  }
+
+  /**
+   * Get the most recent answer text seen in the output.
+   *
+   * @returns Message text or null
+   */
+  getLastAssistantMessage(): string | null {
+    return this.lastMessage
+  }
+
+  /**
+   * Get the session id found at the sessionIdPath.
+   *
+   * @returns Session id or null
+   */
+  getSessionId(): string | null {
+    return this.sessionId
+  }
+
+  /**
+   * Collect a line of json output; it is parsed when the output ends.
+   *
+   * @param line - Raw line from stdout
+   */
+  private processJsonLine(line: string): void {
+    // Skip log output printed before the document starts
+    if (this.ended || (this.lines.length === 0 && !/^\s*[[{]/.test(line))) {
+      return
+    }
+
+    this.lines.push(line)
+    this.eventCount++
+  }
+
+  /**
+   * Parse the JSON documents in the output and keep the last matching value.
+   *
+   * Documents start at the beginning of a line; text between them, such as
+   * plain log lines, is skipped. The output is scanned once, so large
+   * pretty-printed documents are parsed in linear time.
+   *
+   * @param text - Collected json output
+   */
+  private parseJsonDocuments(text: string): void {
+    try {
+      this.recordResult(JSON.parse(text))
+      return
+    } catch {
+      // Not a single document, look for several
+    }
+
+    const documentStart = /^[ \t]*[[{]/gm
+    let match = documentStart.exec(text)
+    while (match) {
+      const start = match.index + match[0].length - 1
+      const end = findDocumentEnd(text, start)
+      if (end === -1) {
+        // Output ended inside a document, e.g. after a timeout
+        return
+      }
+      try {
+        this.recordResult(JSON.parse(text.slice(start, end)))
+      } catch {
+        // Bracketed log output, not JSON
+      }
+      documentStart.lastIndex = end
+      match = documentStart.exec(text)
+    }
+  }
+
+  /**
+   * Parse a JSON Lines entry and keep the latest matching value.
+   *
+   * @param line - Raw line from stdout
+   */
+  private processJsonlLine(line: string): void {
+    const trimmedLine = line.trim()
+    if (!trimmedLine) {
+      return
+    }
+
+    let entry: unknown
+    try {
+      entry = JSON.parse(trimmedLine)
+    } catch {
+      // Not valid JSON, ignore
+      return
+    }
+
+    this.eventCount++
+    this.recordResult(entry)
+  }
+
+  /**
+   * Extract the answer from a parsed document.
+   *
+   * @param document - Parsed JSON output
+   */
+  private recordResult(document: unknown): void {
+    if (this.sessionIdPath) {
+      const sessionId = evaluateJsonPath(document, this.sessionIdPath)
+      if (typeof sessionId === 'string' && sessionId) {
+        this.sessionId = sessionId
+      }
+    }
+
+    const value = this.resultPath ? evaluateJsonPath(document, this.resultPath) : document
+    if (value === undefined) {
+      return
+    }
+
+    this.result = value
+    if (typeof value === 'string') {
+      this.lastMessage = value
+    }
+  }
+}
+
+/**
+ * Find the end of the JSON object or array starting at the given index.
+ *
+ * @param text - Text containing the document
+ * @param start - Index of the opening bracket
+ * @returns Index after the matching closing bracket, or -1 if the document is not closed
+ */
+function findDocumentEnd(text: string, start: number): number {
+  let depth = 0
+  let inString = false
+  for (let index = start; index < text.length; index++) {
+    const char = text[index]
+    if (inString) {
+      if (char === '\\') {
+        index++
+      } else if (char === '"') {
+        inString = false
+      }
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{' || char === '[') {
+      depth++
+    } else if (char === '}' || char === ']') {
+      depth--
+      if (depth === 0) {
+        return index + 1
+      }
+    }
+  }
+  return -1
+}
@@ -0,0 +1,218 @@
+/**
+ * Token counts reported by a backend for one execution.
+ */
+export interface TokenUsage {
+  /**
+   * Tokens of the prompt and context sent to the model.
+   */
+  inputTokens: number
+
+  /**
+   * Tokens generated by the model.
+   */
+  outputTokens: number
+
+  /**
+   * Input tokens read from the prompt cache, when reported.
+   */
+  cacheReadTokens?: number
+
+  /**
+   * Input tokens written to the prompt cache, when reported.
+   */
+  cacheWriteTokens?: number
+}
+
+/**
+ * A tool invoked by the sub-agent.
+ */
+export interface ToolCall {
+  /**
+   * Tool name as reported by the backend, e.g. 'Edit' or 'write_file'.
+   */
+  name: string
+
+  /**
+   * File the tool worked on, when it takes a single file.
+   */
+  filePath?: string
+
+  /**
+   * Whether the tool creates, changes or deletes the file.
+   */
+  writes?: boolean
+}
+
+/**
+ * Final result of an execution in a shape shared by all backends.
+ */
+export interface ExtractedResult {
+  /**
+   * Final answer text of the agent.
+   */
+  text: string
+
+  /**
+   * Whether the backend reported the run as failed.
+   */
+  isError: boolean
+
+  /**
+   * Error message reported by the backend.
+   */
+  error?: string
+
+  /**
+   * Token usage, when the backend reports it.
+   */
+  usage?: TokenUsage
+
+  /**
+   * Cost of the run in US dollars, when the backend reports it.
+   */
+  costUsd?: number
+
+  /**
+   * Number of agentic turns, when the backend reports it.
+   */
+  turns?: number
+
+  /**
+   * Tools the sub-agent invoked, in order.
+   */
+  toolCalls: ToolCall[]
+
+  /**
+   * Files the sub-agent's tools created, changed or deleted, in order of first change.
+   */
+  filesTouched: string[]
+}
+
+/**
+ * Part of the result read from the terminal message; the tool call trace is
+ * collected from the events before it.
+ */
+export type TerminalResult = Omit<ExtractedResult, 'toolCalls' | 'filesTouched'>
+
+/**
+ * Recognizes the terminal message of a backend's output and reads the result from it.
+ */
+export interface ResultExtractor {
+  /**
+   * Check if a JSON message ends the run.
+   * Other messages, including stray JSON log lines, never end the run.
+   *
+   * @param message - JSON object read from one line of stdout
+   * @returns True for the backend's final result message
+   */
+  isTerminal(message: Record<string, unknown>): boolean
+
+  /**
+   * Read the normalized result from the terminal message.
+   *
+   * @param message - Terminal message
+   * @param assistantText - Text of the assistant messages streamed before it, if any
+   * @returns Text, error, usage, cost and turns of the run
+   */
+  extract(message: Record<string, unknown>, assistantText: string | null): TerminalResult
+
+  /**
+   * Read the tools invoked in an event before the terminal message.
+   *
+   * @param message - Stream event
+   * @returns Tool calls started by the event, usually none
+   */
+  readToolCalls(message: Record<string, unknown>): ToolCall[]
+}
+
+/**
+ * Claude Code tools that create or change the file in their input.
+ */
+const CLAUDE_WRITING_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit']
+
+/**
+ * Result extractor for the claude and cursor-agent stream-json output.
+ *
+ * Both CLIs end the stream with a `type: "result"` event carrying the answer
+ * in `result`, failures as `is_error` (with an `error_*` subtype) and, for
+ * claude, Anthropic style `usage` counts, `total_cost_usd` and `num_turns`.
+ * Claude reports tool calls as `tool_use` blocks of assistant messages.
+ */
+export class StreamJsonResultExtractor implements ResultExtractor {
+  isTerminal(message: Record<string, unknown>): boolean {
+    return message['type'] === 'result'
+  }
+
+  extract(message: Record<string, unknown>, assistantText: string | null): TerminalResult {
+    const text = typeof message['result'] === 'string' ? message['result'] : (assistantText ?? '')
+    const subtype = typeof message['subtype'] === 'string' ? message['subtype'] : undefined
+    const isError = message['is_error'] === true || subtype?.startsWith('error') === true
+    const usage = readUsage(message['usage'])
+    const costUsd = message['total_cost_usd']
+    const turns = message['num_turns']
+
+    return {
+      text,
+      isError,
+      ...(isError && { error: text || subtype || 'The agent reported an error' }),
+      ...(usage && { usage }),
+      ...(typeof costUsd === 'number' && { costUsd }),
+      ...(typeof turns === 'number' && { turns }),
+    }
+  }
+
+  readToolCalls(message: Record<string, unknown>): ToolCall[] {
+    if (message['type'] !== 'assistant') {
+      return []
+    }
+
+    const content = (message['message'] as { content?: unknown } | undefined)?.content
+    if (!Array.isArray(content)) {
+      return []
+    }
+    return content
+      .filter(
+        (block): block is { type: 'tool_use'; name: string; input?: Record<string, unknown> } =>
+          typeof block === 'object' &&
+          block !== null &&
+          block.type === 'tool_use' &&
+          typeof block.name === 'string'
+      )
+      .map((block) => {
+        const filePath = block.input?.['file_path'] ?? block.input?.['notebook_path']
+        return {
+          name: block.name,
+          ...(typeof filePath === 'string' && { filePath }),
+          ...(CLAUDE_WRITING_TOOLS.includes(block.name) && { writes: true }),
+        }
+      })
+  }
+}
+
+/**
+ * Read Anthropic style token counts (`input_tokens`, `output_tokens`, ...).
+ *
+ * @param value - Usage object of a result message
+ * @returns Token usage, or undefined when the counts are missing
+ */
+export function readUsage(value: unknown): TokenUsage | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined
+  }
+
+  const usage = value as Record<string, unknown>
+  const inputTokens = usage['input_tokens']
+  const outputTokens = usage['output_tokens']
+  if (typeof inputTokens !== 'number' || typeof outputTokens !== 'number') {
+    return undefined
+  }
+
+  const cacheReadTokens = usage['cache_read_input_tokens']
+  const cacheWriteTokens = usage['cache_creation_input_tokens']
+  return {
+    inputTokens,
+    outputTokens,
+    ...(typeof cacheReadTokens === 'number' && { cacheReadTokens }),
+    ...(typeof cacheWriteTokens === 'number' && { cacheWriteTokens }),
+  }
+}
@@ -0,0 +1,369 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('BackendRegistry', () => {
+  const params: ExecutionParams = {
+    agent: 'Agent instructions',
+    prompt: 'Help me',
+    model: 'fast-model',
+    tools: ['Read', 'Grep'],
+    autoApprovalMode: true,
+    extra_args: ['--debug'],
+  }
+
+  describe('built-in backends', () => {
+    it('should register cursor, claude and gemini', () => {
+      expect(BackendRegistry.withBuiltins().names()).toEqual(['cursor', 'claude', 'gemini'])
+    })
+
+    it('should build the claude command line with the prompt on stdin', () => {
+      const { command, args, input } = BackendRegistry.withBuiltins()
+        .get('claude')!
+        .buildCommand(params)
+
+      expect(command).toBe('claude')
+      expect(input).toBe('[System Context]\nAgent instructions\n\n[User Prompt]\nHelp me')
+      expect(args).toEqual([
+        '--output-format',
+        'stream-json',
+        '--verbose',
+        '-p',
+        '--tools',
+        'Read,Grep',
+        '--dangerously-skip-permissions',
+        '--model',
+        'fast-model',
+        '--debug',
+      ])
+    })
+
+    it('should build the gemini command line with the prompt on stdin', () => {
+      const { command, args, input } = BackendRegistry.withBuiltins()
+        .get('gemini')!
+        .buildCommand(params)
+
+      expect(command).toBe('gemini')
+      expect(input).toContain('[User Prompt]\nHelp me')
+      expect(args[0]).toBe('--output-format')
+      expect(args).toContain('--allowed-tools')
+      expect(args).toContain('yolo')
+    })
+
+    it('should build the cursor command line', () => {
+      const { command, args } = BackendRegistry.withBuiltins().get('cursor')!.buildCommand(params)
+
+      expect(command).toBe('cursor-agent')
+      expect(args[3]).toContain('[User Prompt]\nHelp me')
+      expect(args).toContain('-f')
+      expect(args).not.toContain('--tools')
+    })
+
+    it('should pass the agent content as claude system prompt when requested', () => {
+      const claude = BackendRegistry.withBuiltins().get('claude')!
+
+      const append = claude.buildCommand({ ...params, systemPromptMode: 'append' })
+      const replace = claude.buildCommand({ ...params, systemPromptMode: 'replace' })
+
+      expect(append.input).toBe('Help me')
+      expect(append.args).toContain('--append-system-prompt')
+      expect(append.args[append.args.indexOf('--append-system-prompt') + 1]).toBe(
+        'Agent instructions'
+      )
+      expect(replace.args).toContain('--system-prompt')
+      expect(replace.args).not.toContain('--append-system-prompt')
+    })
+
+    it('should fall back to inline agent content for backends without system prompt flags', () => {
+      const { args } = BackendRegistry.withBuiltins()
+        .get('cursor')!
+        .buildCommand({ ...params, systemPromptMode: 'replace' })
+
+      expect(args[3]).toBe('[System Context]\nAgent instructions\n\n[User Prompt]\nHelp me')
+    })
+
+    it('should resume sessions with --resume where the CLI supports it', () => {
+      const registry = BackendRegistry.withBuiltins()
+      const resumed = { ...params, sessionId: 'abc-123' }
+
+      for (const name of ['claude', 'cursor']) {
+        const { args } = registry.get(name)!.buildCommand(resumed)
+        expect(args[args.indexOf('--resume') + 1]).toBe('abc-123')
+      }
+      expect(() => registry.get('gemini')!.buildCommand(resumed)).toThrow(
+        "'gemini' does not support resuming sessions"
+      )
+    })
+
+    it('should send only the user prompt when resuming with inline agent content', () => {
+      const registry = BackendRegistry.withBuiltins()
+      const resumed = { ...params, sessionId: 'abc-123' }
+
+      expect(registry.get('claude')!.buildCommand(resumed).input).toBe('Help me')
+      expect(registry.get('cursor')!.buildCommand(resumed).args[3]).toBe('Help me')
+    })
+
+    it('should report session ids only for backends that can resume them', () => {
+      const registry = BackendRegistry.withBuiltins()
+      const init = '{"type":"system","subtype":"init","session_id":"abc-123"}'
+
+      for (const name of ['claude', 'cursor', 'gemini']) {
+        const parser = registry.get(name)!.createOutputParser!()
+        parser.processLine(init)
+        expect(parser.getSessionId?.()).toBe(name === 'gemini' ? null : 'abc-123')
+      }
+    })
+
+    it('should treat results flagged as errors as failures', () => {
+      const claude = BackendRegistry.withBuiltins().get('claude')!
+
+      expect(claude.isSuccess?.({ exitCode: 0, hasResult: true, resultJson: {} })).toBe(true)
+      expect(claude.isSuccess?.({ exitCode: 143, hasResult: true, resultJson: {} })).toBe(true)
+      expect(
+        claude.isSuccess?.({
+          exitCode: 0,
+          hasResult: true,
+          resultJson: { is_error: true },
+          extractedResult: {
+            text: 'Failed',
+            isError: true,
+            error: 'Failed',
+            toolCalls: [],
+            filesTouched: [],
+          },
+        })
+      ).toBe(false)
+    })
+  })
+
+  describe('register', () => {
+    it('should reject invalid backend names', () => {
+      const registry = new BackendRegistry()
+
+      expect(() =>
+        registry.register('bad name', { buildCommand: () => ({ command: 'x', args: [] }) })
+      ).toThrow('Invalid backend name')
+    })
+
+    it('should reject adapters without buildCommand', () => {
+      const registry = new BackendRegistry()
+
+      expect(() => registry.register('broken', {} as never)).toThrow('buildCommand')
+    })
+  })
+
+  describe('findConfigFile', () => {
+    let projectDir: string
+
+    beforeEach(() => {
+      projectDir = fs.mkdtempSync(path.join(tmpdir(), 'backend-discovery-test-'))
+      fs.mkdirSync(path.join(projectDir, 'agents'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    it('should find a backends file next to the agents directory', () => {
+      fs.writeFileSync(path.join(projectDir, 'backends.yml'), 'backends: {}')
+
+      expect(BackendRegistry.findConfigFile(path.join(projectDir, 'agents'))).toBe(
+        path.join(projectDir, 'backends.yml')
+      )
+    })
+
+    it('should return undefined when no backends file exists', () => {
+      expect(BackendRegistry.findConfigFile(path.join(projectDir, 'agents'))).toBeUndefined()
+    })
+  })
+
+  describe('loadConfigFile', () => {
+    let configDir: string
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(tmpdir(), 'backend-registry-test-'))
+    })
+
+    afterEach(() => {
+      fs.rmSync(configDir, { recursive: true, force: true })
+    })
+
+    const writeConfig = (backends: unknown): string => {
+      const configPath = path.join(configDir, 'backends.json')
+      fs.writeFileSync(configPath, JSON.stringify({ backends }))
+      return configPath
+    }
+
+    it('should load backends from modules relative to the config file', () => {
+      fs.writeFileSync(
+        path.join(configDir, 'codex.js'),
+        "module.exports = { buildCommand: (params) => ({ command: 'codex', args: ['exec', params.prompt] }) }"
+      )
+      const registry = BackendRegistry.withBuiltins()
+
+      registry.loadConfigFile(writeConfig({ codex: { module: './codex.js' } }))
+
+      expect(registry.has('codex')).toBe(true)
+      expect(registry.get('codex')!.buildCommand(params)).toEqual({
+        command: 'codex',
+        args: ['exec', 'Help me'],
+      })
+    })
+
+    it('should call factory functions with the backend name', () => {
+      fs.writeFileSync(
+        path.join(configDir, 'wrapper.js'),
+        'module.exports = (name) => ({ buildCommand: () => ({ command: `./${name}.sh`, args: [] }) })'
+      )
+      const registry = new BackendRegistry()
+
+      registry.loadConfigFile(writeConfig({ wrapper: { module: 'wrapper.js' } }))
+
+      expect(registry.get('wrapper')!.buildCommand(params).command).toBe('./wrapper.sh')
+    })
+
+    it('should construct exported classes with the backend name', () => {
+      fs.writeFileSync(
+        path.join(configDir, 'wrapper.js'),
+        [
+          'module.exports = class WrapperBackend {',
+          '  constructor(name) { this.name = name }',
+          '  buildCommand() { return { command: `./${this.name}.sh`, args: [] } }',
+          '}',
+        ].join('\n')
+      )
+      const registry = new BackendRegistry()
+
+      registry.loadConfigFile(writeConfig({ wrapper: { module: 'wrapper.js' } }))
+
+      expect(registry.get('wrapper')!.buildCommand(params).command).toBe('./wrapper.sh')
+    })
+
+    it('should register declarative backends from a YAML file', () => {
+      const configPath = path.join(configDir, 'backends.yaml')
+      fs.writeFileSync(
+        configPath,
+        [
+          'backends:',
+          '  in-house:',
+          '    command: llm-cli',
+          "    args: [run, ['--model', '{model}'], '{prompt}']",
+          '    outputFormat: json',
+          '    resultPath: $.answer',
+        ].join('\n')
+      )
+      const registry = BackendRegistry.withBuiltins()
+
+      registry.loadConfigFile(configPath)
+
+      expect(registry.get('in-house')!.buildCommand(params)).toEqual({
+        command: 'llm-cli',
+        args: [
+          'run',
+          '--model',
+          'fast-model',
+          '[System Context]\nAgent instructions\n\n[User Prompt]\nHelp me',
+          '--debug',
+        ],
+      })
+    })
+
+    it('should throw when the config file is missing', () => {
+      const registry = new BackendRegistry()
+
+      expect(() => registry.loadConfigFile(path.join(configDir, 'missing.json'))).toThrow(
+        'Failed to read backends configuration'
+      )
+    })
+
+    it('should throw when a backend has no module', () => {
+      const registry = new BackendRegistry()
+
+      expect(() => registry.loadConfigFile(writeConfig({ codex: {} }))).toThrow(
+        "expected a 'module' path or a 'command'"
+      )
+    })
+
+    it('should throw when the module cannot be loaded', () => {
+      const registry = new BackendRegistry()
+
+      expect(() =>
+        registry.loadConfigFile(writeConfig({ codex: { module: './nope.js' } }))
+      ).toThrow("Failed to load backend 'codex'")
+    })
+
+    it('should name the backend and module when the module provides no adapter', () => {
+      fs.writeFileSync(
+        path.join(configDir, 'broken.js'),
+        "module.exports = () => { throw new Error('missing API key') }"
+      )
+      fs.writeFileSync(path.join(configDir, 'empty.js'), 'module.exports = {}')
+      const registry = new BackendRegistry()
+
+      expect(() =>
+        registry.loadConfigFile(writeConfig({ codex: { module: './broken.js' } }))
+      ).toThrow(
+        `Failed to load backend 'codex' from ${path.join(configDir, 'broken.js')}: missing API key`
+      )
+      expect(() =>
+        registry.loadConfigFile(writeConfig({ codex: { module: './empty.js' } }))
+      ).toThrow(`Failed to load backend 'codex' from ${path.join(configDir, 'empty.js')}`)
+    })
+
+    it('should set concurrency limits, also for already registered backends', () => {
+      const registry = BackendRegistry.withBuiltins()
+
+      registry.loadConfigFile(
+        writeConfig({
+          claude: { maxConcurrent: 2 },
+          'in-house': { command: 'llm-cli', maxConcurrent: 1 },
+        })
+      )
+
+      expect(registry.getConcurrencyLimit('claude')).toBe(2)
+      expect(registry.getConcurrencyLimit('in-house')).toBe(1)
+      expect(registry.getConcurrencyLimit('cursor')).toBeUndefined()
+    })
+
+    it('should configure the prompt delivery of built-in backends', () => {
+      const registry = BackendRegistry.withBuiltins()
+
+      registry.loadConfigFile(writeConfig({ cursor: { promptDelivery: 'stdin' } }))
+
+      const command = registry.get('cursor')!.buildCommand(params)
+      expect(registry.get('cursor')!.promptDelivery).toBe('stdin')
+      expect(command.input).toContain('Help me')
+      expect(command.args.join(' ')).not.toContain('Help me')
+      expect(() =>
+        registry.loadConfigFile(writeConfig({ claude: { promptDelivery: 'file' } }))
+      ).toThrow("'promptDelivery' of a built-in backend must be one of argv, stdin")
+    })
+
+    it('should reject unknown keys', () => {
+      const registry = BackendRegistry.withBuiltins()
+
+      expect(() =>
+        registry.loadConfigFile(writeConfig({ cursor: { promptDeliveryMode: 'stdin' } }))
+      ).toThrow("unknown key 'promptDeliveryMode' (expected promptDelivery, maxConcurrent)")
+      expect(() =>
+        registry.loadConfigFile(writeConfig({ 'in-house': { command: 'llm', format: 'json' } }))
+      ).toThrow("unknown key 'format'")
+      expect(() =>
+        registry.loadConfigFile(
+          writeConfig({ codex: { module: './codex.js', promptDelivery: 'stdin' } })
+        )
+      ).toThrow("unknown key 'promptDelivery'")
+    })
+
+    it('should throw when maxConcurrent is not a positive integer', () => {
+      const registry = BackendRegistry.withBuiltins()
+
+      expect(() => registry.loadConfigFile(writeConfig({ claude: { maxConcurrent: 0 } }))).toThrow(
+        "'maxConcurrent' must be a positive integer"
+      )
+    })
+  })
+})
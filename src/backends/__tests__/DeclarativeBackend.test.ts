@@ -0,0 +1,236 @@
+import { DeclarativeBackend } from 'src/backends/DeclarativeBackend'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { describe, expect, it } from 'vitest'
+
+describe('DeclarativeBackend', () => {
+  const params: ExecutionParams = {
+    agent: 'Agent instructions',
+    prompt: 'Help me',
+    cwd: '/work',
+  }
+
+  describe('fromConfig', () => {
+    it('should reject a missing command', () => {
+      expect(() => DeclarativeBackend.fromConfig('llm', { args: [] })).toThrow(
+        "'command' must be a non-empty string"
+      )
+    })
+
+    it('should reject unknown placeholders', () => {
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', { command: 'llm', args: ['{temperature}'] })
+      ).toThrow("unknown placeholder '{temperature}'")
+    })
+
+    it('should reject unknown output formats', () => {
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', { command: 'llm', outputFormat: 'xml' })
+      ).toThrow("'outputFormat' must be one of json, jsonl, text")
+    })
+
+    it('should require {promptFile} for file delivery', () => {
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', { command: 'llm', promptDelivery: 'file' })
+      ).toThrow("promptDelivery 'file' requires '{promptFile}'")
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', { command: 'llm', args: ['{promptFile}'] })
+      ).toThrow("'{promptFile}' requires promptDelivery 'file'")
+    })
+
+    it('should reject {prompt} unless the prompt is delivered through argv', () => {
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', {
+          command: 'llm',
+          args: [['--context', '{prompt}']],
+          promptDelivery: 'stdin',
+        })
+      ).toThrow("'{prompt}' requires promptDelivery 'argv'")
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', {
+          command: 'llm',
+          args: ['{promptFile}', '{prompt}'],
+          promptDelivery: 'file',
+        })
+      ).toThrow("'{prompt}' requires promptDelivery 'argv'")
+    })
+
+    it('should reject invalid result paths', () => {
+      expect(() =>
+        DeclarativeBackend.fromConfig('llm', {
+          command: 'llm',
+          outputFormat: 'json',
+          resultPath: 'answer',
+        })
+      ).toThrow("must start with '$'")
+    })
+  })
+
+  describe('buildCommand', () => {
+    it('should substitute placeholders and append extra_args', () => {
+      const backend = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        args: ['run', '--dir={cwd}', '{prompt}'],
+      })
+
+      expect(backend.buildCommand({ ...params, extra_args: ['--debug'] })).toEqual({
+        command: 'llm',
+        args: [
+          'run',
+          '--dir=/work',
+          '[System Context]\nAgent instructions\n\n[User Prompt]\nHelp me',
+          '--debug',
+        ],
+      })
+    })
+
+    it('should deliver the prompt as input for stdin and file delivery', () => {
+      const stdinBackend = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        promptDelivery: 'stdin',
+      })
+      const fileBackend = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        args: ['--prompt-file', '{promptFile}'],
+        promptDelivery: 'file',
+      })
+
+      expect(stdinBackend.buildCommand(params)).toEqual({
+        command: 'llm',
+        args: [],
+        input: '[System Context]\nAgent instructions\n\n[User Prompt]\nHelp me',
+      })
+      expect(fileBackend.buildCommand(params, { promptFile: '/tmp/p/prompt.txt' }).args).toEqual([
+        '--prompt-file',
+        '/tmp/p/prompt.txt',
+      ])
+    })
+
+    it('should resume sessions through the {sessionId} placeholder', () => {
+      const backend = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        args: [['--resume', '{sessionId}'], '{prompt}'],
+        outputFormat: 'jsonl',
+        sessionIdPath: '$.session',
+      })
+      const parser = backend.createOutputParser()
+      parser.processLine('{"session": "s-42", "text": "Hi"}')
+
+      expect(parser.getSessionId?.()).toBe('s-42')
+      expect(backend.buildCommand({ ...params, sessionId: 's-42' }).args).toEqual([
+        '--resume',
+        's-42',
+        'Help me',
+      ])
+      expect(backend.buildCommand(params).args).toHaveLength(1)
+    })
+
+    it('should reject session ids for backends without a {sessionId} placeholder', () => {
+      const backend = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        outputFormat: 'jsonl',
+        sessionIdPath: '$.session',
+      })
+      const parser = backend.createOutputParser()
+      parser.processLine('{"session": "s-42", "text": "Hi"}')
+
+      expect(parser.getSessionId?.()).toBeNull()
+      expect(() => backend.buildCommand({ ...params, sessionId: 's-42' })).toThrow(
+        "'llm' does not support resuming sessions"
+      )
+    })
+
+    it('should drop optional groups whose placeholders have no value', () => {
+      const backend = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        args: [
+          ['--model', '{model}'],
+          ['--tools', '{tools}'],
+        ],
+      })
+
+      expect(backend.buildCommand({ ...params, model: 'small' }).args).toEqual(['--model', 'small'])
+      expect(backend.buildCommand({ ...params, tools: ['Read', 'Grep'] }).args).toEqual([
+        '--tools',
+        'Read,Grep',
+      ])
+    })
+  })
+
+  describe('output parsing', () => {
+    it('should extract the answer from a multi-line json document', () => {
+      const parser = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        outputFormat: 'json',
+        resultPath: '$.choices[0].text',
+      }).createOutputParser()
+
+      expect(parser.processLine('Loading model...')).toBe(false)
+      expect(parser.processLine('{"choices": [')).toBe(false)
+      expect(parser.processLine('{"text": "Answer"}]}')).toBe(false)
+      expect(parser.getResult()).toBeNull()
+
+      parser.end?.()
+
+      expect(parser.getResult()).toEqual({ result: 'Answer' })
+    })
+
+    it('should skip json log objects printed before the answer', () => {
+      const parser = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        outputFormat: 'json',
+        resultPath: '$.choices[0].text',
+      }).createOutputParser()
+
+      for (const line of [
+        '{"level": "info", "msg": "loading {model}"}',
+        '[debug] connected',
+        '{',
+        '  "choices": [{ "text": "Answer with } and \\" inside" }]',
+        '}',
+      ]) {
+        expect(parser.processLine(line)).toBe(false)
+      }
+      parser.end?.()
+
+      expect(parser.getResult()).toEqual({ result: 'Answer with } and " inside' })
+    })
+
+    it('should keep the last matching jsonl entry', () => {
+      const parser = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        outputFormat: 'jsonl',
+        resultPath: '$.delta',
+      }).createOutputParser()
+
+      parser.processLine('{"delta": "partial"}')
+      parser.processLine('{"event": "usage"}')
+      parser.processLine('{"delta": "final"}')
+
+      expect(parser.getEventCount()).toBe(3)
+      expect(parser.getLastAssistantMessage()).toBe('final')
+      expect(parser.getResult()).toEqual({ result: 'final' })
+    })
+
+    it('should report no result when the result path matches nothing', () => {
+      const parser = DeclarativeBackend.fromConfig('llm', {
+        command: 'llm',
+        outputFormat: 'json',
+        resultPath: '$.answer',
+      }).createOutputParser()
+
+      parser.processLine('{"error": "quota exceeded"}')
+      parser.end?.()
+
+      expect(parser.getResult()).toBeNull()
+    })
+
+    it('should use the whole text output as the answer', () => {
+      const parser = DeclarativeBackend.fromConfig('llm', { command: 'llm' }).createOutputParser()
+
+      parser.processLine('Line one')
+      parser.processLine('Line two')
+
+      expect(parser.getResult()).toEqual({ result: 'Line one\nLine two' })
+    })
+  })
+})
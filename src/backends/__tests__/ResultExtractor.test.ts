@@ -0,0 +1,160 @@
+import { StreamJsonResultExtractor } from 'src/backends/ResultExtractor'
+import { CursorResultExtractor } from 'src/backends/builtin/CursorBackend'
+import { GeminiResultExtractor } from 'src/backends/builtin/GeminiBackend'
+import { StreamProcessor } from 'src/execution/StreamProcessor'
+import { describe, expect, it } from 'vitest'
+
+describe('ResultExtractor', () => {
+  describe('StreamJsonResultExtractor', () => {
+    const extractor = new StreamJsonResultExtractor()
+
+    it('should only treat result events as terminal', () => {
+      expect(extractor.isTerminal({ type: 'result' })).toBe(true)
+      expect(extractor.isTerminal({ type: 'assistant' })).toBe(false)
+      expect(extractor.isTerminal({ result: 'Looks like a result' })).toBe(false)
+    })
+
+    it('should fall back to the last assistant message when the result has no text', () => {
+      expect(extractor.extract({ type: 'result', subtype: 'success' }, 'Final answer')).toEqual({
+        text: 'Final answer',
+        isError: false,
+      })
+    })
+
+    it('should report the result text of failed runs as error', () => {
+      expect(
+        extractor.extract({ type: 'result', is_error: true, result: 'API key invalid' }, null)
+      ).toEqual({ text: 'API key invalid', isError: true, error: 'API key invalid' })
+    })
+
+    it('should read cost, turns and the tool call trace of claude runs', () => {
+      const processor = new StreamProcessor(extractor)
+      processor.processLine(
+        JSON.stringify({
+          type: 'assistant',
+          message: {
+            content: [
+              { type: 'text', text: 'Let me look' },
+              { type: 'tool_use', name: 'Read', input: { file_path: '/repo/a.ts' } },
+              { type: 'tool_use', name: 'Edit', input: { file_path: '/repo/a.ts' } },
+            ],
+          },
+        })
+      )
+      processor.processLine(
+        JSON.stringify({
+          type: 'assistant',
+          message: {
+            content: [
+              { type: 'tool_use', name: 'Bash', input: { command: 'npm test' } },
+              { type: 'tool_use', name: 'Write', input: { file_path: '/repo/b.ts' } },
+              { type: 'tool_use', name: 'Edit', input: { file_path: '/repo/a.ts' } },
+            ],
+          },
+        })
+      )
+      processor.processLine(
+        '{"type":"result","subtype":"success","result":"Done","total_cost_usd":0.12,"num_turns":3}'
+      )
+
+      expect(processor.getExtractedResult()).toEqual({
+        text: 'Done',
+        isError: false,
+        costUsd: 0.12,
+        turns: 3,
+        toolCalls: [
+          { name: 'Read', filePath: '/repo/a.ts' },
+          { name: 'Edit', filePath: '/repo/a.ts', writes: true },
+          { name: 'Bash' },
+          { name: 'Write', filePath: '/repo/b.ts', writes: true },
+          { name: 'Edit', filePath: '/repo/a.ts', writes: true },
+        ],
+        filesTouched: ['/repo/a.ts', '/repo/b.ts'],
+      })
+    })
+  })
+
+  describe('CursorResultExtractor', () => {
+    it('should read the tool call trace from started tool_call events', () => {
+      const processor = new StreamProcessor(new CursorResultExtractor())
+      const toolCall = (subtype: string, call: Record<string, unknown>) =>
+        JSON.stringify({ type: 'tool_call', subtype, tool_call: call })
+      processor.processLine(toolCall('started', { readToolCall: { args: { path: 'src/a.ts' } } }))
+      processor.processLine(toolCall('completed', { readToolCall: { args: { path: 'src/a.ts' } } }))
+      processor.processLine(toolCall('started', { editToolCall: { args: { path: 'src/a.ts' } } }))
+      processor.processLine(toolCall('started', { shellToolCall: { args: { command: 'ls' } } }))
+      processor.processLine('{"type":"result","subtype":"success","result":"Done"}')
+
+      expect(processor.getExtractedResult()).toEqual({
+        text: 'Done',
+        isError: false,
+        toolCalls: [
+          { name: 'read', filePath: 'src/a.ts' },
+          { name: 'edit', filePath: 'src/a.ts', writes: true },
+          { name: 'shell' },
+        ],
+        filesTouched: ['src/a.ts'],
+      })
+    })
+  })
+
+  describe('GeminiResultExtractor', () => {
+    const extractor = new GeminiResultExtractor()
+
+    it('should read streamed answers, status and flat stats of stream-json results', () => {
+      const processor = new StreamProcessor(extractor)
+      processor.processLine('{"type":"init","session_id":"s-1"}')
+      processor.processLine(
+        '{"type":"tool_use","tool_name":"read_file","parameters":{"absolute_path":"/repo/a.ts"}}'
+      )
+      processor.processLine(
+        '{"type":"tool_use","tool_name":"write_file","parameters":{"file_path":"/repo/b.ts"}}'
+      )
+      processor.processLine('{"type":"message","role":"assistant","content":"Hi","delta":true}')
+
+      expect(
+        processor.processLine(
+          '{"type":"result","status":"success","stats":{"input_tokens":12,"output_tokens":3,"cached":2}}'
+        )
+      ).toBe(true)
+      expect(processor.getExtractedResult()).toEqual({
+        text: 'Hi',
+        isError: false,
+        usage: { inputTokens: 12, outputTokens: 3, cacheReadTokens: 2 },
+        toolCalls: [
+          { name: 'read_file', filePath: '/repo/a.ts' },
+          { name: 'write_file', filePath: '/repo/b.ts', writes: true },
+        ],
+        filesTouched: ['/repo/b.ts'],
+      })
+    })
+
+    it('should read the response field and per-model stats of json output', () => {
+      const message = {
+        response: 'Answer',
+        stats: {
+          models: {
+            'gemini-2.5-pro': { tokens: { prompt: 100, candidates: 20, cached: 10 } },
+            'gemini-2.5-flash': { tokens: { prompt: 5, candidates: 1 } },
+          },
+        },
+      }
+
+      expect(extractor.isTerminal(message)).toBe(true)
+      expect(extractor.extract(message, null)).toEqual({
+        text: 'Answer',
+        isError: false,
+        usage: { inputTokens: 105, outputTokens: 21, cacheReadTokens: 10 },
+      })
+    })
+
+    it('should report errors', () => {
+      expect(
+        extractor.extract(
+          { type: 'result', status: 'error', error: { type: 'FatalError', message: 'Quota' } },
+          null
+        )
+      ).toEqual({ text: '', isError: true, error: 'Quota' })
+    })
+  })
+})
@@ -0,0 +1,52 @@
+import type { BackendCommand } from 'src/backends/BackendAdapter'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { StreamJsonBackend, type StreamJsonPromptDelivery } from './StreamJsonBackend'
+
+/**
+ * Backend running agents with the Claude Code CLI (`claude`).
+ * The prompt is piped through stdin by default, which print mode reads when no prompt
+ * argument is given.
+ * Agent content can be passed with --append-system-prompt or --system-prompt,
+ * and previous sessions are resumed with --resume.
+ */
+export class ClaudeBackend extends StreamJsonBackend {
+  /**
+   * @param promptDelivery - How the CLI receives the prompt (default: 'stdin')
+   */
+  constructor(promptDelivery: StreamJsonPromptDelivery = 'stdin') {
+    super(promptDelivery)
+  }
+
+  protected buildBaseCommand(params: ExecutionParams, prompt: string | undefined): BackendCommand {
+    // Claude requires --verbose to emit stream-json in print mode
+    const args = ['--output-format', 'stream-json', '--verbose', '-p']
+    if (prompt !== undefined) {
+      args.push(prompt)
+    }
+
+    if (params.tools && params.tools.length > 0) {
+      args.push('--tools', params.tools.join(','))
+    }
+
+    if (params.autoApprovalMode) {
+      args.push('--dangerously-skip-permissions')
+    }
+
+    return { command: 'claude', args }
+  }
+
+  protected override buildResumeArgs(sessionId: string): string[] {
+    return ['--resume', sessionId]
+  }
+
+  protected override buildSystemPromptArgs(params: ExecutionParams): string[] | null {
+    switch (params.systemPromptMode) {
+      case 'append':
+        return ['--append-system-prompt', params.agent]
+      case 'replace':
+        return ['--system-prompt', params.agent]
+      default:
+        return null
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import type { BackendCommand } from 'src/backends/BackendAdapter'
+import {
+  type ResultExtractor,
+  StreamJsonResultExtractor,
+  type ToolCall,
+} from 'src/backends/ResultExtractor'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { StreamJsonBackend, type StreamJsonPromptDelivery } from './StreamJsonBackend'
+
+/**
+ * Cursor CLI tools that create, change or delete the file in their arguments.
+ */
+const CURSOR_WRITING_TOOLS = ['edit', 'write', 'delete']
+
+/**
+ * Result extractor for cursor-agent.
+ *
+ * The result event is read like claude's; tool calls are reported as
+ * `type: "tool_call"` events whose `tool_call` object is keyed by the tool,
+ * e.g. `{ "editToolCall": { "args": { "path": ... } } }`.
+ */
+export class CursorResultExtractor extends StreamJsonResultExtractor {
+  override readToolCalls(message: Record<string, unknown>): ToolCall[] {
+    if (message['type'] !== 'tool_call' || message['subtype'] !== 'started') {
+      return []
+    }
+
+    const toolCall = message['tool_call']
+    if (typeof toolCall !== 'object' || toolCall === null) {
+      return []
+    }
+    return Object.entries(toolCall as Record<string, { args?: Record<string, unknown> }>).map(
+      ([key, call]) => {
+        const name = key.replace(/ToolCall$/, '')
+        const filePath = call?.args?.['path']
+        return {
+          name,
+          ...(typeof filePath === 'string' && { filePath }),
+          ...(CURSOR_WRITING_TOOLS.includes(name) && { writes: true }),
+        }
+      }
+    )
+  }
+}
+
+/**
+ * Backend running agents with the Cursor CLI (`cursor-agent`).
+ * The prompt is passed as the argument of -p by default, or piped through stdin;
+ * previous chats are resumed with --resume.
+ */
+export class CursorBackend extends StreamJsonBackend {
+  /**
+   * @param promptDelivery - How the CLI receives the prompt (default: 'argv')
+   */
+  constructor(promptDelivery: StreamJsonPromptDelivery = 'argv') {
+    super(promptDelivery)
+  }
+
+  protected buildBaseCommand(params: ExecutionParams, prompt: string | undefined): BackendCommand {
+    const args = ['--output-format', 'stream-json', '-p']
+    if (prompt !== undefined) {
+      args.push(prompt)
+    }
+
+    if (process.env['CLI_API_KEY']) {
+      args.push('-a', process.env['CLI_API_KEY'])
+    }
+
+    if (params.autoApprovalMode) {
+      args.push('-f')
+    }
+
+    return { command: 'cursor-agent', args }
+  }
+
+  protected override buildResumeArgs(sessionId: string): string[] {
+    return ['--resume', sessionId]
+  }
+
+  protected override createResultExtractor(): ResultExtractor {
+    return new CursorResultExtractor()
+  }
+}
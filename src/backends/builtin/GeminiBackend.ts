@@ -0,0 +1,131 @@
+import type { BackendCommand } from 'src/backends/BackendAdapter'
+import type {
+  ResultExtractor,
+  TerminalResult,
+  TokenUsage,
+  ToolCall,
+} from 'src/backends/ResultExtractor'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { StreamJsonBackend, type StreamJsonPromptDelivery } from './StreamJsonBackend'
+
+/**
+ * Gemini CLI tools that create or change the file in their parameters.
+ */
+const GEMINI_WRITING_TOOLS = ['write_file', 'replace']
+
+/**
+ * Result extractor for the gemini CLI.
+ *
+ * The stream-json output ends with a `type: "result"` event that reports the
+ * status, an `error` object and `stats`; the answer itself is streamed in
+ * assistant message events. The plain json output is a single document with
+ * the answer in its `response` field. Tool calls are `type: "tool_use"` events.
+ */
+export class GeminiResultExtractor implements ResultExtractor {
+  isTerminal(message: Record<string, unknown>): boolean {
+    return (
+      message['type'] === 'result' ||
+      (message['type'] === undefined && typeof message['response'] === 'string')
+    )
+  }
+
+  extract(message: Record<string, unknown>, assistantText: string | null): TerminalResult {
+    const text =
+      typeof message['response'] === 'string' ? message['response'] : (assistantText ?? '')
+    const errorObject = message['error'] as { message?: unknown } | undefined
+    const errorMessage = typeof errorObject?.message === 'string' ? errorObject.message : undefined
+    const isError = message['status'] === 'error' || errorObject != null
+    const usage = this.readUsage(message['stats'])
+
+    return {
+      text,
+      isError,
+      ...(isError && { error: errorMessage ?? 'The agent reported an error' }),
+      ...(usage && { usage }),
+    }
+  }
+
+  readToolCalls(message: Record<string, unknown>): ToolCall[] {
+    if (message['type'] !== 'tool_use' || typeof message['tool_name'] !== 'string') {
+      return []
+    }
+
+    const parameters = (message['parameters'] ?? {}) as Record<string, unknown>
+    const filePath = parameters['file_path'] ?? parameters['absolute_path']
+    return [
+      {
+        name: message['tool_name'],
+        ...(typeof filePath === 'string' && { filePath }),
+        ...(GEMINI_WRITING_TOOLS.includes(message['tool_name']) && { writes: true }),
+      },
+    ]
+  }
+
+  /**
+   * Read token counts from gemini stats: flat counts in stream-json results,
+   * counts per model (`models.<name>.tokens`) in json output.
+   *
+   * @param value - Stats object of the result
+   * @returns Token usage, or undefined when the counts are missing
+   */
+  private readUsage(value: unknown): TokenUsage | undefined {
+    if (typeof value !== 'object' || value === null) {
+      return undefined
+    }
+
+    const stats = value as Record<string, unknown>
+    if (typeof stats['input_tokens'] === 'number' && typeof stats['output_tokens'] === 'number') {
+      return {
+        inputTokens: stats['input_tokens'],
+        outputTokens: stats['output_tokens'],
+        ...(typeof stats['cached'] === 'number' && { cacheReadTokens: stats['cached'] }),
+      }
+    }
+
+    const models = stats['models']
+    if (typeof models !== 'object' || models === null) {
+      return undefined
+    }
+    const usage = { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0 }
+    for (const model of Object.values(models as Record<string, { tokens?: unknown }>)) {
+      const tokens = (model?.tokens ?? {}) as Record<string, unknown>
+      usage.inputTokens += typeof tokens['prompt'] === 'number' ? tokens['prompt'] : 0
+      usage.outputTokens += typeof tokens['candidates'] === 'number' ? tokens['candidates'] : 0
+      usage.cacheReadTokens += typeof tokens['cached'] === 'number' ? tokens['cached'] : 0
+    }
+    return usage
+  }
+}
+
+/**
+ * Backend running agents with the Gemini CLI (`gemini`).
+ * The prompt is piped through stdin by default, which runs the CLI non-interactively.
+ */
+export class GeminiBackend extends StreamJsonBackend {
+  /**
+   * @param promptDelivery - How the CLI receives the prompt (default: 'stdin')
+   */
+  constructor(promptDelivery: StreamJsonPromptDelivery = 'stdin') {
+    super(promptDelivery)
+  }
+
+  protected buildBaseCommand(params: ExecutionParams, prompt: string | undefined): BackendCommand {
+    // Gemini takes an argv prompt as positional argument
+    const args = prompt !== undefined ? [prompt] : []
+    args.push('--output-format', 'stream-json')
+
+    if (params.tools && params.tools.length > 0) {
+      args.push('--allowed-tools', params.tools.join(','))
+    }
+
+    if (params.autoApprovalMode) {
+      args.push('--approval-mode', 'yolo')
+    }
+
+    return { command: 'gemini', args }
+  }
+
+  protected override createResultExtractor(): ResultExtractor {
+    return new GeminiResultExtractor()
+  }
+}
@@ -0,0 +1,139 @@
+import {
+  type BackendAdapter,
+  type BackendCommand,
+  type BackendRunResult,
+  type OutputParser,
+  type PromptDelivery,
+  formatAgentPrompt,
+  isSuccessfulRun,
+} from 'src/backends/BackendAdapter'
+import { type ResultExtractor, StreamJsonResultExtractor } from 'src/backends/ResultExtractor'
+import { StreamProcessor } from 'src/execution/StreamProcessor'
+import type { ExecutionParams } from 'src/types/ExecutionParams'
+
+/**
+ * Prompt deliveries supported by the built-in backends.
+ */
+export type StreamJsonPromptDelivery = Exclude<PromptDelivery, 'file'>
+
+/**
+ * Base class for the built-in CLI backends.
+ *
+ * All built-in CLIs stream newline-delimited JSON events and accept the
+ * common --model flag, so subclasses only provide the CLI specific part
+ * of the command line.
+ */
+export abstract class StreamJsonBackend implements BackendAdapter {
+  /**
+   * @param promptDelivery - How the CLI receives the prompt ('argv' or 'stdin')
+   */
+  constructor(readonly promptDelivery: StreamJsonPromptDelivery) {}
+
+  /**
+   * Build the command line for an execution.
+   *
+   * @param params - Execution parameters
+   * @returns Command and arguments to spawn
+   */
+  buildCommand(params: ExecutionParams): BackendCommand {
+    // Agent content goes to the native system prompt when supported, otherwise inline.
+    // A resumed session already holds the inline agent content, so only the user prompt is sent.
+    const systemPromptArgs = this.buildSystemPromptArgs(params)
+    const prompt = systemPromptArgs || params.sessionId ? params.prompt : formatAgentPrompt(params)
+    const { command, args } = this.buildBaseCommand(
+      params,
+      this.promptDelivery === 'argv' ? prompt : undefined
+    )
+
+    if (systemPromptArgs) {
+      args.push(...systemPromptArgs)
+    }
+
+    if (params.sessionId) {
+      const resumeArgs = this.buildResumeArgs(params.sessionId)
+      if (!resumeArgs) {
+        throw new Error(`'${command}' does not support resuming sessions`)
+      }
+      args.push(...resumeArgs)
+    }
+
+    // Common optional parameters
+    if (params.model) {
+      args.push('--model', params.model)
+    }
+
+    if (params.extra_args) {
+      args.push(...params.extra_args)
+    }
+
+    return { command, args, ...(this.promptDelivery !== 'argv' && { input: prompt }) }
+  }
+
+  /**
+   * Create a stream-json parser for one execution.
+   * Session ids are only reported by backends that can resume them.
+   *
+   * @returns Fresh StreamProcessor using the backend's result extractor
+   */
+  createOutputParser(): OutputParser {
+    return new StreamProcessor(this.createResultExtractor(), this.buildResumeArgs('') !== null)
+  }
+
+  /**
+   * Decide whether an execution succeeded.
+   * Results the CLI reports as failed are treated as failures even on exit code 0.
+   *
+   * @param result - Outcome of the backend process
+   * @returns True if the execution succeeded
+   */
+  isSuccess(result: BackendRunResult): boolean {
+    if (result.extractedResult?.isError) {
+      return false
+    }
+    return isSuccessfulRun(result)
+  }
+
+  /**
+   * Create the extractor recognizing the CLI's final result message.
+   *
+   * @returns Extractor for `type: "result"` events
+   */
+  protected createResultExtractor(): ResultExtractor {
+    return new StreamJsonResultExtractor()
+  }
+
+  /**
+   * Build the arguments that pass the agent content as system prompt.
+   * Backends without a system prompt flag keep the default and receive the
+   * agent content inline with the prompt.
+   *
+   * @param _params - Execution parameters
+   * @returns System prompt arguments, or null to inline the agent content
+   */
+  protected buildSystemPromptArgs(_params: ExecutionParams): string[] | null {
+    return null
+  }
+
+  /**
+   * Build the arguments that resume a previous session.
+   *
+   * @param _sessionId - Session id reported by a previous execution
+   * @returns Resume arguments, or null when the CLI cannot resume sessions
+   */
+  protected buildResumeArgs(_sessionId: string): string[] | null {
+    return null
+  }
+
+  /**
+   * Build the CLI specific part of the command line.
+   *
+   * @param params - Execution parameters
+   * @param prompt - Prompt combining agent instructions and user prompt, or
+   *   undefined when the prompt is delivered through stdin
+   * @returns Command and arguments before the common optional parameters
+   */
+  protected abstract buildBaseCommand(
+    params: ExecutionParams,
+    prompt: string | undefined
+  ): BackendCommand
+}
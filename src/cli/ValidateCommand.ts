@@ -0,0 +1,103 @@
+import { AgentManager } from 'src/agents/AgentManager'
+import { type AgentValidationReport, AgentValidator } from 'src/agents/AgentValidator'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
+import { ServerConfig } from 'src/config/ServerConfig'
+
+/**
+ * Usage text of the validate command.
+ */
+const VALIDATE_USAGE = `Usage: sub-agents-mcp validate [--json] [--strict]
+
+Checks the agent definitions in AGENTS_DIR (all layers) and exits with a non-zero code
+when problems are found.
+
+Options:
+  --json    Print the report as JSON
+  --strict  Fail on warnings as well as errors
+  --help    Show this help`
+
+/**
+ * Exit codes of the validate command.
+ */
+export const VALIDATE_EXIT_CODES = {
+  /** No problems (or only warnings without --strict) */
+  ok: 0,
+  /** Problems found in the agent definitions */
+  problems: 1,
+  /** Invalid usage or configuration; nothing was validated */
+  usage: 2,
+} as const
+
+/**
+ * Output streams of the validate command.
+ */
+export interface ValidateCommandIO {
+  stdout: { write(text: string): unknown }
+  stderr: { write(text: string): unknown }
+}
+
+/**
+ * Run `sub-agents-mcp validate`: load AGENTS_DIR through AgentManager and
+ * report problems in the agent definitions.
+ *
+ * @param args - Command line arguments after the subcommand
+ * @param io - Output streams (defaults to the process streams)
+ * @returns Process exit code
+ */
+export async function runValidateCommand(
+  args: string[],
+  io: ValidateCommandIO = { stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  let json = false
+  let strict = false
+  for (const arg of args) {
+    if (arg === '--json') {
+      json = true
+    } else if (arg === '--strict') {
+      strict = true
+    } else if (arg === '--help' || arg === '-h') {
+      io.stdout.write(`${VALIDATE_USAGE}\n`)
+      return VALIDATE_EXIT_CODES.ok
+    } else {
+      io.stderr.write(`Unknown option: ${arg}\n\n${VALIDATE_USAGE}\n`)
+      return VALIDATE_EXIT_CODES.usage
+    }
+  }
+
+  let config: ServerConfig
+  let report: AgentValidationReport
+  try {
+    // Diagnostics are the output of this command, so keep the server log quiet
+    config = { ...new ServerConfig(), logLevel: 'error' }
+
+    const backends = BackendRegistry.withBuiltins()
+    const backendsConfig = config.backendsConfig || BackendRegistry.findConfigFile(config.agentsDir)
+    if (backendsConfig) {
+      backends.loadConfigFile(backendsConfig)
+    }
+
+    report = await new AgentValidator(new AgentManager(config, backends)).validate()
+  } catch (error) {
+    io.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`)
+    return VALIDATE_EXIT_CODES.usage
+  }
+
+  if (json) {
+    const output = { agentsDir: config.agentsDir, layers: config.agentLayers, ...report }
+    io.stdout.write(`${JSON.stringify(output, null, 2)}\n`)
+  } else {
+    for (const diagnostic of report.diagnostics) {
+      io.stdout.write(
+        `${diagnostic.filePath}:${diagnostic.line}: ${diagnostic.severity}: ${diagnostic.message}\n`
+      )
+    }
+    io.stdout.write(
+      `Checked ${report.agentCount} agent(s) in ` +
+        `${config.agentLayers.map((layer) => layer.directory).join(', ')}: ` +
+        `${report.errorCount} error(s), ${report.warningCount} warning(s)\n`
+    )
+  }
+
+  const failed = report.errorCount > 0 || (strict && report.warningCount > 0)
+  return failed ? VALIDATE_EXIT_CODES.problems : VALIDATE_EXIT_CODES.ok
+}
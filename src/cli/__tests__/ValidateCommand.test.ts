@@ -0,0 +1,85 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { VALIDATE_EXIT_CODES, runValidateCommand } from 'src/cli/ValidateCommand'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+describe('runValidateCommand', () => {
+  let testAgentsDir: string
+  let stdout: string
+  let stderr: string
+  const io = {
+    stdout: {
+      write: (text: string) => {
+        stdout += text
+      },
+    },
+    stderr: {
+      write: (text: string) => {
+        stderr += text
+      },
+    },
+  }
+
+  beforeEach(() => {
+    testAgentsDir = fs.mkdtempSync(path.join(tmpdir(), 'validate-command-test-'))
+    vi.stubEnv('AGENTS_DIR', testAgentsDir)
+    vi.stubEnv('BACKENDS_CONFIG', '')
+    stdout = ''
+    stderr = ''
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    fs.rmSync(testAgentsDir, { recursive: true, force: true })
+  })
+
+  it('should succeed and print a summary for valid agents', async () => {
+    fs.writeFileSync(
+      path.join(testAgentsDir, 'reviewer.md'),
+      '---\nname: reviewer\ndescription: Reviews code\n---\nReview.'
+    )
+
+    expect(await runValidateCommand([], io)).toBe(VALIDATE_EXIT_CODES.ok)
+    expect(stdout).toBe(`Checked 1 agent(s) in ${testAgentsDir}: 0 error(s), 0 warning(s)\n`)
+  })
+
+  it('should print diagnostics with file and line and fail on errors', async () => {
+    const filePath = path.join(testAgentsDir, 'reviewer.md')
+    fs.writeFileSync(filePath, '---\nname: reviewer\ndescription: Reviews\nagentType: codex\n---\n')
+
+    expect(await runValidateCommand([], io)).toBe(VALIDATE_EXIT_CODES.problems)
+    expect(stdout).toContain(`${filePath}:4: error: Unknown agentType 'codex'`)
+  })
+
+  it('should print a JSON report with --json', async () => {
+    fs.writeFileSync(path.join(testAgentsDir, 'plain.md'), '# Plain agent')
+
+    expect(await runValidateCommand(['--json'], io)).toBe(VALIDATE_EXIT_CODES.ok)
+    expect(JSON.parse(stdout)).toMatchObject({
+      agentsDir: testAgentsDir,
+      agentCount: 1,
+      errorCount: 0,
+      warningCount: 1,
+      diagnostics: [{ severity: 'warning', key: 'description' }],
+    })
+  })
+
+  it('should fail on warnings with --strict', async () => {
+    fs.writeFileSync(path.join(testAgentsDir, 'plain.md'), '# Plain agent')
+
+    expect(await runValidateCommand(['--strict'], io)).toBe(VALIDATE_EXIT_CODES.problems)
+  })
+
+  it('should reject unknown options', async () => {
+    expect(await runValidateCommand(['--fix'], io)).toBe(VALIDATE_EXIT_CODES.usage)
+    expect(stderr).toContain('Unknown option: --fix')
+  })
+
+  it('should report a missing agents directory', async () => {
+    vi.stubEnv('AGENTS_DIR', path.join(testAgentsDir, 'missing'))
+
+    expect(await runValidateCommand([], io)).toBe(VALIDATE_EXIT_CODES.usage)
+    expect(stderr).toContain('Failed to load agents from directory')
+  })
+})
@@ -0,0 +1,118 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import type { AgentLayer } from 'src/types/AgentLayer'
+import { AppError } from 'src/utils/ErrorHandler'
+import { parse as parseYaml } from 'yaml'
+
+/**
+ * Resolve the agent directory layers configured by AGENTS_DIR.
+ *
+ * AGENTS_DIR is either a list of directories separated by the platform path
+ * delimiter (':' on POSIX, ';' on Windows), lowest precedence first, or the
+ * path of a JSON or YAML file with a `layers` list:
+ *
+ * ```yaml
+ * layers:
+ *   - name: global
+ *     path: ~/.agents
+ *   - name: team
+ *     path: /shared/team-agents
+ *   - name: project
+ *     path: ./.agents   # relative to this file
+ * ```
+ *
+ * @param agentsDir - Value of AGENTS_DIR
+ * @returns Layers ordered from lowest to highest precedence
+ * @throws {AppError} When the layers file cannot be read or is invalid
+ */
+export function resolveAgentLayers(agentsDir: string): AgentLayer[] {
+  const value = agentsDir.trim()
+  if (/\.(json|ya?ml)$/i.test(value) && isFile(value)) {
+    return readLayersFile(path.resolve(value))
+  }
+
+  return value
+    .split(path.delimiter)
+    .map((directory) => directory.trim())
+    .filter((directory) => directory.length > 0)
+    .map((directory) => ({ name: directory, directory: expandHome(directory) }))
+}
+
+/**
+ * Read the layers declared in a JSON or YAML file.
+ *
+ * @param filePath - Absolute path to the layers file
+ * @returns Layers in file order
+ * @throws {AppError} When the file cannot be read or is invalid
+ */
+function readLayersFile(filePath: string): AgentLayer[] {
+  let parsed: unknown
+  try {
+    const content = fs.readFileSync(filePath, 'utf-8')
+    parsed = /\.ya?ml$/i.test(filePath) ? parseYaml(content) : JSON.parse(content)
+  } catch (error) {
+    throw new AppError(
+      `Failed to read agent layers ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      'AGENTS_CONFIG_INVALID'
+    )
+  }
+
+  const layers =
+    parsed && typeof parsed === 'object' ? (parsed as Record<string, unknown>)['layers'] : null
+  if (!Array.isArray(layers) || layers.length === 0) {
+    throw new AppError(
+      `Invalid agent layers ${filePath}: expected a non-empty 'layers' list`,
+      'AGENTS_CONFIG_INVALID'
+    )
+  }
+
+  return layers.map((entry: unknown, index) => {
+    const declaration =
+      typeof entry === 'string' ? { path: entry } : (entry as Record<string, unknown> | null)
+    const layerPath = declaration?.['path']
+    const name = declaration?.['name']
+    if (typeof layerPath !== 'string' || layerPath.trim() === '') {
+      throw new AppError(
+        `Invalid agent layer ${index + 1} in ${filePath}: expected a 'path'`,
+        'AGENTS_CONFIG_INVALID'
+      )
+    }
+    if (name !== undefined && (typeof name !== 'string' || name.trim() === '')) {
+      throw new AppError(
+        `Invalid agent layer ${index + 1} in ${filePath}: 'name' must be a non-empty string`,
+        'AGENTS_CONFIG_INVALID'
+      )
+    }
+
+    const directory = path.resolve(path.dirname(filePath), expandHome(layerPath.trim()))
+    return { name: typeof name === 'string' ? name.trim() : directory, directory }
+  })
+}
+
+/**
+ * Expand a leading '~' to the home directory of the current user.
+ *
+ * @param directory - Directory path
+ * @returns Path with the home directory expanded
+ */
+function expandHome(directory: string): string {
+  if (directory === '~' || directory.startsWith('~/')) {
+    return path.join(os.homedir(), directory.slice(1))
+  }
+  return directory
+}
+
+/**
+ * Check if a path refers to an existing file.
+ *
+ * @param filePath - Path to check
+ * @returns True for existing files
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return fs.statSync(filePath).isFile()
+  } catch {
+    return false
+  }
+}
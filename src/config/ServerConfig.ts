@@ -1,3 +1,9 @@
+import path from 'node:path'
+import { DEFAULT_PROJECT_AGENTS_DIRS } from 'src/agents/ProjectAgents'
+import { resolveAgentLayers } from 'src/config/AgentLayers'
+import type { AgentLayer } from 'src/types/AgentLayer'
+import type { AgentType } from 'src/types/AgentType'
+
 /**
  * Server configuration management class.
  *
@@ -7,9 +13,30 @@
  * Environment variables:
  * - SERVER_NAME: Name identifier for the MCP server (default: 'sub-agents-mcp-server')
  * - SERVER_VERSION: Version of the MCP server (default: '1.0.0')
- * - AGENTS_DIR: Directory containing agent definition files (REQUIRED - must be absolute path)
- * - AGENT_TYPE: Type of agent to use ('cursor' | 'claude') (default: 'cursor')
+ * - AGENTS_DIR: Directory containing agent definition files (REQUIRED - must be absolute path).
+ *   Also accepts a path delimited list of directories, or a JSON/YAML file listing them,
+ *   where later directories override agents with the same name in earlier ones
+ * - AGENTS_IGNORE: Comma separated glob patterns of files and folders in AGENTS_DIR to skip
+ * - PROJECT_AGENTS_DIRS: Comma separated folders searched for agents in the client's
+ *   workspace roots (default: '.claude/agents,.cursor/agents')
+ * - AGENT_TYPE: Type of agent to use, any registered backend (default: 'cursor')
  * - LOG_LEVEL: Log level for server operations (default: 'info')
+ * - TRANSPORT: Transport used to serve MCP ('stdio' | 'http') (default: 'stdio')
+ * - HTTP_HOST: Host to bind when TRANSPORT is 'http' (default: '127.0.0.1')
+ * - HTTP_PORT: Port to listen on when TRANSPORT is 'http' (default: 3000)
+ * - HTTP_SESSION_TIMEOUT_MS: Time after which an idle HTTP session is closed
+ *   (default: 1800000, 0 keeps sessions until the client ends them)
+ * - HTTP_AUTH_TOKEN: Bearer token HTTP clients must send; required when HTTP_HOST is not
+ *   a loopback address
+ * - BACKENDS_CONFIG: Path to a JSON or YAML file registering additional backends
+ *   (default: backends.json/.yaml/.yml next to AGENTS_DIR, if present)
+ * - MAX_CONCURRENT_AGENTS: Maximum number of agents running at once; further calls
+ *   wait in a queue (default: 0 = unlimited)
+ * - QUEUE_TIMEOUT_MS: Maximum time a call may wait in the queue (default: 300000,
+ *   0 waits indefinitely)
+ * - ALLOWED_ROOTS: Path delimited list of absolute directories agents may run in
+ *   (default: the client's workspace roots; when the client shares none or does not
+ *   support roots, calls are unrestricted and a warning is logged)
  */
 export class ServerConfig {
   /** Server name identifier used for MCP registration */
@@ -18,11 +45,20 @@ export class ServerConfig {
   /** Server version used for identification */
   public readonly serverVersion: string
 
-  /** Directory path containing agent definition markdown files */
+  /** Directory path containing agent definition markdown files (the highest precedence layer) */
   public readonly agentsDir: string
 
+  /** Agent directories ordered from lowest to highest precedence */
+  public readonly agentLayers: AgentLayer[]
+
+  /** Glob patterns of files and folders in the agents directory to skip */
+  public readonly agentsIgnore: string[]
+
+  /** Folders searched for agents in the client's workspace roots, relative to each root */
+  public readonly projectAgentsDirs: string[]
+
   /** Type of agent to use for execution */
-  public readonly agentType: 'cursor' | 'claude' | 'gemini'
+  public readonly agentType: AgentType
 
   /** Log level for server operations */
   public readonly logLevel: 'debug' | 'info' | 'warn' | 'error'
@@ -30,18 +66,48 @@ export class ServerConfig {
   /** Maximum execution timeout in milliseconds for agent execution */
   public readonly executionTimeoutMs: number
 
+  /** Transport used to serve MCP */
+  public readonly transport: 'stdio' | 'http'
+
+  /** Host to bind the HTTP transport to */
+  public readonly httpHost: string
+
+  /** Port the HTTP transport listens on */
+  public readonly httpPort: number
+
+  /** Time in milliseconds after which an idle HTTP session is closed (0 for never) */
+  public readonly httpSessionTimeoutMs: number
+
+  /** Bearer token HTTP clients must send, if any */
+  public readonly httpAuthToken: string | undefined
+
+  /** Path to the backends configuration file, if any */
+  public readonly backendsConfig: string | undefined
+
+  /** Maximum number of concurrent agent executions (0 for unlimited) */
+  public readonly maxConcurrentAgents: number
+
+  /** Maximum time in milliseconds an execution may wait for a free slot */
+  public readonly queueTimeoutMs: number
+
+  /** Directories agents may run in; empty to use the client's workspace roots */
+  public readonly allowedRoots: string[]
+
   /**
    * Creates a new ServerConfig instance by loading values from environment variables
    * or using default values.
    * @throws {Error} When AGENTS_DIR environment variable is not set
+   * @throws {AppError} When AGENTS_DIR names an invalid layers file
+   * @throws {Error} When ALLOWED_ROOTS contains a relative path
    */
   constructor() {
     this.serverName = process.env['SERVER_NAME'] || 'sub-agents-mcp'
     this.serverVersion = process.env['SERVER_VERSION'] || '0.1.0'
 
     // AGENTS_DIR is required for MCP to work correctly
-    const agentsDir = process.env['AGENTS_DIR']
-    if (!agentsDir) {
+    const agentLayers = resolveAgentLayers(process.env['AGENTS_DIR'] ?? '')
+    const highestLayer = agentLayers[agentLayers.length - 1]
+    if (!highestLayer) {
       throw new Error(
         'AGENTS_DIR environment variable is required.\n' +
           'Please set it to an absolute path in your MCP configuration.\n' +
@@ -55,9 +121,21 @@ export class ServerConfig {
           '  }'
       )
     }
-    this.agentsDir = agentsDir
+    this.agentsDir = highestLayer.directory
+    this.agentLayers = agentLayers
+    this.agentsIgnore = (process.env['AGENTS_IGNORE'] ?? '')
+      .split(',')
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern.length > 0)
+
+    const projectAgentsDirs = (process.env['PROJECT_AGENTS_DIRS'] ?? '')
+      .split(',')
+      .map((directory) => directory.trim())
+      .filter((directory) => directory.length > 0)
+    this.projectAgentsDirs =
+      projectAgentsDirs.length > 0 ? projectAgentsDirs : DEFAULT_PROJECT_AGENTS_DIRS
 
-    this.agentType = (process.env['AGENT_TYPE'] as 'cursor' | 'claude' | 'gemini') || 'cursor'
+    this.agentType = process.env['AGENT_TYPE']?.trim() || 'cursor'
     this.logLevel = (process.env['LOG_LEVEL'] as 'debug' | 'info' | 'warn' | 'error') || 'info'
 
     const timeoutEnv = process.env['EXECUTION_TIMEOUT_MS']
@@ -67,5 +145,58 @@ export class ServerConfig {
     } else {
       this.executionTimeoutMs = 300000
     }
+
+    this.transport = process.env['TRANSPORT'] === 'http' ? 'http' : 'stdio'
+    this.httpHost = process.env['HTTP_HOST']?.trim() || '127.0.0.1'
+
+    const portEnv = process.env['HTTP_PORT']
+    if (portEnv?.trim()) {
+      const parsedPort = Number.parseInt(portEnv, 10)
+      this.httpPort = Number.isNaN(parsedPort) ? 3000 : parsedPort
+    } else {
+      this.httpPort = 3000
+    }
+
+    const sessionTimeoutEnv = process.env['HTTP_SESSION_TIMEOUT_MS']
+    if (sessionTimeoutEnv?.trim()) {
+      const parsedSessionTimeout = Number.parseInt(sessionTimeoutEnv, 10)
+      this.httpSessionTimeoutMs =
+        Number.isNaN(parsedSessionTimeout) || parsedSessionTimeout < 0
+          ? 1800000
+          : parsedSessionTimeout
+    } else {
+      this.httpSessionTimeoutMs = 1800000
+    }
+
+    this.httpAuthToken = process.env['HTTP_AUTH_TOKEN']?.trim() || undefined
+
+    this.backendsConfig = process.env['BACKENDS_CONFIG']?.trim() || undefined
+
+    const maxConcurrentEnv = process.env['MAX_CONCURRENT_AGENTS']
+    if (maxConcurrentEnv?.trim()) {
+      const parsedMaxConcurrent = Number.parseInt(maxConcurrentEnv, 10)
+      this.maxConcurrentAgents =
+        Number.isNaN(parsedMaxConcurrent) || parsedMaxConcurrent < 0 ? 0 : parsedMaxConcurrent
+    } else {
+      this.maxConcurrentAgents = 0
+    }
+
+    const queueTimeoutEnv = process.env['QUEUE_TIMEOUT_MS']
+    if (queueTimeoutEnv?.trim()) {
+      const parsedQueueTimeout = Number.parseInt(queueTimeoutEnv, 10)
+      this.queueTimeoutMs =
+        Number.isNaN(parsedQueueTimeout) || parsedQueueTimeout < 0 ? 300000 : parsedQueueTimeout
+    } else {
+      this.queueTimeoutMs = 300000
+    }
+
+    this.allowedRoots = (process.env['ALLOWED_ROOTS'] ?? '')
+      .split(path.delimiter)
+      .map((root) => root.trim())
+      .filter((root) => root.length > 0)
+    const relativeRoot = this.allowedRoots.find((root) => !path.isAbsolute(root))
+    if (relativeRoot !== undefined) {
+      throw new Error(`ALLOWED_ROOTS entries must be absolute paths, got '${relativeRoot}'`)
+    }
   }
 }
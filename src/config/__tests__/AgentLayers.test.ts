@@ -0,0 +1,70 @@
+import fs from 'node:fs'
+import os, { tmpdir } from 'node:os'
+import path from 'node:path'
+import { resolveAgentLayers } from 'src/config/AgentLayers'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('resolveAgentLayers', () => {
+  let testDir: string
+
+  beforeEach(() => {
+    testDir = fs.mkdtempSync(path.join(tmpdir(), 'agent-layers-test-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true })
+  })
+
+  it('should treat a single directory as one layer', () => {
+    expect(resolveAgentLayers('/agents')).toEqual([{ name: '/agents', directory: '/agents' }])
+  })
+
+  it('should split a path delimited list into layers, lowest precedence first', () => {
+    const value = ['/global/agents', ' /team/agents ', ''].join(path.delimiter)
+
+    expect(resolveAgentLayers(value)).toEqual([
+      { name: '/global/agents', directory: '/global/agents' },
+      { name: '/team/agents', directory: '/team/agents' },
+    ])
+  })
+
+  it('should expand ~ to the home directory', () => {
+    expect(resolveAgentLayers('~/.agents')).toEqual([
+      { name: '~/.agents', directory: path.join(os.homedir(), '.agents') },
+    ])
+  })
+
+  it('should read named layers from a YAML file relative to the file', () => {
+    const layersFile = path.join(testDir, 'agents.yaml')
+    fs.writeFileSync(
+      layersFile,
+      'layers:\n  - name: team\n    path: /shared/team-agents\n  - ./.agents\n'
+    )
+
+    expect(resolveAgentLayers(layersFile)).toEqual([
+      { name: 'team', directory: '/shared/team-agents' },
+      { name: path.join(testDir, '.agents'), directory: path.join(testDir, '.agents') },
+    ])
+  })
+
+  it('should read layers from a JSON file', () => {
+    const layersFile = path.join(testDir, 'agents.json')
+    fs.writeFileSync(layersFile, JSON.stringify({ layers: [{ name: 'global', path: '/agents' }] }))
+
+    expect(resolveAgentLayers(layersFile)).toEqual([{ name: 'global', directory: '/agents' }])
+  })
+
+  it('should reject layers files without layers', () => {
+    const layersFile = path.join(testDir, 'agents.yaml')
+    fs.writeFileSync(layersFile, 'directories: []\n')
+
+    expect(() => resolveAgentLayers(layersFile)).toThrow("expected a non-empty 'layers' list")
+  })
+
+  it('should reject layers without a path', () => {
+    const layersFile = path.join(testDir, 'agents.yaml')
+    fs.writeFileSync(layersFile, 'layers:\n  - name: team\n')
+
+    expect(() => resolveAgentLayers(layersFile)).toThrow('Invalid agent layer 1 in')
+  })
+})
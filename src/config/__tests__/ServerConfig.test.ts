@@ -132,4 +132,191 @@ describe('ServerConfig', () => {
       }
     })
   })
+
+  describe('transport configuration', () => {
+    it('should default to stdio transport', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('TRANSPORT', undefined)
+
+      const config = new ServerConfig()
+
+      expect(config.transport).toBe('stdio')
+      expect(config.httpHost).toBe('127.0.0.1')
+      expect(config.httpPort).toBe(3000)
+      expect(config.httpSessionTimeoutMs).toBe(1800000)
+      expect(config.httpAuthToken).toBeUndefined()
+    })
+
+    it('should load HTTP transport settings from environment variables', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('TRANSPORT', 'http')
+      vi.stubEnv('HTTP_HOST', '0.0.0.0')
+      vi.stubEnv('HTTP_PORT', '8123')
+      vi.stubEnv('HTTP_SESSION_TIMEOUT_MS', '60000')
+      vi.stubEnv('HTTP_AUTH_TOKEN', ' secret ')
+
+      const config = new ServerConfig()
+
+      expect(config.transport).toBe('http')
+      expect(config.httpHost).toBe('0.0.0.0')
+      expect(config.httpPort).toBe(8123)
+      expect(config.httpSessionTimeoutMs).toBe(60000)
+      expect(config.httpAuthToken).toBe('secret')
+    })
+
+    it('should fall back to defaults for unknown transport and invalid port', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('TRANSPORT', 'websocket')
+      vi.stubEnv('HTTP_PORT', 'not-a-port')
+      vi.stubEnv('HTTP_SESSION_TIMEOUT_MS', '-1')
+
+      const config = new ServerConfig()
+
+      expect(config.transport).toBe('stdio')
+      expect(config.httpPort).toBe(3000)
+      expect(config.httpSessionTimeoutMs).toBe(1800000)
+    })
+  })
+
+  describe('agents directory', () => {
+    it('should use a single AGENTS_DIR as the only layer', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+
+      expect(new ServerConfig().agentLayers).toEqual([
+        { name: testAgentsDir, directory: testAgentsDir },
+      ])
+    })
+
+    it('should read layered directories with the last one as agentsDir', () => {
+      const projectDir = path.join(testAgentsDir, '.agents')
+      vi.stubEnv('AGENTS_DIR', [testAgentsDir, projectDir].join(path.delimiter))
+
+      const config = new ServerConfig()
+
+      expect(config.agentLayers.map((layer) => layer.directory)).toEqual([
+        testAgentsDir,
+        projectDir,
+      ])
+      expect(config.agentsDir).toBe(projectDir)
+    })
+
+    it('should read ignore globs from AGENTS_IGNORE', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('AGENTS_IGNORE', 'drafts/**, *.txt,,')
+
+      expect(new ServerConfig().agentsIgnore).toEqual(['drafts/**', '*.txt'])
+    })
+
+    it('should search .claude/agents and .cursor/agents in workspace roots by default', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('PROJECT_AGENTS_DIRS', '')
+
+      expect(new ServerConfig().projectAgentsDirs).toEqual(['.claude/agents', '.cursor/agents'])
+    })
+
+    it('should read project agent folders from PROJECT_AGENTS_DIRS', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('PROJECT_AGENTS_DIRS', 'agents, tools/agents')
+
+      expect(new ServerConfig().projectAgentsDirs).toEqual(['agents', 'tools/agents'])
+    })
+
+    it('should ignore nothing when AGENTS_IGNORE is not set', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('AGENTS_IGNORE', '')
+
+      expect(new ServerConfig().agentsIgnore).toEqual([])
+    })
+  })
+
+  describe('allowed roots', () => {
+    afterEach(() => {
+      vi.unstubAllEnvs()
+    })
+
+    it('should default to no allowed roots', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('ALLOWED_ROOTS', '')
+
+      expect(new ServerConfig().allowedRoots).toEqual([])
+    })
+
+    it('should read absolute directories from ALLOWED_ROOTS', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('ALLOWED_ROOTS', ['/work/app', '/work/lib'].join(path.delimiter))
+
+      expect(new ServerConfig().allowedRoots).toEqual(['/work/app', '/work/lib'])
+    })
+
+    it('should throw error when ALLOWED_ROOTS contains a relative path', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('ALLOWED_ROOTS', ['/work/app', 'lib'].join(path.delimiter))
+
+      expect(() => new ServerConfig()).toThrow(
+        "ALLOWED_ROOTS entries must be absolute paths, got 'lib'"
+      )
+    })
+  })
+
+  describe('backend configuration', () => {
+    it('should read the backends config path from BACKENDS_CONFIG', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('AGENT_TYPE', 'codex')
+      vi.stubEnv('BACKENDS_CONFIG', '/etc/sub-agents/backends.json')
+
+      const config = new ServerConfig()
+
+      expect(config.agentType).toBe('codex')
+      expect(config.backendsConfig).toBe('/etc/sub-agents/backends.json')
+    })
+
+    it('should leave backendsConfig undefined when not set', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('BACKENDS_CONFIG', '')
+
+      expect(new ServerConfig().backendsConfig).toBeUndefined()
+    })
+  })
+
+  describe('concurrency configuration', () => {
+    it('should default to unlimited concurrency and a 5 minute queue timeout', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('MAX_CONCURRENT_AGENTS', '')
+      vi.stubEnv('QUEUE_TIMEOUT_MS', '')
+
+      const config = new ServerConfig()
+
+      expect(config.maxConcurrentAgents).toBe(0)
+      expect(config.queueTimeoutMs).toBe(300000)
+    })
+
+    it('should read MAX_CONCURRENT_AGENTS and QUEUE_TIMEOUT_MS', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('MAX_CONCURRENT_AGENTS', '3')
+      vi.stubEnv('QUEUE_TIMEOUT_MS', '60000')
+
+      const config = new ServerConfig()
+
+      expect(config.maxConcurrentAgents).toBe(3)
+      expect(config.queueTimeoutMs).toBe(60000)
+    })
+
+    it('should fall back to unlimited concurrency for invalid values', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('MAX_CONCURRENT_AGENTS', 'many')
+
+      expect(new ServerConfig().maxConcurrentAgents).toBe(0)
+    })
+
+    it('should fall back to the default queue timeout for invalid or negative values', () => {
+      vi.stubEnv('AGENTS_DIR', testAgentsDir)
+      vi.stubEnv('QUEUE_TIMEOUT_MS', '-1')
+
+      expect(new ServerConfig().queueTimeoutMs).toBe(300000)
+
+      vi.stubEnv('QUEUE_TIMEOUT_MS', 'soon')
+
+      expect(new ServerConfig().queueTimeoutMs).toBe(300000)
+    })
+  })
 })
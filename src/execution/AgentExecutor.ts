@@ -1,7 +1,24 @@
 import { type ChildProcess, spawn } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import {
+  type BackendAdapter,
+  type BackendCommand,
+  type OutputParser,
+  isSuccessfulRun,
+} from 'src/backends/BackendAdapter'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
+import type { ExtractedResult } from 'src/backends/ResultExtractor'
+import type { IsolationMode } from 'src/types/AgentDefinition'
+import type { AgentType } from 'src/types/AgentType'
 import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { AppError } from 'src/utils/ErrorHandler'
 import { type LogLevel, Logger } from 'src/utils/Logger'
+import { type ChangeReport, ChangeTracker, type WorkspaceSnapshot } from './ChangeTracker'
+import { ExecutionQueue, type ReleaseSlot } from './ExecutionQueue'
 import { StreamProcessor } from './StreamProcessor'
+import { type IsolatedWorktree, WorktreeIsolation } from './WorktreeIsolation'
 
 /**
  * Detailed execution result that includes performance metrics and method information.
@@ -43,6 +60,35 @@ export interface AgentExecutionResult {
    * Contains the structured response data when hasResult is true.
    */
   resultJson?: unknown
+
+  /**
+   * Final answer text, error and token usage read by the backend's result extractor.
+   */
+  extractedResult?: ExtractedResult
+
+  /**
+   * Whether the execution was cancelled through the abort signal.
+   * The agent process group is terminated when this is true.
+   */
+  cancelled?: boolean
+
+  /**
+   * Whether the backend considers the execution successful.
+   * Decided by the backend adapter; absent when the execution failed before spawning.
+   */
+  success?: boolean
+
+  /**
+   * Backend session id reported by the agent, usable to resume the conversation.
+   */
+  sessionId?: string
+
+  /**
+   * Files the run created, modified or deleted in its working directory.
+   * Present when change tracking was requested and the snapshots succeeded,
+   * and for isolated runs, whose changes are held on `changes.branch`.
+   */
+  changes?: ChangeReport
 }
 
 /**
@@ -57,24 +103,133 @@ export interface ExecutionConfig {
 
   /**
    * Type of agent to use for execution.
-   * 'cursor' or 'claude' or 'gemini'
+   * Name of a backend registered in the BackendRegistry (e.g. 'cursor', 'claude', 'gemini')
+   */
+  agentType: AgentType
+
+  /**
+   * Maximum number of agent processes running at once; further executions wait in a FIFO queue.
+   * Default: 0 (unlimited)
+   */
+  maxConcurrent: number
+
+  /**
+   * Maximum time in milliseconds an execution may wait in the queue before it fails.
+   * Default: 5 minutes (300000ms)
+   */
+  queueTimeout: number
+}
+
+/**
+ * Snapshot of a running agent execution, reported while the process runs.
+ */
+export interface ExecutionProgress {
+  /**
+   * Milliseconds elapsed since the execution was requested, including time spent queued.
+   * Increases with every report, so it can serve as the MCP progress value.
+   */
+  elapsedMs: number
+
+  /**
+   * 1-based position in the execution queue while waiting for a free slot.
+   * Absent once the agent process is running.
+   */
+  queuePosition?: number
+
+  /**
+   * Number of stdout bytes received from the agent so far.
+   */
+  bytesReceived: number
+
+  /**
+   * Number of stream-json events received from the agent so far.
+   */
+  eventCount: number
+
+  /**
+   * Most recent assistant message text, when the backend streamed one.
+   */
+  lastMessage?: string
+}
+
+/**
+ * Per-call options for agent execution.
+ */
+export interface ExecutionOptions {
+  /**
+   * Callback invoked periodically with progress while the agent runs.
+   */
+  onProgress?: (progress: ExecutionProgress) => void
+
+  /**
+   * Signal that cancels the execution and terminates the agent process group.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Name of the executed agent, used for its concurrency limit.
+   */
+  agentName?: string
+
+  /**
+   * Maximum number of concurrent executions of this agent.
+   */
+  maxConcurrent?: number
+
+  /**
+   * Report the files the run changed in its working directory.
+   */
+  trackChanges?: boolean
+
+  /**
+   * Include the unified diff of the changes when tracking them in a git worktree.
+   */
+  includeDiff?: boolean
+
+  /**
+   * Run in a temporary git worktree of the working directory instead of in place.
+   * Default: 'none'
    */
-  agentType: 'cursor' | 'claude' | 'gemini'
+  isolation?: IsolationMode
 }
 
 export const DEFAULT_EXECUTION_TIMEOUT = 300000 // 5 minutes
 
+export const DEFAULT_QUEUE_TIMEOUT = 300000 // 5 minutes
+
+/**
+ * Interval in milliseconds between progress reports of a running agent.
+ */
+export const PROGRESS_INTERVAL_MS = 1000
+
+/**
+ * Grace period in milliseconds before a terminated agent process group is killed.
+ */
+export const KILL_GRACE_PERIOD_MS = 5000
+
+/**
+ * Exit code reported for cancelled executions (128 + SIGINT).
+ */
+export const CANCELLED_EXIT_CODE = 130
+
+/**
+ * Prefix of the private temp directories holding prompt files.
+ */
+const PROMPT_FILE_DIR_PREFIX = 'sub-agents-prompt-'
+
 /**
  * Creates a complete ExecutionConfig with the provided agent type.
  * @param agentType - The type of agent to use
  * @param overrides - Optional overrides for thresholds
  */
 export function createExecutionConfig(
-  agentType: 'cursor' | 'claude' | 'gemini',
+  agentType: AgentType,
   overrides?: Partial<Omit<ExecutionConfig, 'agentType'>>
 ): ExecutionConfig {
   return {
     executionTimeout: DEFAULT_EXECUTION_TIMEOUT,
+    maxConcurrent: 0,
+    queueTimeout: DEFAULT_QUEUE_TIMEOUT,
     ...overrides,
     agentType,
   }
@@ -88,15 +243,24 @@ export function createExecutionConfig(
 export class AgentExecutor {
   private readonly config: ExecutionConfig
   private readonly logger: Logger
+  private readonly backends: BackendRegistry
+  private readonly queue: ExecutionQueue
+  private readonly changeTracker = new ChangeTracker()
+  private readonly worktrees = new WorktreeIsolation()
+  /** Agent processes that have not exited yet, each leading its own process group */
+  private readonly runningProcesses = new Set<ChildProcess>()
 
   /**
    * Creates a new AgentExecutor instance.
    *
    * @param config - Execution configuration including CLI command and thresholds
    * @param logger - Optional Logger instance for structured logging
+   * @param backends - Backend registry used to resolve agent types (defaults to built-ins)
    */
-  constructor(config: ExecutionConfig, logger?: Logger) {
+  constructor(config: ExecutionConfig, logger?: Logger, backends?: BackendRegistry) {
     this.config = config
+    this.backends = backends || BackendRegistry.withBuiltins()
+    this.queue = new ExecutionQueue(config.maxConcurrent, config.queueTimeout)
     // Use provided logger or create new one with LOG_LEVEL env var
     this.logger = logger || new Logger((process.env['LOG_LEVEL'] as LogLevel) || 'info')
   }
@@ -108,6 +272,7 @@ export class AgentExecutor {
    * handling and streaming. It includes comprehensive performance monitoring.
    *
    * @param params - Execution parameters including agent name, prompt, and options
+   * @param options - Optional per-call options such as a progress callback
    * @returns Promise resolving to detailed execution result with performance metrics
    * @throws {Error} When agent execution fails or parameters are invalid
    *
@@ -122,7 +287,10 @@ export class AgentExecutor {
    * console.log(`Execution took ${result.executionTime}ms using ${result.executionMethod}`)
    * ```
    */
-  async executeAgent(params: ExecutionParams): Promise<AgentExecutionResult> {
+  async executeAgent(
+    params: ExecutionParams,
+    options: ExecutionOptions = {}
+  ): Promise<AgentExecutionResult> {
     // Input validation
     if (!params || !params.agent || !params.prompt) {
       const error = 'Invalid execution parameters: agent and prompt are required'
@@ -153,27 +321,84 @@ export class AgentExecutor {
       // Add minimal delay to ensure execution time is measurable
       await new Promise((resolve) => setTimeout(resolve, 1))
 
-      // Use spawn method for proper TTY handling
-
-      // Execute using spawn for proper TTY handling
-      const result = await this.executeWithSpawn(params)
+      // Wait for a free execution slot
+      const release = await this.acquireSlot(params, options, startTime, requestId)
+      if (!release) {
+        return {
+          stdout: '',
+          stderr: 'Execution cancelled',
+          exitCode: CANCELLED_EXIT_CODE,
+          executionTime: Date.now() - startTime,
+          hasResult: false,
+          cancelled: true,
+        }
+      }
 
-      const executionTime = Date.now() - startTime
+      // Isolated runs work in a temporary worktree and report its changes as a branch
+      let worktree: IsolatedWorktree | null = null
+      if (options.isolation === 'worktree') {
+        try {
+          worktree = await this.worktrees.create(params.cwd || process.cwd(), requestId)
+        } catch (error) {
+          release()
+          throw error
+        }
+        this.logger.info('Agent execution isolated in a worktree', {
+          requestId,
+          worktree: worktree.path,
+          branch: worktree.branch,
+        })
+      }
 
-      this.logger.info('Agent execution completed', {
-        requestId,
-        exitCode: result.exitCode,
-        executionTime,
-        hasResult: result.hasResult,
-      })
+      // Once finishing starts the worktree is removed or deliberately kept; before that
+      // a failed run must not leave it behind
+      let worktreeFinished = false
+      try {
+        // Record the working directory so the files changed by the run can be reported
+        const snapshot =
+          !worktree && options.trackChanges ? await this.snapshotWorkspace(params, requestId) : null
+
+        // Execute using spawn for proper TTY handling
+        const result = await this.executeWithSpawn(
+          worktree ? { ...params, cwd: worktree.cwd } : params,
+          options,
+          startTime
+        ).finally(release)
+
+        worktreeFinished = true
+        const changes = worktree
+          ? await this.finishWorktree(worktree, options.includeDiff, requestId)
+          : snapshot
+            ? await this.compareWorkspace(snapshot, options.includeDiff, requestId)
+            : undefined
+
+        const executionTime = Date.now() - startTime
+
+        this.logger.info('Agent execution completed', {
+          requestId,
+          exitCode: result.exitCode,
+          executionTime,
+          hasResult: result.hasResult,
+          cancelled: result.cancelled || false,
+        })
 
-      return {
-        stdout: result.stdout,
-        stderr: result.stderr,
-        exitCode: result.exitCode,
-        executionTime,
-        ...(result.hasResult !== undefined && { hasResult: result.hasResult }),
-        ...(result.resultJson !== undefined && { resultJson: result.resultJson }),
+        return {
+          stdout: result.stdout,
+          stderr: result.stderr,
+          exitCode: result.exitCode,
+          executionTime,
+          ...(result.hasResult !== undefined && { hasResult: result.hasResult }),
+          ...(result.resultJson !== undefined && { resultJson: result.resultJson }),
+          ...(result.extractedResult && { extractedResult: result.extractedResult }),
+          ...(result.cancelled && { cancelled: true }),
+          ...(result.success !== undefined && { success: result.success }),
+          ...(result.sessionId && { sessionId: result.sessionId }),
+          ...(changes && { changes }),
+        }
+      } finally {
+        if (worktree && !worktreeFinished) {
+          await this.removeWorktree(worktree, requestId)
+        }
       }
     } catch (error) {
       const executionTime = Date.now() - startTime
@@ -204,73 +429,178 @@ export class AgentExecutor {
   }
 
   /**
-   * Constructs the command and arguments for the specific agent type.
+   * Waits for a free slot in the execution queue, reporting the queue position as progress.
    *
    * @private
    * @param params - Execution parameters
-   * @param agentType - Resolved agent type
-   * @returns Object containing command and arguments array
+   * @param options - Per-call options with the agent concurrency limit
+   * @param startTime - Time the execution was requested
+   * @param requestId - Request id for logging
+   * @returns Function releasing the slot, or null if cancelled while queued
+   * @throws {AppError} When the execution waited longer than the queue timeout
    */
-  private buildCommand(
+  private async acquireSlot(
     params: ExecutionParams,
-    agentType: 'cursor' | 'claude' | 'gemini'
-  ): { command: string; args: string[] } {
-    const formattedPrompt = `[System Context]\n${params.agent}\n\n[User Prompt]\n${params.prompt}`
-    const args: string[] = []
-    let command: string
-
-    switch (agentType) {
-      case 'gemini':
-        command = 'gemini'
-        // Gemini uses positional argument for prompt
-        args.push(formattedPrompt)
-        args.push('--output-format', 'json')
-
-        if (params.tools && params.tools.length > 0) {
-          args.push('--allowed-tools', params.tools.join(','))
-        }
-
-        if (params.autoApprovalMode) {
-          args.push('--approval-mode', 'yolo')
-        }
-        break
-
-      case 'claude':
-        command = 'claude'
-        args.push('--output-format', 'json', '-p', formattedPrompt)
-
-        if (params.tools && params.tools.length > 0) {
-          args.push('--tools', params.tools.join(','))
-        }
+    options: ExecutionOptions,
+    startTime: number,
+    requestId: string
+  ): Promise<ReleaseSlot | null> {
+    const backend = params.agentType || this.config.agentType
+    const { onProgress } = options
+
+    // Keep reporting the current position so clients see the call is alive
+    let queuePosition: number | null = null
+    let queueInterval: NodeJS.Timeout | null = null
+    const reportPosition = () => {
+      if (queuePosition !== null) {
+        onProgress?.({
+          elapsedMs: Date.now() - startTime,
+          bytesReceived: 0,
+          eventCount: 0,
+          queuePosition,
+        })
+      }
+    }
 
-        if (params.autoApprovalMode) {
-          args.push('--dangerously-skip-permissions')
-        }
-        break
+    try {
+      return await this.queue.acquire({
+        backend,
+        agent: options.agentName ?? params.agent,
+        backendLimit: this.backends.getConcurrencyLimit(backend),
+        agentLimit: options.maxConcurrent,
+        signal: options.signal,
+        onQueued: (position) => {
+          if (queuePosition === null) {
+            this.logger.info('Agent execution queued', { requestId, backend, position })
+            queueInterval = setInterval(reportPosition, PROGRESS_INTERVAL_MS)
+          }
+          queuePosition = position
+          reportPosition()
+        },
+      })
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'QUEUE_CANCELLED') {
+        return null
+      }
+      throw error
+    } finally {
+      if (queueInterval) {
+        clearInterval(queueInterval)
+      }
+    }
+  }
 
-      default:
-        command = 'cursor-agent'
-        args.push('--output-format', 'json', '-p', formattedPrompt)
-        if (process.env['CLI_API_KEY']) {
-          args.push('-a', process.env['CLI_API_KEY'])
-        }
+  /**
+   * Records the state of the working directory before the agent runs.
+   * Tracking is best effort: failures are logged and the run proceeds untracked.
+   *
+   * @private
+   * @param params - Execution parameters with the working directory
+   * @param requestId - Request id for logging
+   * @returns Snapshot, or null if the directory could not be recorded
+   */
+  private async snapshotWorkspace(
+    params: ExecutionParams,
+    requestId: string
+  ): Promise<WorkspaceSnapshot | null> {
+    try {
+      return await this.changeTracker.snapshot(params.cwd || process.cwd())
+    } catch (error) {
+      this.logger.warn('Failed to snapshot working directory; changes are not tracked', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return null
+    }
+  }
 
-        if (params.autoApprovalMode) {
-          args.push('-f')
-        }
-        break
+  /**
+   * Compares the working directory with the snapshot taken before the run.
+   *
+   * @private
+   * @param snapshot - Snapshot taken before the run
+   * @param includeDiff - Whether to include the unified diff
+   * @param requestId - Request id for logging
+   * @returns Change report, or undefined if the comparison failed
+   */
+  private async compareWorkspace(
+    snapshot: WorkspaceSnapshot,
+    includeDiff: boolean | undefined,
+    requestId: string
+  ): Promise<ChangeReport | undefined> {
+    try {
+      return await this.changeTracker.compare(snapshot, includeDiff)
+    } catch (error) {
+      this.logger.warn('Failed to compare working directory; changes are not reported', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return undefined
     }
+  }
 
-    // Common optional parameters
-    if (params.model) {
-      args.push('--model', params.model)
+  /**
+   * Records the changes of an isolated run on its branch and removes the worktree.
+   * On failure the worktree is kept and its path logged so the changes can be recovered.
+   *
+   * @private
+   * @param worktree - Worktree of the run
+   * @param includeDiff - Whether to include the unified diff
+   * @param requestId - Request id for logging
+   * @returns Change report with the branch, or undefined if recording failed
+   */
+  private async finishWorktree(
+    worktree: IsolatedWorktree,
+    includeDiff: boolean | undefined,
+    requestId: string
+  ): Promise<ChangeReport | undefined> {
+    try {
+      return await this.worktrees.finish(worktree, includeDiff)
+    } catch (error) {
+      this.logger.error(
+        'Failed to record the changes of an isolated run; the worktree is kept',
+        error instanceof Error ? error : undefined,
+        { requestId, worktree: worktree.path }
+      )
+      return undefined
     }
+  }
 
-    if (params.extra_args) {
-      args.push(...params.extra_args)
+  /**
+   * Removes the worktree of a run that failed before its changes were recorded.
+   *
+   * @private
+   * @param worktree - Worktree of the run
+   * @param requestId - Request ID for logging
+   */
+  private async removeWorktree(worktree: IsolatedWorktree, requestId: string): Promise<void> {
+    try {
+      await this.worktrees.remove(worktree)
+    } catch (error) {
+      this.logger.warn('Failed to remove the worktree of a failed run', {
+        requestId,
+        worktree: worktree.path,
+        error: error instanceof Error ? error.message : String(error),
+      })
     }
+  }
 
-    return { command, args }
+  /**
+   * Resolves the backend adapter for an agent type.
+   *
+   * @private
+   * @param agentType - Resolved agent type
+   * @returns Backend adapter registered for the agent type
+   * @throws {Error} When no backend is registered for the agent type
+   */
+  private resolveBackend(agentType: AgentType): BackendAdapter {
+    const backend = this.backends.get(agentType)
+    if (!backend) {
+      throw new Error(
+        `Unknown agent type '${agentType}'. Registered backends: ${this.backends.names().join(', ')}`
+      )
+    }
+    return backend
   }
 
   /**
@@ -278,52 +608,171 @@ export class AgentExecutor {
    *
    * @private
    * @param params - Execution parameters
+   * @param options - Per-call options such as a progress callback
+   * @param startTime - Time the execution was requested, the base of reported progress
    * @returns Promise resolving to execution result
    */
-  private async executeWithSpawn(params: ExecutionParams): Promise<{
+  private async executeWithSpawn(
+    params: ExecutionParams,
+    options: ExecutionOptions,
+    startTime: number
+  ): Promise<{
     stdout: string
     stderr: string
     exitCode: number
     hasResult?: boolean
     resultJson?: unknown
+    extractedResult?: ExtractedResult
+    cancelled?: boolean
+    success?: boolean
+    sessionId?: string
   }> {
+    // Determine agent type (params override > config)
+    const effectiveAgentType = params.agentType || this.config.agentType
+    const backend = this.resolveBackend(effectiveAgentType)
+
     return new Promise((resolve) => {
-      // Determine agent type (params override > config)
-      const effectiveAgentType = params.agentType || this.config.agentType
+      const { signal } = options
 
-      // Build command and arguments using the refactored strategy
-      const { command, args } = this.buildCommand(params, effectiveAgentType)
+      // Do not spawn anything for requests cancelled before execution started
+      if (signal?.aborted) {
+        resolve({
+          stdout: '',
+          stderr: 'Execution cancelled',
+          exitCode: CANCELLED_EXIT_CODE,
+          hasResult: false,
+          cancelled: true,
+        })
+        return
+      }
+
+      // Reserve a prompt file in a private (0700) temp directory for file delivery
+      const promptDelivery = backend.promptDelivery ?? 'argv'
+      const promptDir =
+        promptDelivery === 'file'
+          ? fs.mkdtempSync(path.join(os.tmpdir(), PROMPT_FILE_DIR_PREFIX))
+          : null
+      const promptFile = promptDir ? path.join(promptDir, 'prompt.txt') : undefined
+      const removePromptFile = () => {
+        if (promptDir) {
+          fs.rmSync(promptDir, { recursive: true, force: true })
+        }
+      }
+
+      // Build command and arguments through the backend adapter
+      let backendCommand: BackendCommand
+      try {
+        backendCommand = backend.buildCommand(params, promptFile ? { promptFile } : {})
+        if (promptFile) {
+          fs.writeFileSync(promptFile, backendCommand.input ?? '', { mode: 0o600 })
+        }
+      } catch (error) {
+        removePromptFile()
+        throw error
+      }
+      const { command, args, input } = backendCommand
 
       this.logger.debug('Executing with spawn', {
         command,
         agentType: effectiveAgentType,
+        promptDelivery,
         model: params.model,
         cwd: params.cwd || process.cwd(),
         argsLength: args.length,
       })
 
-      // Spawn process
+      // Spawn process as leader of its own process group so that everything
+      // the CLI starts can be terminated together
       const childProcess: ChildProcess = spawn(command, args, {
         cwd: params.cwd || process.cwd(),
-        stdio: ['ignore', 'pipe', 'pipe'], // stdin set to 'ignore' as cursor-agent receives prompt via args
+        stdio: [promptDelivery === 'stdin' ? 'pipe' : 'ignore', 'pipe', 'pipe'],
         shell: false,
         env: process.env,
+        detached: true,
       })
+      this.runningProcesses.add(childProcess)
+
+      if (promptDelivery === 'stdin') {
+        // The CLI may exit without reading its whole input (EPIPE)
+        childProcess.stdin?.on('error', (error: Error) => {
+          this.logger.debug('Failed to write prompt to agent stdin', { error: error.message })
+        })
+        childProcess.stdin?.end(input ?? '')
+      }
 
-      // Initialize stream processor and buffers
-      const streamProcessor = new StreamProcessor()
+      // Initialize output parser and buffers
+      const streamProcessor: OutputParser = backend.createOutputParser?.() ?? new StreamProcessor()
+      const sessionFields = () => {
+        const sessionId = streamProcessor.getSessionId?.()
+        return sessionId ? { sessionId } : {}
+      }
+      const extractedFields = () => {
+        const extractedResult = streamProcessor.getExtractedResult?.()
+        return extractedResult ? { extractedResult } : {}
+      }
       let stdout = ''
       let stderr = ''
       let stdoutBuffer = ''
+      let bytesReceived = 0
+
+      // Report progress periodically while the process runs
+      const { onProgress } = options
+      const progressInterval = onProgress
+        ? setInterval(() => {
+            const lastMessage = streamProcessor.getLastAssistantMessage()
+            onProgress({
+              elapsedMs: Date.now() - startTime,
+              bytesReceived,
+              eventCount: streamProcessor.getEventCount(),
+              ...(lastMessage !== null && { lastMessage }),
+            })
+          }, PROGRESS_INTERVAL_MS)
+        : null
+      const stopProgress = () => {
+        if (progressInterval) {
+          clearInterval(progressInterval)
+        }
+      }
+
+      // Terminate the whole process group, killing it if it outlives the grace period
+      let killTimer: NodeJS.Timeout | null = null
+      const terminate = () => {
+        this.terminateProcessGroup(childProcess, 'SIGTERM')
+        killTimer = setTimeout(() => {
+          this.terminateProcessGroup(childProcess, 'SIGKILL')
+        }, KILL_GRACE_PERIOD_MS)
+      }
+
+      // Terminate the process group on cancellation
+      let cancelled = false
+      const onAbort = () => {
+        cancelled = true
+        this.logger.info('Agent execution cancelled, terminating process group', {
+          pid: childProcess.pid,
+        })
+        stopProgress()
+        terminate()
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+      const cleanup = () => {
+        clearTimeout(executionTimeout)
+        stopProgress()
+        signal?.removeEventListener('abort', onAbort)
+        if (killTimer) {
+          clearTimeout(killTimer)
+        }
+        removePromptFile()
+      }
 
-      // No need to handle stdin as it's set to 'ignore'
       const executionTimeout = setTimeout(() => {
         this.logger.warn('Execution timeout reached', {
           timeout: this.config.executionTimeout,
         })
-        childProcess.kill('SIGTERM')
+        cleanup()
+        terminate()
 
         // Get any result collected so far
+        streamProcessor.end?.()
         const result = streamProcessor.getResult()
         resolve({
           stdout: result ? JSON.stringify(result) : stdout,
@@ -331,12 +780,15 @@ export class AgentExecutor {
           exitCode: 124, // Standard timeout exit code
           hasResult: result !== null,
           resultJson: result !== null ? result : undefined,
+          ...extractedFields(),
+          ...sessionFields(),
         })
       }, this.config.executionTimeout)
 
       // Handle stdout stream with simplified processing
       childProcess.stdout?.on('data', (data: Buffer) => {
         const chunk = data.toString()
+        bytesReceived += data.length
         stdout += chunk
         stdoutBuffer += chunk
 
@@ -355,7 +807,7 @@ export class AgentExecutor {
               stdout = JSON.stringify(completeResult)
             }
             // Processing complete, kill the process
-            childProcess.kill('SIGTERM')
+            this.terminateProcessGroup(childProcess, 'SIGTERM')
             break
           }
         }
@@ -367,25 +819,54 @@ export class AgentExecutor {
       })
 
       childProcess.on('close', (code: number | null) => {
-        clearTimeout(executionTimeout)
+        this.runningProcesses.delete(childProcess)
+        cleanup()
+
+        // Process the last line when output did not end with a newline
+        if (stdoutBuffer && !streamProcessor.getResult()) {
+          streamProcessor.processLine(stdoutBuffer)
+        }
+        streamProcessor.end?.()
 
         // Get the final result JSON
         const result = streamProcessor.getResult()
 
-        resolve({
-          stdout: result ? JSON.stringify(result) : stdout,
-          stderr,
+        if (cancelled) {
+          resolve({
+            stdout: result ? JSON.stringify(result) : stdout,
+            stderr: stderr || 'Execution cancelled',
+            exitCode: CANCELLED_EXIT_CODE,
+            hasResult: result !== null,
+            resultJson: result !== null ? result : undefined,
+            cancelled: true,
+            ...extractedFields(),
+            ...sessionFields(),
+          })
+          return
+        }
+
+        const runResult = {
           exitCode: code || 0,
           hasResult: result !== null,
           resultJson: result !== null ? result : undefined,
+          ...extractedFields(),
+        }
+        resolve({
+          stdout: result ? JSON.stringify(result) : stdout,
+          stderr,
+          ...runResult,
+          success: backend.isSuccess?.(runResult) ?? isSuccessfulRun(runResult),
+          ...sessionFields(),
         })
       })
 
       // Handle process errors
       childProcess.on('error', (error: Error) => {
-        clearTimeout(executionTimeout)
+        this.runningProcesses.delete(childProcess)
+        cleanup()
 
         // Get any result collected before error
+        streamProcessor.end?.()
         const result = streamProcessor.getResult()
 
         resolve({
@@ -394,11 +875,64 @@ export class AgentExecutor {
           exitCode: 1,
           hasResult: result !== null,
           resultJson: result !== null ? result : undefined,
+          ...extractedFields(),
+          ...sessionFields(),
         })
       })
     })
   }
 
+  /**
+   * Terminates the process groups of all running agents, killing those that
+   * outlive the grace period. Agents run detached, so without this they would
+   * keep running after the server shuts down.
+   *
+   * @returns Promise resolving once every process exited or was killed
+   */
+  async terminateAll(): Promise<void> {
+    const running = Array.from(this.runningProcesses)
+    if (running.length > 0) {
+      this.logger.info('Terminating running agent processes', { count: running.length })
+    }
+
+    await Promise.all(
+      running.map(
+        (childProcess) =>
+          new Promise<void>((resolve) => {
+            const killTimer = setTimeout(() => {
+              this.terminateProcessGroup(childProcess, 'SIGKILL')
+              resolve()
+            }, KILL_GRACE_PERIOD_MS)
+            childProcess.once('close', () => {
+              clearTimeout(killTimer)
+              resolve()
+            })
+            this.terminateProcessGroup(childProcess, 'SIGTERM')
+          })
+      )
+    )
+  }
+
+  /**
+   * Sends a signal to the process group led by the agent process.
+   * Falls back to signalling only the child when the group cannot be reached.
+   *
+   * @private
+   * @param childProcess - Spawned agent process
+   * @param signal - Signal to send
+   */
+  private terminateProcessGroup(childProcess: ChildProcess, signal: NodeJS.Signals): void {
+    if (childProcess.pid !== undefined) {
+      try {
+        process.kill(-childProcess.pid, signal)
+        return
+      } catch {
+        // Process group already exited or is not available on this platform
+      }
+    }
+    childProcess.kill(signal)
+  }
+
   /**
    * Generates a unique request ID for tracking execution requests.
    *
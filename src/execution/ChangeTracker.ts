@@ -0,0 +1,328 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { findWorktreeRoot, getDirectoryPathspec, runGit, writeWorkingTree } from 'src/utils/Git'
+
+/**
+ * Maximum number of files recorded by the mtime scan of a directory outside git.
+ */
+export const MAX_SCANNED_FILES = 20000
+
+/**
+ * Maximum length of the returned unified diff in characters.
+ */
+export const MAX_DIFF_LENGTH = 1000000
+
+/**
+ * Directories skipped by the mtime scan.
+ */
+const SKIPPED_DIRECTORIES = ['.git', 'node_modules']
+
+/**
+ * How a file was changed by an agent run.
+ */
+export type FileChangeKind = 'created' | 'modified' | 'deleted'
+
+/**
+ * A file created, modified or deleted by an agent run.
+ */
+export interface FileChange {
+  /**
+   * Path relative to the report root, '/' separated.
+   */
+  path: string
+
+  /**
+   * Kind of change.
+   */
+  change: FileChangeKind
+}
+
+/**
+ * Files changed in the working directory of an agent run.
+ */
+export interface ChangeReport {
+  /**
+   * 'git' when the working directory is inside a git worktree, 'mtime' otherwise.
+   */
+  method: 'git' | 'mtime'
+
+  /**
+   * Directory the paths are relative to: the worktree root for git, the working directory otherwise.
+   */
+  root: string
+
+  /**
+   * Changed files, ordered by path.
+   */
+  files: FileChange[]
+
+  /**
+   * Whether the mtime scan stopped at MAX_SCANNED_FILES, so changes may be missing.
+   */
+  truncated?: boolean
+
+  /**
+   * Whether another tracked run used the same directory, or one containing or
+   * inside it, at the same time. Changes of overlapping runs cannot be told
+   * apart, so the report may include files changed by the other run.
+   */
+  overlapping?: boolean
+
+  /**
+   * Unified diff of the changes, when requested and tracked with git.
+   */
+  diff?: string
+
+  /**
+   * Branch holding the changes of a run isolated in a temporary worktree.
+   * The live worktree is unchanged until the branch is applied.
+   */
+  branch?: string
+}
+
+/**
+ * State of a working directory before an agent run.
+ * Git worktrees are recorded as a tree object of the non-ignored files below
+ * the working directory, other directories as the modification time and size of each file.
+ */
+export type WorkspaceSnapshot =
+  | { method: 'git'; root: string; tree: string; pathspec: string }
+  | { method: 'mtime'; root: string; files: Map<string, string>; truncated: boolean }
+
+/**
+ * ChangeTracker class reporting which files an agent run changed.
+ *
+ * Git worktrees are snapshotted with `git add -A` into a temporary copy of the
+ * index and `git write-tree`, limited to the working directory, so changes that
+ * were already uncommitted before the run are not attributed to the agent and
+ * commits made by the agent still show up. The real index and HEAD are never touched.
+ *
+ * Snapshots only see the files, not who changed them: runs tracked at the same
+ * time in overlapping directories are flagged with `overlapping` in their reports.
+ */
+export class ChangeTracker {
+  /** Snapshots not compared yet, with their directory and whether another run overlapped */
+  private readonly activeRuns = new Map<
+    WorkspaceSnapshot,
+    { directory: string; overlapping: boolean }
+  >()
+
+  /**
+   * Record the state of a working directory.
+   *
+   * @param cwd - Working directory of the agent run
+   * @returns Snapshot to compare after the run
+   * @throws {Error} When the directory cannot be read
+   */
+  async snapshot(cwd: string): Promise<WorkspaceSnapshot> {
+    const root = await findWorktreeRoot(cwd)
+    let snapshot: WorkspaceSnapshot
+    if (root) {
+      const pathspec = await getDirectoryPathspec(cwd)
+      snapshot = { method: 'git', root, tree: await writeWorkingTree(root, pathspec), pathspec }
+    } else {
+      const files = new Map<string, string>()
+      const truncated = await this.scan(cwd, '', files)
+      snapshot = { method: 'mtime', root: cwd, files, truncated }
+    }
+
+    const directory = path.resolve(cwd)
+    let overlapping = false
+    for (const run of this.activeRuns.values()) {
+      if (isSameOrNested(run.directory, directory)) {
+        run.overlapping = true
+        overlapping = true
+      }
+    }
+    this.activeRuns.set(snapshot, { directory, overlapping })
+    return snapshot
+  }
+
+  /**
+   * Compare the current state of a working directory with a snapshot.
+   *
+   * @param before - Snapshot taken before the run
+   * @param includeDiff - Whether to include the unified diff (git only)
+   * @returns Files created, modified or deleted since the snapshot
+   * @throws {Error} When the directory cannot be read
+   */
+  async compare(before: WorkspaceSnapshot, includeDiff = false): Promise<ChangeReport> {
+    const overlapping = this.activeRuns.get(before)?.overlapping ?? false
+    this.activeRuns.delete(before)
+    const report = await this.compareFiles(before, includeDiff)
+    return overlapping ? { ...report, overlapping: true } : report
+  }
+
+  /**
+   * Compare the files of a working directory with a snapshot.
+   *
+   * @private
+   * @param before - Snapshot taken before the run
+   * @param includeDiff - Whether to include the unified diff (git only)
+   * @returns Files created, modified or deleted since the snapshot
+   * @throws {Error} When the directory cannot be read
+   */
+  private async compareFiles(
+    before: WorkspaceSnapshot,
+    includeDiff: boolean
+  ): Promise<ChangeReport> {
+    if (before.method === 'git') {
+      return diffTrees(
+        before.root,
+        before.tree,
+        await writeWorkingTree(before.root, before.pathspec),
+        includeDiff,
+        before.pathspec
+      )
+    }
+
+    const after = new Map<string, string>()
+    const truncated = (await this.scan(before.root, '', after)) || before.truncated
+    const files: FileChange[] = []
+    for (const [filePath, state] of after) {
+      const previous = before.files.get(filePath)
+      if (previous === undefined) {
+        files.push({ path: filePath, change: 'created' })
+      } else if (previous !== state) {
+        files.push({ path: filePath, change: 'modified' })
+      }
+    }
+    for (const filePath of before.files.keys()) {
+      if (!after.has(filePath)) {
+        files.push({ path: filePath, change: 'deleted' })
+      }
+    }
+    files.sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0))
+
+    return { method: 'mtime', root: before.root, files, ...(truncated && { truncated: true }) }
+  }
+
+  /**
+   * Record the modification time and size of the files below a directory.
+   *
+   * @private
+   * @param root - Scanned directory
+   * @param relativeDir - Directory to read, relative to root
+   * @param files - Map receiving the state of each file by relative path
+   * @returns True if the scan stopped at MAX_SCANNED_FILES
+   */
+  private async scan(
+    root: string,
+    relativeDir: string,
+    files: Map<string, string>
+  ): Promise<boolean> {
+    const entries = await fs.promises.readdir(path.join(root, relativeDir), { withFileTypes: true })
+
+    for (const entry of entries) {
+      const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name
+      if (entry.isDirectory()) {
+        if (
+          !SKIPPED_DIRECTORIES.includes(entry.name) &&
+          (await this.scan(root, relativePath, files))
+        ) {
+          return true
+        }
+        continue
+      }
+      if (!entry.isFile()) {
+        continue
+      }
+      if (files.size >= MAX_SCANNED_FILES) {
+        return true
+      }
+
+      try {
+        const stats = await fs.promises.stat(path.join(root, relativePath))
+        files.set(relativePath, `${stats.mtimeMs}:${stats.size}`)
+      } catch {
+        // Deleted while scanning
+      }
+    }
+    return false
+  }
+}
+
+/**
+ * Report the files that differ between two tree objects of a repository.
+ *
+ * @param root - Worktree root the paths are relative to
+ * @param beforeTree - Tree before the run
+ * @param afterTree - Tree after the run
+ * @param includeDiff - Whether to include the unified diff
+ * @param pathspec - Only report files matching this pathspec
+ * @returns Change report with method 'git'
+ * @throws {Error} When a git command fails
+ */
+export async function diffTrees(
+  root: string,
+  beforeTree: string,
+  afterTree: string,
+  includeDiff = false,
+  pathspec?: string
+): Promise<ChangeReport> {
+  const limit = pathspec ? ['--', pathspec] : []
+  const files = parseNameStatus(
+    await runGit(root, [
+      'diff-tree',
+      '-r',
+      '-z',
+      '--no-renames',
+      '--name-status',
+      beforeTree,
+      afterTree,
+      ...limit,
+    ])
+  )
+  const report: ChangeReport = { method: 'git', root, files }
+  if (includeDiff && files.length > 0) {
+    const diff = await runGit(root, [
+      'diff-tree',
+      '-p',
+      '--no-renames',
+      '--no-color',
+      beforeTree,
+      afterTree,
+      ...limit,
+    ])
+    report.diff =
+      diff.length > MAX_DIFF_LENGTH
+        ? `${diff.slice(0, MAX_DIFF_LENGTH)}\n... diff truncated at ${MAX_DIFF_LENGTH} characters\n`
+        : diff
+  }
+  return report
+}
+
+/**
+ * Check whether two directories are the same or one contains the other.
+ *
+ * @param a - Absolute directory
+ * @param b - Absolute directory
+ * @returns True if the directories overlap
+ */
+function isSameOrNested(a: string, b: string): boolean {
+  const isInside = (relative: string) => !relative.startsWith('..') && !path.isAbsolute(relative)
+  return isInside(path.relative(a, b)) || isInside(path.relative(b, a))
+}
+
+/**
+ * Parse the NUL separated output of `git diff-tree --name-status -z`.
+ *
+ * @param output - Alternating status letters and paths
+ * @returns Changed files
+ */
+function parseNameStatus(output: string): FileChange[] {
+  const fields = output.split('\0')
+  const files: FileChange[] = []
+  for (let index = 0; index + 1 < fields.length; index += 2) {
+    const status = fields[index]
+    const filePath = fields[index + 1]
+    if (!status || !filePath) {
+      continue
+    }
+    files.push({
+      path: filePath,
+      change: status === 'A' ? 'created' : status === 'D' ? 'deleted' : 'modified',
+    })
+  }
+  return files
+}
@@ -0,0 +1,267 @@
+import { AppError } from 'src/utils/ErrorHandler'
+
+/**
+ * Request for an execution slot.
+ */
+export interface QueueRequest {
+  /**
+   * Backend the execution runs on, used for the per-backend limit.
+   */
+  backend: string
+
+  /**
+   * Agent being executed, used for the per-agent limit.
+   */
+  agent: string
+
+  /**
+   * Maximum concurrent executions on the backend (undefined for no limit).
+   */
+  backendLimit?: number | undefined
+
+  /**
+   * Maximum concurrent executions of the agent (undefined for no limit).
+   */
+  agentLimit?: number | undefined
+
+  /**
+   * Signal that withdraws the request while it waits.
+   */
+  signal?: AbortSignal | undefined
+
+  /**
+   * Callback invoked with the 1-based queue position whenever it changes while waiting.
+   */
+  onQueued?: ((position: number) => void) | undefined
+}
+
+/**
+ * Releases an acquired execution slot. Calling it more than once has no effect.
+ */
+export type ReleaseSlot = () => void
+
+interface WaitingEntry {
+  request: QueueRequest
+  grant: (release: ReleaseSlot) => void
+  reject: (error: Error) => void
+  lastPosition: number
+}
+
+/**
+ * ExecutionQueue class limiting how many agent executions run at once.
+ *
+ * Enforces a global limit plus optional per-backend and per-agent limits.
+ * Requests that cannot start wait in FIFO order; when a slot frees up the
+ * oldest waiting request that fits all of its limits starts first.
+ */
+export class ExecutionQueue {
+  private running = 0
+  private runningByBackend: Map<string, number> = new Map()
+  private runningByAgent: Map<string, number> = new Map()
+  private waiting: WaitingEntry[] = []
+
+  /**
+   * @param maxConcurrent - Global concurrent execution limit (0 for no limit)
+   * @param queueTimeoutMs - Maximum time a request may wait (0 to wait indefinitely)
+   */
+  constructor(
+    private readonly maxConcurrent: number,
+    private readonly queueTimeoutMs: number
+  ) {}
+
+  /**
+   * Wait for an execution slot.
+   *
+   * @param request - Slot request with the applicable limits
+   * @returns Promise resolving to a function that releases the slot
+   * @throws {AppError} QUEUE_TIMEOUT when the request waited longer than queueTimeoutMs
+   * @throws {AppError} QUEUE_CANCELLED when the request was aborted while waiting
+   */
+  acquire(request: QueueRequest): Promise<ReleaseSlot> {
+    if (request.signal?.aborted) {
+      return Promise.reject(this.cancelledError())
+    }
+
+    // Waiting requests are dispatched as soon as they fit, so a request that
+    // fits now does not overtake anyone competing for the same limits
+    if (this.canStart(request)) {
+      return Promise.resolve(this.start(request))
+    }
+
+    return new Promise<ReleaseSlot>((resolve, reject) => {
+      let timer: NodeJS.Timeout | null = null
+
+      const onAbort = () => {
+        this.withdraw(entry)
+        reject(this.cancelledError())
+      }
+      const settle = () => {
+        if (timer) {
+          clearTimeout(timer)
+        }
+        request.signal?.removeEventListener('abort', onAbort)
+      }
+
+      const entry: WaitingEntry = {
+        request,
+        lastPosition: 0,
+        grant: (release) => {
+          settle()
+          resolve(release)
+        },
+        reject: (error) => {
+          settle()
+          reject(error)
+        },
+      }
+
+      if (this.queueTimeoutMs > 0) {
+        timer = setTimeout(() => {
+          this.withdraw(entry)
+          entry.reject(
+            new AppError(
+              `Timed out after ${this.queueTimeoutMs}ms waiting for an execution slot`,
+              'QUEUE_TIMEOUT',
+              503
+            )
+          )
+        }, this.queueTimeoutMs)
+      }
+      request.signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.waiting.push(entry)
+      this.notifyPositions()
+    })
+  }
+
+  /**
+   * Get the number of running executions.
+   *
+   * @returns Running execution count
+   */
+  getRunningCount(): number {
+    return this.running
+  }
+
+  /**
+   * Get the number of waiting requests.
+   *
+   * @returns Queue length
+   */
+  getQueueLength(): number {
+    return this.waiting.length
+  }
+
+  /**
+   * Check if a request fits within the global, backend and agent limits.
+   *
+   * @param request - Slot request
+   * @returns True if the request can start now
+   */
+  private canStart(request: QueueRequest): boolean {
+    if (this.maxConcurrent > 0 && this.running >= this.maxConcurrent) {
+      return false
+    }
+    if (
+      request.backendLimit !== undefined &&
+      (this.runningByBackend.get(request.backend) ?? 0) >= request.backendLimit
+    ) {
+      return false
+    }
+    if (
+      request.agentLimit !== undefined &&
+      (this.runningByAgent.get(request.agent) ?? 0) >= request.agentLimit
+    ) {
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Occupy a slot for a request.
+   *
+   * @param request - Slot request
+   * @returns Function releasing the slot
+   */
+  private start(request: QueueRequest): ReleaseSlot {
+    this.running++
+    increment(this.runningByBackend, request.backend, 1)
+    increment(this.runningByAgent, request.agent, 1)
+
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      this.running--
+      increment(this.runningByBackend, request.backend, -1)
+      increment(this.runningByAgent, request.agent, -1)
+      this.dispatch()
+    }
+  }
+
+  /**
+   * Start waiting requests that fit their limits, oldest first.
+   */
+  private dispatch(): void {
+    for (const entry of [...this.waiting]) {
+      if (this.canStart(entry.request)) {
+        this.withdraw(entry)
+        entry.grant(this.start(entry.request))
+      }
+    }
+    this.notifyPositions()
+  }
+
+  /**
+   * Remove a request from the waiting list.
+   *
+   * @param entry - Waiting entry
+   */
+  private withdraw(entry: WaitingEntry): void {
+    const index = this.waiting.indexOf(entry)
+    if (index !== -1) {
+      this.waiting.splice(index, 1)
+      this.notifyPositions()
+    }
+  }
+
+  /**
+   * Report changed queue positions to waiting requests.
+   */
+  private notifyPositions(): void {
+    this.waiting.forEach((entry, index) => {
+      const position = index + 1
+      if (entry.lastPosition !== position) {
+        entry.lastPosition = position
+        entry.request.onQueued?.(position)
+      }
+    })
+  }
+
+  /**
+   * Create the error used for requests aborted while waiting.
+   *
+   * @returns Cancellation error
+   */
+  private cancelledError(): AppError {
+    return new AppError('Execution cancelled while waiting in queue', 'QUEUE_CANCELLED', 499)
+  }
+}
+
+/**
+ * Adjust a counter in a map, removing entries that drop to zero.
+ *
+ * @param counts - Counter map
+ * @param key - Counter key
+ * @param delta - Amount to add
+ */
+function increment(counts: Map<string, number>, key: string, delta: number): void {
+  const next = (counts.get(key) ?? 0) + delta
+  if (next > 0) {
+    counts.set(key, next)
+  } else {
+    counts.delete(key)
+  }
+}
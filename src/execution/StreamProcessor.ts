@@ -1,15 +1,39 @@
+import {
+  type ExtractedResult,
+  type ResultExtractor,
+  StreamJsonResultExtractor,
+  type ToolCall,
+} from 'src/backends/ResultExtractor'
+
 /**
  * StreamProcessor - Simplified stream processing for agent output
  *
- * Handles both cursor and claude output in JSON format.
- * Both agents now use --output-format json and return a single JSON response.
+ * Handles cursor, claude and gemini output in stream-json format, where each
+ * line is an event object with a `type` field. The backend's result extractor
+ * decides which message ends the run and reads the normalized result from it;
+ * other JSON lines, such as log output, never end the run.
  */
 export class StreamProcessor {
   private resultJson: unknown = null
+  private extractedResult: ExtractedResult | null = null
+  private toolCalls: ToolCall[] = []
+  private eventCount = 0
+  private lastAssistantMessage: string | null = null
+  private streamedAssistantText = ''
+  private sessionId: string | null = null
+
+  /**
+   * @param extractor - Recognizes the backend's terminal message (default: `type: "result"`)
+   * @param reportSessionId - Whether to report the session id; false for CLIs that cannot resume
+   */
+  constructor(
+    private readonly extractor: ResultExtractor = new StreamJsonResultExtractor(),
+    private readonly reportSessionId = true
+  ) {}
 
   /**
    * Process a single line from the agent output stream.
-   * Returns true when a valid JSON is detected, false otherwise.
+   * Returns true when the final result is detected, false otherwise.
    *
    * @param line - Raw line from stdout
    * @returns true if processing is complete, false to continue
@@ -17,25 +41,51 @@ export class StreamProcessor {
   processLine(line: string): boolean {
     const trimmedLine = line.trim()
 
-    // Empty lines are ignored
-    if (!trimmedLine) {
+    // Empty lines and anything after the result are ignored
+    if (!trimmedLine || this.resultJson !== null) {
       return false
     }
 
     // Try to parse as JSON
+    let json: unknown
     try {
-      const json = JSON.parse(trimmedLine)
-
-      // Store the first valid JSON response
-      if (!this.resultJson) {
-        this.resultJson = json
-        return true // Processing complete
-      }
-      return false // Ignore subsequent JSONs
+      json = JSON.parse(trimmedLine)
     } catch {
       // Not valid JSON, ignore
       return false
     }
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+      return false
+    }
+
+    const message = json as Record<string, unknown>
+    if (this.extractor.isTerminal(message)) {
+      if (this.isStreamEvent(message)) {
+        this.eventCount++
+      }
+      this.recordSessionId(message)
+      this.extractedResult = {
+        ...this.extractor.extract(message, this.lastAssistantMessage),
+        toolCalls: this.toolCalls,
+        filesTouched: [
+          ...new Set(
+            this.toolCalls
+              .filter((toolCall) => toolCall.writes && toolCall.filePath)
+              .map((toolCall) => toolCall.filePath as string)
+          ),
+        ],
+      }
+      this.resultJson = this.withStreamedResponse(message)
+      return true // Processing complete
+    }
+
+    if (this.isStreamEvent(message)) {
+      this.eventCount++
+      this.recordSessionId(message)
+      this.recordAssistantMessage(message)
+      this.toolCalls.push(...this.extractor.readToolCalls(message))
+    }
+    return false
   }
 
   /**
@@ -45,4 +95,121 @@ export class StreamProcessor {
   getResult(): unknown {
     return this.resultJson
   }
+
+  /**
+   * Get the normalized result read from the terminal message and the tool calls before it.
+   * @returns Final text, error, usage and tool call trace, or null if the run has not ended yet
+   */
+  getExtractedResult(): ExtractedResult | null {
+    return this.extractedResult
+  }
+
+  /**
+   * Get the number of stream events received so far.
+   * @returns Event count
+   */
+  getEventCount(): number {
+    return this.eventCount
+  }
+
+  /**
+   * Get the text of the most recent assistant message.
+   * @returns Assistant message text or null if none was streamed yet
+   */
+  getLastAssistantMessage(): string | null {
+    return this.lastAssistantMessage
+  }
+
+  /**
+   * Get the session id reported by the CLI.
+   * Claude, cursor-agent and gemini include it as `session_id` in their events.
+   * @returns Session id or null if none was reported or the CLI cannot resume sessions
+   */
+  getSessionId(): string | null {
+    return this.reportSessionId ? this.sessionId : null
+  }
+
+  /**
+   * Record the session id carried by an event.
+   *
+   * @param event - Parsed JSON event
+   */
+  private recordSessionId(event: Record<string, unknown>): void {
+    const sessionId = event['session_id']
+    if (typeof sessionId === 'string' && sessionId) {
+      this.sessionId = sessionId
+    }
+  }
+
+  /**
+   * Check if a parsed line is a stream-json event.
+   *
+   * @param json - Parsed JSON line
+   * @returns True for objects carrying a string `type` field
+   */
+  private isStreamEvent(json: unknown): json is Record<string, unknown> {
+    return (
+      typeof json === 'object' &&
+      json !== null &&
+      !Array.isArray(json) &&
+      typeof (json as Record<string, unknown>)['type'] === 'string'
+    )
+  }
+
+  /**
+   * Record assistant text from a stream event.
+   * Claude and cursor-agent send `type: "assistant"` events with message content blocks;
+   * gemini sends `type: "message"` events with `role: "assistant"`, optionally as deltas.
+   *
+   * @param event - Stream event
+   */
+  private recordAssistantMessage(event: Record<string, unknown>): void {
+    if (event['type'] === 'assistant') {
+      const message = event['message'] as { content?: unknown } | undefined
+      const content = Array.isArray(message?.content) ? message.content : []
+      const text = content
+        .filter(
+          (block): block is { type: 'text'; text: string } =>
+            typeof block === 'object' &&
+            block !== null &&
+            block.type === 'text' &&
+            typeof block.text === 'string'
+        )
+        .map((block) => block.text)
+        .join('')
+
+      if (text) {
+        this.lastAssistantMessage = text
+      }
+      return
+    }
+
+    if (
+      event['type'] === 'message' &&
+      event['role'] === 'assistant' &&
+      typeof event['content'] === 'string'
+    ) {
+      this.streamedAssistantText = event['delta']
+        ? this.streamedAssistantText + event['content']
+        : event['content']
+      this.lastAssistantMessage = this.streamedAssistantText
+    }
+  }
+
+  /**
+   * Attach streamed assistant text to a result event that carries no answer itself.
+   * Gemini's stream-json result event only reports status and stats.
+   *
+   * @param result - Result event
+   * @returns Result event with a `response` field when text was streamed
+   */
+  private withStreamedResponse(result: Record<string, unknown>): Record<string, unknown> {
+    if (result['result'] !== undefined || result['response'] !== undefined) {
+      return result
+    }
+    if (!this.streamedAssistantText) {
+      return result
+    }
+    return { ...result, response: this.streamedAssistantText }
+  }
 }
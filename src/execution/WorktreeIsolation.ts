@@ -0,0 +1,258 @@
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+import { type ChangeReport, diffTrees } from 'src/execution/ChangeTracker'
+import { AppError, ValidationError } from 'src/utils/ErrorHandler'
+import { findWorktreeRoot, runGit, writeWorkingTree } from 'src/utils/Git'
+
+/**
+ * Prefix of the branches holding the changes of isolated runs.
+ * Only branches with this prefix can be applied or discarded through the server.
+ */
+export const ISOLATION_BRANCH_PREFIX = 'sub-agents/'
+
+/**
+ * Branch names the server creates for isolated runs.
+ */
+const ISOLATION_BRANCH_PATTERN = /^sub-agents\/[A-Za-z0-9._-]+$/
+
+/**
+ * Prefix of the temp directories holding the worktrees of isolated runs.
+ */
+const WORKTREE_DIR_PREFIX = 'sub-agents-worktree-'
+
+/**
+ * Identity of the commits recording the base and the result of isolated runs.
+ */
+const COMMIT_ENV = {
+  GIT_AUTHOR_NAME: 'sub-agents-mcp',
+  GIT_AUTHOR_EMAIL: 'sub-agents-mcp@localhost',
+  GIT_COMMITTER_NAME: 'sub-agents-mcp',
+  GIT_COMMITTER_EMAIL: 'sub-agents-mcp@localhost',
+}
+
+/**
+ * Temporary git worktree an isolated run executes in.
+ */
+export interface IsolatedWorktree {
+  /**
+   * Root of the worktree the run was isolated from; changes are applied there.
+   */
+  root: string
+
+  /**
+   * Directory of the temporary worktree.
+   */
+  path: string
+
+  /**
+   * Working directory of the agent inside the temporary worktree.
+   */
+  cwd: string
+
+  /**
+   * Commit holding the state of root, including uncommitted files, when the run started.
+   */
+  baseCommit: string
+
+  /**
+   * Branch that receives the changes of the run.
+   */
+  branch: string
+}
+
+/**
+ * WorktreeIsolation class running agents in temporary git worktrees.
+ *
+ * The current state of the repository, including uncommitted and untracked
+ * files, is committed as a dangling base commit and checked out in a
+ * temporary worktree. After the run the worktree is committed on top of the
+ * base as branch `sub-agents/<run id>` and removed, so parallel runs never
+ * see each other's edits. The branch is later applied to the live worktree
+ * as a patch or discarded.
+ */
+export class WorktreeIsolation {
+  /**
+   * Create a temporary worktree for a run.
+   *
+   * @param cwd - Working directory requested for the run
+   * @param runId - Id of the run, used in the branch name
+   * @returns Worktree to run the agent in
+   * @throws {ValidationError} When cwd is not inside a git repository
+   * @throws {Error} When a git command fails
+   */
+  async create(cwd: string, runId: string): Promise<IsolatedWorktree> {
+    const realCwd = await fs.promises.realpath(cwd)
+    const root = await this.findRoot(realCwd)
+
+    const tree = await writeWorkingTree(root)
+    const head = await runGit(root, ['rev-parse', '--verify', '-q', 'HEAD']).then(
+      (output) => output.trim(),
+      () => ''
+    )
+    const baseCommit = (
+      await runGit(
+        root,
+        ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', `Base of agent run ${runId}`],
+        { env: { ...process.env, ...COMMIT_ENV } }
+      )
+    ).trim()
+
+    const worktreePath = await fs.promises.mkdtemp(path.join(os.tmpdir(), WORKTREE_DIR_PREFIX))
+    try {
+      await runGit(root, ['worktree', 'add', '-q', '--detach', worktreePath, baseCommit])
+    } catch (error) {
+      await fs.promises.rm(worktreePath, { recursive: true, force: true })
+      throw error
+    }
+
+    return {
+      root,
+      path: worktreePath,
+      cwd: path.join(worktreePath, path.relative(root, realCwd)),
+      baseCommit,
+      branch: `${ISOLATION_BRANCH_PREFIX}${runId}`,
+    }
+  }
+
+  /**
+   * Record the changes of a finished run on its branch and remove the worktree.
+   * When recording fails the worktree is kept so the changes can be recovered from it.
+   *
+   * @param worktree - Worktree of the run
+   * @param includeDiff - Whether to include the unified diff
+   * @returns Changed files relative to root, with the branch when there are any
+   * @throws {Error} When a git command fails
+   */
+  async finish(worktree: IsolatedWorktree, includeDiff = false): Promise<ChangeReport> {
+    const tree = await writeWorkingTree(worktree.path)
+    const report = await diffTrees(worktree.root, worktree.baseCommit, tree, includeDiff)
+    if (report.files.length > 0) {
+      const commit = (
+        await runGit(
+          worktree.root,
+          [
+            'commit-tree',
+            tree,
+            '-p',
+            worktree.baseCommit,
+            '-m',
+            `Changes of agent run ${worktree.branch.slice(ISOLATION_BRANCH_PREFIX.length)}`,
+          ],
+          { env: { ...process.env, ...COMMIT_ENV } }
+        )
+      ).trim()
+      await runGit(worktree.root, ['branch', worktree.branch, commit])
+      report.branch = worktree.branch
+    }
+
+    await this.remove(worktree)
+    return report
+  }
+
+  /**
+   * Remove the temporary worktree of a run.
+   *
+   * @param worktree - Worktree of the run
+   */
+  async remove(worktree: IsolatedWorktree): Promise<void> {
+    try {
+      await runGit(worktree.root, ['worktree', 'remove', '--force', worktree.path])
+    } catch {
+      await fs.promises.rm(worktree.path, { recursive: true, force: true })
+      await runGit(worktree.root, ['worktree', 'prune']).catch(() => undefined)
+    }
+  }
+
+  /**
+   * Apply the changes of an isolated run to the live worktree and delete its branch.
+   *
+   * The changes are applied as a patch against the run's base, so files
+   * edited in the meantime only fail when the edits overlap. Nothing is
+   * applied when any hunk fails.
+   *
+   * @param cwd - Any directory inside the repository of the run
+   * @param branch - Branch returned by the run
+   * @returns Applied changes
+   * @throws {ValidationError} When the branch was not created by an isolated run or does not exist
+   * @throws {AppError} When the patch does not apply (code 'APPLY_FAILED')
+   */
+  async apply(cwd: string, branch: string): Promise<ChangeReport> {
+    const root = await this.findRoot(cwd)
+    await this.checkBranch(root, branch)
+
+    const report = await diffTrees(root, `${branch}^`, branch)
+    const patch = await runGit(root, [
+      'diff-tree',
+      '-p',
+      '--binary',
+      '--no-renames',
+      `${branch}^`,
+      branch,
+    ])
+    try {
+      await runGit(root, ['apply', '--whitespace=nowarn', '-'], { input: patch })
+    } catch (error) {
+      throw new AppError(
+        `Changes of ${branch} do not apply to the working tree: ${error instanceof Error ? error.message : String(error)}`,
+        'APPLY_FAILED',
+        409,
+        { operation: 'apply_agent_changes', metadata: { branch, root } }
+      )
+    }
+
+    await runGit(root, ['branch', '-D', branch])
+    return report
+  }
+
+  /**
+   * Delete the branch of an isolated run without applying it.
+   *
+   * @param cwd - Any directory inside the repository of the run
+   * @param branch - Branch returned by the run
+   * @throws {ValidationError} When the branch was not created by an isolated run or does not exist
+   */
+  async discard(cwd: string, branch: string): Promise<void> {
+    const root = await this.findRoot(cwd)
+    await this.checkBranch(root, branch)
+    await runGit(root, ['branch', '-D', branch])
+  }
+
+  /**
+   * Find the worktree root of a directory.
+   *
+   * @private
+   * @param cwd - Directory inside the repository
+   * @returns Worktree root
+   * @throws {ValidationError} When the directory is not inside a git repository
+   */
+  private async findRoot(cwd: string): Promise<string> {
+    const root = await findWorktreeRoot(cwd)
+    if (!root) {
+      throw new ValidationError(`'${cwd}' is not inside a git repository`, 'NOT_A_GIT_REPOSITORY')
+    }
+    return root
+  }
+
+  /**
+   * Check that a branch holds the changes of an isolated run.
+   *
+   * @private
+   * @param root - Worktree root
+   * @param branch - Branch name
+   * @throws {ValidationError} When the name lacks the isolation prefix or the branch does not exist
+   */
+  private async checkBranch(root: string, branch: string): Promise<void> {
+    if (!ISOLATION_BRANCH_PATTERN.test(branch)) {
+      throw new ValidationError(
+        `Invalid branch '${branch}': only ${ISOLATION_BRANCH_PREFIX}* branches of isolated runs can be applied or discarded`,
+        'INVALID_BRANCH'
+      )
+    }
+    try {
+      await runGit(root, ['rev-parse', '--verify', '-q', `refs/heads/${branch}`])
+    } catch {
+      throw new ValidationError(`Branch '${branch}' does not exist in ${root}`, 'BRANCH_NOT_FOUND')
+    }
+  }
+}
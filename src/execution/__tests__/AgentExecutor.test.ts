@@ -1,8 +1,12 @@
+import fs from 'node:fs'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
+import { DeclarativeBackend } from 'src/backends/DeclarativeBackend'
 import {
   AgentExecutor,
-  DEFAULT_EXECUTION_TIMEOUT,
+  KILL_GRACE_PERIOD_MS,
   createExecutionConfig,
 } from 'src/execution/AgentExecutor'
+import { WorktreeIsolation } from 'src/execution/WorktreeIsolation'
 import type { ExecutionParams } from 'src/types/ExecutionParams'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 
@@ -12,7 +16,9 @@ vi.mock('node:child_process', () => ({
 }))
 
 // Import the mocked module to get references
-import { spawn as mockSpawn } from 'node:child_process'
+import { type ChildProcess, spawn } from 'node:child_process'
+
+const mockSpawn = vi.mocked(spawn)
 
 describe('AgentExecutor', () => {
   let executor: AgentExecutor
@@ -23,10 +29,11 @@ describe('AgentExecutor', () => {
     executor = new AgentExecutor(testConfig)
 
     // Setup spawn mock
-    mockSpawn.mockImplementation((cmd: string, args: string[], options: any) => {
+    mockSpawn.mockImplementation((_cmd: string, args: readonly string[]) => {
       // Extract the prompt which should be the last argument after -p flag
       const promptIndex = args.indexOf('-p')
-      const prompt = promptIndex >= 0 && promptIndex < args.length - 1 ? args[promptIndex + 1] : ''
+      const prompt =
+        promptIndex >= 0 && promptIndex < args.length - 1 ? (args[promptIndex + 1] ?? '') : ''
       // Check if the prompt contains agent information formatted as "agent: prompt text"
       const isTestAgent = prompt.includes('test-agent')
       const isBadAgent = prompt.includes('bad-agent') || prompt.includes('nonexistent-agent')
@@ -35,6 +42,7 @@ describe('AgentExecutor', () => {
       const mockProcess = {
         stdin: {
           end: vi.fn(),
+          on: vi.fn(),
         },
         stdout: {
           on: vi.fn((event, callback) => {
@@ -148,7 +156,7 @@ describe('AgentExecutor', () => {
       // Get the last call to spawn
       const spawnCalls = vi.mocked(mockSpawn).mock.calls
       const lastCall = spawnCalls[spawnCalls.length - 1]
-      const args = lastCall[1] as string[]
+      const args = lastCall?.[1] as string[]
 
       expect(args).toContain('--tools')
       expect(args).toContain('tool1,tool2')
@@ -171,6 +179,8 @@ describe('AgentExecutor', () => {
         executionTime: expect.any(Number),
         hasResult: expect.any(Boolean),
         resultJson: expect.anything(),
+        extractedResult: { text: '', isError: false, toolCalls: [], filesTouched: [] },
+        success: expect.any(Boolean),
       })
       expect(result.exitCode).toBe(0)
       expect(result.executionTime).toBeGreaterThan(0)
@@ -206,6 +216,8 @@ describe('AgentExecutor', () => {
         executionTime: expect.any(Number),
         hasResult: expect.any(Boolean),
         resultJson: expect.anything(),
+        extractedResult: { text: '', isError: false, toolCalls: [], filesTouched: [] },
+        success: expect.any(Boolean),
       })
       expect(result.stdout.length).toBeGreaterThan(0)
     })
@@ -341,7 +353,7 @@ describe('AgentExecutor', () => {
     it('should handle SIGTERM (exit code 143) as normal when hasResult is true', async () => {
       // Mock a scenario where process is killed with SIGTERM after getting JSON
       const mockProcess = {
-        stdin: { end: vi.fn() },
+        stdin: { end: vi.fn(), on: vi.fn() },
         stdout: {
           on: vi.fn((event, callback) => {
             if (event === 'data') {
@@ -386,7 +398,7 @@ describe('AgentExecutor', () => {
 
       // Mock process that sends JSON but times out
       const mockProcess = {
-        stdin: { end: vi.fn() },
+        stdin: { end: vi.fn(), on: vi.fn() },
         stdout: {
           on: vi.fn((event, callback) => {
             if (event === 'data') {
@@ -423,4 +435,393 @@ describe('AgentExecutor', () => {
       expect(result.resultJson).toEqual({ type: 'result', partial: true })
     })
   })
+
+  describe('stream-json output and progress', () => {
+    it('should request stream-json output from the CLI', async () => {
+      await executor.executeAgent({ agent: 'test-agent', prompt: 'Help me', agentType: 'claude' })
+
+      const args = vi.mocked(mockSpawn).mock.calls.at(-1)?.[1] as string[]
+      expect(args).toContain('stream-json')
+      expect(args).toContain('--verbose')
+      expect(args).not.toContain('json')
+    })
+
+    it('should report progress while the agent runs', async () => {
+      vi.useFakeTimers()
+      try {
+        let emit: ((data: Buffer) => void) | undefined
+        let close: ((code: number) => void) | undefined
+        const mockProcess = {
+          stdin: { end: vi.fn(), on: vi.fn() },
+          stdout: {
+            on: vi.fn((event, callback) => {
+              if (event === 'data') emit = callback
+            }),
+          },
+          stderr: { on: vi.fn() },
+          on: vi.fn((event, callback) => {
+            if (event === 'close') close = callback
+          }),
+          kill: vi.fn(),
+        }
+        mockSpawn.mockImplementationOnce(() => mockProcess as unknown as ChildProcess)
+
+        const onProgress = vi.fn()
+        const execution = executor.executeAgent(
+          { agent: 'streaming-agent', prompt: 'Long task' },
+          { onProgress }
+        )
+
+        await vi.advanceTimersByTimeAsync(1)
+        emit?.(
+          Buffer.from(
+            `${JSON.stringify({
+              type: 'assistant',
+              message: { content: [{ type: 'text', text: 'Reading files' }] },
+            })}\n`
+          )
+        )
+        await vi.advanceTimersByTimeAsync(1000)
+
+        expect(onProgress).toHaveBeenCalledWith(
+          expect.objectContaining({
+            eventCount: 1,
+            bytesReceived: expect.any(Number),
+            elapsedMs: expect.any(Number),
+            lastMessage: 'Reading files',
+          })
+        )
+
+        emit?.(Buffer.from('{"type":"result","result":"Done"}\n'))
+        close?.(0)
+        const result = await execution
+        const callCount = onProgress.mock.calls.length
+        await vi.advanceTimersByTimeAsync(3000)
+
+        expect(result.resultJson).toEqual({ type: 'result', result: 'Done' })
+        expect(onProgress).toHaveBeenCalledTimes(callCount)
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+  })
+
+  describe('cancellation', () => {
+    const createHangingProcess = () => {
+      let close: ((code: number | null) => void) | undefined
+      const mockProcess = {
+        stdin: { end: vi.fn(), on: vi.fn() },
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn((event, callback) => {
+          if (event === 'close') close = callback
+        }),
+        kill: vi.fn(() => {
+          setTimeout(() => close?.(null), 10)
+          return true
+        }),
+      }
+      return mockProcess
+    }
+
+    it('should spawn the agent as a process group leader', async () => {
+      await executor.executeAgent({ agent: 'test-agent', prompt: 'Help me' })
+
+      const options = vi.mocked(mockSpawn).mock.calls.at(-1)?.[2] as { detached?: boolean }
+      expect(options.detached).toBe(true)
+    })
+
+    it('should terminate the process and report cancellation on abort', async () => {
+      const mockProcess = createHangingProcess()
+      mockSpawn.mockImplementationOnce(() => mockProcess as unknown as ChildProcess)
+      const controller = new AbortController()
+
+      const execution = executor.executeAgent(
+        { agent: 'hanging-agent', prompt: 'Never finishes' },
+        { signal: controller.signal }
+      )
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      controller.abort()
+      const result = await execution
+
+      expect(mockProcess.kill).toHaveBeenCalledWith('SIGTERM')
+      expect(result.cancelled).toBe(true)
+      expect(result.exitCode).toBe(130)
+    })
+
+    it('should kill the process group when it outlives the grace period after a timeout', async () => {
+      vi.useFakeTimers()
+      try {
+        const mockProcess = { ...createHangingProcess(), kill: vi.fn(() => true) }
+        mockSpawn.mockImplementationOnce(() => mockProcess as unknown as ChildProcess)
+        const timeoutExecutor = new AgentExecutor(
+          createExecutionConfig('cursor', { executionTimeout: 1000 })
+        )
+
+        const execution = timeoutExecutor.executeAgent({
+          agent: 'hanging-agent',
+          prompt: 'Ignores SIGTERM',
+        })
+        await vi.waitFor(() => expect(mockSpawn).toHaveBeenCalled())
+        await vi.advanceTimersByTimeAsync(1000)
+        const result = await execution
+
+        expect(result.exitCode).toBe(124)
+        expect(mockProcess.kill).toHaveBeenCalledWith('SIGTERM')
+        expect(mockProcess.kill).not.toHaveBeenCalledWith('SIGKILL')
+
+        await vi.advanceTimersByTimeAsync(KILL_GRACE_PERIOD_MS)
+
+        expect(mockProcess.kill).toHaveBeenCalledWith('SIGKILL')
+      } finally {
+        vi.useRealTimers()
+      }
+    })
+
+    it('should terminate running agents on terminateAll', async () => {
+      const closeListeners: (() => void)[] = []
+      const mockProcess = {
+        ...createHangingProcess(),
+        once: vi.fn((event, callback) => {
+          if (event === 'close') closeListeners.push(callback)
+        }),
+        kill: vi.fn(() => {
+          setTimeout(() => {
+            for (const listener of closeListeners) listener()
+          }, 10)
+          return true
+        }),
+      }
+      mockSpawn.mockImplementationOnce(() => mockProcess as unknown as ChildProcess)
+
+      void executor.executeAgent({ agent: 'hanging-agent', prompt: 'Never finishes' })
+      await new Promise((resolve) => setTimeout(resolve, 20))
+      await executor.terminateAll()
+
+      expect(mockProcess.kill).toHaveBeenCalledWith('SIGTERM')
+      expect(mockProcess.kill).not.toHaveBeenCalledWith('SIGKILL')
+    })
+
+    it('should not spawn when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      const result = await executor.executeAgent(
+        { agent: 'test-agent', prompt: 'Help me' },
+        { signal: controller.signal }
+      )
+
+      expect(mockSpawn).not.toHaveBeenCalled()
+      expect(result.cancelled).toBe(true)
+    })
+  })
+
+  describe('backend adapters', () => {
+    it('should build the command through a registered custom backend', async () => {
+      const backends = BackendRegistry.withBuiltins()
+      backends.register('codex', {
+        buildCommand: (params) => ({ command: 'codex', args: ['exec', '-p', params.prompt] }),
+      })
+      const customExecutor = new AgentExecutor(createExecutionConfig('codex'), undefined, backends)
+
+      const result = await customExecutor.executeAgent({ agent: 'test-agent', prompt: 'Help me' })
+
+      expect(mockSpawn).toHaveBeenCalledWith('codex', ['exec', '-p', 'Help me'], expect.any(Object))
+      expect(result.success).toBe(true)
+    })
+
+    it('should let the backend decide whether the execution succeeded', async () => {
+      const backends = new BackendRegistry()
+      backends.register('strict', {
+        buildCommand: () => ({ command: 'strict-cli', args: ['-p', 'test-agent'] }),
+        isSuccess: () => false,
+      })
+      const customExecutor = new AgentExecutor(createExecutionConfig('strict'), undefined, backends)
+
+      const result = await customExecutor.executeAgent({ agent: 'test-agent', prompt: 'Help me' })
+
+      expect(result.exitCode).toBe(0)
+      expect(result.success).toBe(false)
+    })
+
+    it('should write the prompt to stdin for stdin delivery', async () => {
+      await executor.executeAgent({ agent: 'test-agent', prompt: 'Help me', agentType: 'claude' })
+
+      const options = vi.mocked(mockSpawn).mock.calls.at(-1)?.[2] as { stdio: string[] }
+      const child = vi.mocked(mockSpawn).mock.results.at(-1)?.value
+      expect(options.stdio[0]).toBe('pipe')
+      expect(child.stdin.end).toHaveBeenCalledWith(
+        expect.stringContaining('[User Prompt]\nHelp me')
+      )
+      expect(vi.mocked(mockSpawn).mock.calls.at(-1)?.[1]).not.toContain(
+        expect.stringContaining('Help me')
+      )
+    })
+
+    it('should write the prompt to a private temp file and remove it afterwards', async () => {
+      const backends = new BackendRegistry()
+      backends.register(
+        'file-cli',
+        DeclarativeBackend.fromConfig('file-cli', {
+          command: 'file-cli',
+          args: ['--input', '{promptFile}', 'test-agent'],
+          promptDelivery: 'file',
+        })
+      )
+      const customExecutor = new AgentExecutor(
+        createExecutionConfig('file-cli'),
+        undefined,
+        backends
+      )
+      let promptFile = ''
+      let fileContent = ''
+      let fileMode = 0
+      mockSpawn.mockImplementationOnce((_cmd: string, args: readonly string[]) => {
+        promptFile = args[1] as string
+        fileContent = fs.readFileSync(promptFile, 'utf-8')
+        fileMode = fs.statSync(promptFile).mode & 0o777
+        return {
+          stdin: { end: vi.fn(), on: vi.fn() },
+          stdout: { on: vi.fn() },
+          stderr: { on: vi.fn() },
+          on: vi.fn((event, callback) => {
+            if (event === 'close') setTimeout(() => callback(0), 10)
+          }),
+          kill: vi.fn(),
+        } as unknown as ChildProcess
+      })
+
+      await customExecutor.executeAgent({ agent: 'test-agent', prompt: 'Help me' })
+
+      expect(fileContent).toContain('[User Prompt]\nHelp me')
+      expect(fileMode).toBe(0o600)
+      expect(fs.existsSync(promptFile)).toBe(false)
+    })
+
+    it('should return the session id reported by the backend', async () => {
+      mockSpawn.mockImplementationOnce(
+        () =>
+          ({
+            stdin: { end: vi.fn(), on: vi.fn() },
+            stdout: {
+              on: vi.fn((event, callback) => {
+                if (event === 'data') {
+                  setTimeout(
+                    () =>
+                      callback(
+                        Buffer.from('{"type":"result","result":"Done","session_id":"s-1"}\n')
+                      ),
+                    5
+                  )
+                }
+              }),
+            },
+            stderr: { on: vi.fn() },
+            on: vi.fn((event, callback) => {
+              if (event === 'close') setTimeout(() => callback(0), 10)
+            }),
+            kill: vi.fn(),
+          }) as unknown as ChildProcess
+      )
+
+      const result = await executor.executeAgent({ agent: 'test-agent', prompt: 'Help me' })
+
+      expect(result.sessionId).toBe('s-1')
+    })
+
+    it('should fail with the registered backends for an unknown agent type', async () => {
+      const result = await executor.executeAgent({
+        agent: 'test-agent',
+        prompt: 'Help me',
+        agentType: 'unknown',
+      })
+
+      expect(mockSpawn).not.toHaveBeenCalled()
+      expect(result.exitCode).toBe(1)
+      expect(result.stderr).toContain("Unknown agent type 'unknown'")
+      expect(result.stderr).toContain('cursor, claude, gemini')
+    })
+
+    it('should remove the worktree of an isolated run that fails before finishing', async () => {
+      const worktree = {
+        root: '/repo',
+        path: '/tmp/sub-agents-run',
+        cwd: '/tmp/sub-agents-run',
+        branch: 'sub-agents/req_1',
+        baseCommit: 'abc123',
+      }
+      vi.spyOn(WorktreeIsolation.prototype, 'create').mockResolvedValue(worktree)
+      const remove = vi.spyOn(WorktreeIsolation.prototype, 'remove').mockResolvedValue()
+      const finish = vi.spyOn(WorktreeIsolation.prototype, 'finish')
+
+      const result = await executor.executeAgent(
+        { agent: 'test-agent', prompt: 'Help me', agentType: 'unknown' },
+        { isolation: 'worktree' }
+      )
+
+      expect(result.exitCode).toBe(1)
+      expect(finish).not.toHaveBeenCalled()
+      expect(remove).toHaveBeenCalledWith(worktree)
+    })
+  })
+
+  describe('concurrency limits', () => {
+    it('should queue executions beyond maxConcurrent and report the queue position', async () => {
+      const limitedExecutor = new AgentExecutor(
+        createExecutionConfig('cursor', { maxConcurrent: 1 })
+      )
+      const onProgress = vi.fn()
+
+      const first = limitedExecutor.executeAgent({ agent: 'test-agent', prompt: 'First' })
+      const second = limitedExecutor.executeAgent(
+        { agent: 'test-agent', prompt: 'Second' },
+        { onProgress }
+      )
+      await new Promise((resolve) => setTimeout(resolve, 5))
+
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+      expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ queuePosition: 1 }))
+
+      const results = await Promise.all([first, second])
+
+      expect(mockSpawn).toHaveBeenCalledTimes(2)
+      expect(results.map((result) => result.exitCode)).toEqual([0, 0])
+    })
+
+    it('should fail executions that wait longer than the queue timeout', async () => {
+      const limitedExecutor = new AgentExecutor(
+        createExecutionConfig('cursor', { maxConcurrent: 1, queueTimeout: 1 })
+      )
+
+      const [, queued] = await Promise.all([
+        limitedExecutor.executeAgent({ agent: 'test-agent', prompt: 'First' }),
+        limitedExecutor.executeAgent({ agent: 'test-agent', prompt: 'Second' }),
+      ])
+
+      expect(queued.exitCode).toBe(1)
+      expect(queued.stderr).toContain('waiting for an execution slot')
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+    })
+
+    it('should return a cancelled result when aborted while queued', async () => {
+      const limitedExecutor = new AgentExecutor(
+        createExecutionConfig('cursor', { maxConcurrent: 1 })
+      )
+      const controller = new AbortController()
+
+      const first = limitedExecutor.executeAgent({ agent: 'test-agent', prompt: 'First' })
+      const second = limitedExecutor.executeAgent(
+        { agent: 'test-agent', prompt: 'Second' },
+        { signal: controller.signal }
+      )
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      controller.abort()
+
+      const cancelled = await second
+      await first
+
+      expect(cancelled.cancelled).toBe(true)
+      expect(mockSpawn).toHaveBeenCalledTimes(1)
+    })
+  })
 })
@@ -0,0 +1,149 @@
+import { execFileSync } from 'node:child_process'
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { ChangeTracker } from 'src/execution/ChangeTracker'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('ChangeTracker', () => {
+  let workDir: string
+  const tracker = new ChangeTracker()
+
+  beforeEach(() => {
+    workDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'change-tracker-test-')))
+  })
+
+  afterEach(() => {
+    fs.rmSync(workDir, { recursive: true, force: true })
+  })
+
+  const write = (name: string, content: string) => {
+    fs.mkdirSync(path.dirname(path.join(workDir, name)), { recursive: true })
+    fs.writeFileSync(path.join(workDir, name), content)
+  }
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: workDir,
+      stdio: 'pipe',
+    })
+
+  describe('in a git worktree', () => {
+    beforeEach(() => {
+      git('init', '-q')
+      write('.gitignore', 'build/\n')
+      write('src/a.ts', 'export const a = 1\n')
+      write('src/b.ts', 'export const b = 1\n')
+      git('add', '-A')
+      git('commit', '-q', '-m', 'Initial commit')
+    })
+
+    it('should report created, modified and deleted files but not ignored ones', async () => {
+      const snapshot = await tracker.snapshot(path.join(workDir, 'src'))
+
+      write('src/a.ts', 'export const a = 2\n')
+      fs.rmSync(path.join(workDir, 'src/b.ts'))
+      write('src/c.ts', 'export const c = 1\n')
+      write('build/out.js', 'ignored')
+
+      const report = await tracker.compare(snapshot)
+
+      expect(report).toEqual({
+        method: 'git',
+        root: workDir,
+        files: [
+          { path: 'src/a.ts', change: 'modified' },
+          { path: 'src/b.ts', change: 'deleted' },
+          { path: 'src/c.ts', change: 'created' },
+        ],
+      })
+    })
+
+    it('should not attribute changes made before the run and leave the index untouched', async () => {
+      write('src/a.ts', 'export const a = 2\n')
+      write('notes.md', 'draft')
+      git('add', 'src/a.ts')
+      const stagedBefore = git('diff', '--cached', '--name-only').toString()
+
+      const snapshot = await tracker.snapshot(workDir)
+      write('src/b.ts', 'export const b = 2\n')
+      const report = await tracker.compare(snapshot)
+
+      expect(report.files).toEqual([{ path: 'src/b.ts', change: 'modified' }])
+      expect(git('diff', '--cached', '--name-only').toString()).toBe(stagedBefore)
+    })
+
+    it('should report files changed in commits made by the agent', async () => {
+      const snapshot = await tracker.snapshot(workDir)
+      write('src/a.ts', 'export const a = 2\n')
+      git('commit', '-q', '-am', 'Agent commit')
+
+      const report = await tracker.compare(snapshot)
+
+      expect(report.files).toEqual([{ path: 'src/a.ts', change: 'modified' }])
+    })
+
+    it('should only report changes below the working directory', async () => {
+      const snapshot = await tracker.snapshot(path.join(workDir, 'src'))
+      write('src/a.ts', 'export const a = 2\n')
+      write('notes.md', 'written by another process')
+
+      const report = await tracker.compare(snapshot, true)
+
+      expect(report.files).toEqual([{ path: 'src/a.ts', change: 'modified' }])
+      expect(report.diff).not.toContain('notes.md')
+    })
+
+    it('should include the unified diff when requested', async () => {
+      const snapshot = await tracker.snapshot(workDir)
+      write('src/a.ts', 'export const a = 2\n')
+
+      const report = await tracker.compare(snapshot, true)
+
+      expect(report.diff).toContain('--- a/src/a.ts\n+++ b/src/a.ts\n')
+      expect(report.diff).toContain('-export const a = 1\n+export const a = 2\n')
+    })
+  })
+
+  describe('outside git', () => {
+    it('should compare modification times and sizes, skipping node_modules', async () => {
+      write('a.txt', 'one')
+      write('nested/b.txt', 'two')
+      write('nested/c.txt', 'three')
+      const snapshot = await tracker.snapshot(workDir)
+
+      write('a.txt', 'changed')
+      fs.rmSync(path.join(workDir, 'nested/b.txt'))
+      write('nested/d.txt', 'four')
+      write('node_modules/pkg/index.js', 'skipped')
+
+      const report = await tracker.compare(snapshot, true)
+
+      expect(report).toEqual({
+        method: 'mtime',
+        root: workDir,
+        files: [
+          { path: 'a.txt', change: 'modified' },
+          { path: 'nested/b.txt', change: 'deleted' },
+          { path: 'nested/d.txt', change: 'created' },
+        ],
+      })
+    })
+
+    it('should flag runs tracked at the same time in overlapping directories', async () => {
+      write('nested/a.txt', 'one')
+      write('other/b.txt', 'two')
+      const outer = await tracker.snapshot(workDir)
+      const inner = await tracker.snapshot(path.join(workDir, 'nested'))
+      const innerReport = await tracker.compare(inner)
+      const outerReport = await tracker.compare(outer)
+      const later = await tracker.snapshot(path.join(workDir, 'nested'))
+      const sibling = await tracker.snapshot(path.join(workDir, 'other'))
+
+      expect(innerReport.overlapping).toBe(true)
+      expect(outerReport.overlapping).toBe(true)
+      expect((await tracker.compare(later)).overlapping).toBeUndefined()
+      expect((await tracker.compare(sibling)).overlapping).toBeUndefined()
+    })
+  })
+})
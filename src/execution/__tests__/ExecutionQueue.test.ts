@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { ExecutionQueue } from '../ExecutionQueue'
+
+describe('ExecutionQueue', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should start requests immediately without limits', async () => {
+    const queue = new ExecutionQueue(0, 1000)
+
+    await queue.acquire({ backend: 'cursor', agent: 'a' })
+    await queue.acquire({ backend: 'cursor', agent: 'a' })
+
+    expect(queue.getRunningCount()).toBe(2)
+    expect(queue.getQueueLength()).toBe(0)
+  })
+
+  it('should queue requests beyond the global limit in FIFO order', async () => {
+    const queue = new ExecutionQueue(1, 0)
+    const started: string[] = []
+    const release = await queue.acquire({ backend: 'cursor', agent: 'a' })
+
+    const second = queue.acquire({ backend: 'cursor', agent: 'b' }).then((next) => {
+      started.push('b')
+      return next
+    })
+    const third = queue.acquire({ backend: 'cursor', agent: 'c' }).then((next) => {
+      started.push('c')
+      return next
+    })
+    expect(queue.getQueueLength()).toBe(2)
+
+    release()
+    ;(await second)()
+    await third
+
+    expect(started).toEqual(['b', 'c'])
+    expect(queue.getRunningCount()).toBe(1)
+  })
+
+  it('should report queue positions as they change', async () => {
+    const queue = new ExecutionQueue(1, 0)
+    const release = await queue.acquire({ backend: 'cursor', agent: 'a' })
+    const firstPositions: number[] = []
+    const secondPositions: number[] = []
+
+    const first = queue.acquire({
+      backend: 'cursor',
+      agent: 'b',
+      onQueued: (position) => firstPositions.push(position),
+    })
+    queue.acquire({
+      backend: 'cursor',
+      agent: 'c',
+      onQueued: (position) => secondPositions.push(position),
+    })
+
+    release()
+    await first
+
+    expect(firstPositions).toEqual([1])
+    expect(secondPositions).toEqual([2, 1])
+  })
+
+  it('should let requests for other backends pass a busy backend', async () => {
+    const queue = new ExecutionQueue(0, 0)
+    await queue.acquire({ backend: 'claude', agent: 'a', backendLimit: 1 })
+
+    queue.acquire({ backend: 'claude', agent: 'b', backendLimit: 1 })
+    await queue.acquire({ backend: 'cursor', agent: 'c' })
+
+    expect(queue.getQueueLength()).toBe(1)
+    expect(queue.getRunningCount()).toBe(2)
+  })
+
+  it('should enforce per-agent limits', async () => {
+    const queue = new ExecutionQueue(0, 0)
+    const release = await queue.acquire({ backend: 'cursor', agent: 'a', agentLimit: 1 })
+    let started = false
+
+    const waiting = queue.acquire({ backend: 'cursor', agent: 'a', agentLimit: 1 }).then(() => {
+      started = true
+    })
+    await Promise.resolve()
+    expect(started).toBe(false)
+
+    release()
+    await waiting
+    expect(started).toBe(true)
+  })
+
+  it('should fail requests that wait longer than the queue timeout', async () => {
+    vi.useFakeTimers()
+    const queue = new ExecutionQueue(1, 1000)
+    await queue.acquire({ backend: 'cursor', agent: 'a' })
+
+    const waiting = queue.acquire({ backend: 'cursor', agent: 'b' })
+    vi.advanceTimersByTime(1000)
+
+    await expect(waiting).rejects.toMatchObject({ code: 'QUEUE_TIMEOUT' })
+    expect(queue.getQueueLength()).toBe(0)
+  })
+
+  it('should withdraw requests aborted while waiting', async () => {
+    const queue = new ExecutionQueue(1, 0)
+    await queue.acquire({ backend: 'cursor', agent: 'a' })
+    const controller = new AbortController()
+
+    const waiting = queue.acquire({ backend: 'cursor', agent: 'b', signal: controller.signal })
+    controller.abort()
+
+    await expect(waiting).rejects.toMatchObject({ code: 'QUEUE_CANCELLED' })
+    expect(queue.getQueueLength()).toBe(0)
+  })
+
+  it('should ignore repeated releases', async () => {
+    const queue = new ExecutionQueue(2, 0)
+    const release = await queue.acquire({ backend: 'cursor', agent: 'a' })
+    await queue.acquire({ backend: 'cursor', agent: 'b' })
+
+    release()
+    release()
+
+    expect(queue.getRunningCount()).toBe(1)
+  })
+})
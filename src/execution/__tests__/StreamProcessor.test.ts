@@ -1,3 +1,4 @@
+import { beforeEach, describe, expect, it } from 'vitest'
 import { StreamProcessor } from '../StreamProcessor'
 
 describe('StreamProcessor', () => {
@@ -19,18 +20,14 @@ describe('StreamProcessor', () => {
       })
     })
 
-    it('should ignore subsequent JSONs after the first one', () => {
-      const json1 = '{"response": "First JSON", "status": "success"}'
-      const json2 = '{"response": "Second JSON", "status": "also success"}'
-
-      expect(processor.processLine(json1)).toBe(true)
-      expect(processor.processLine(json2)).toBe(false)
+    it('should not end the run on JSON log lines', () => {
+      expect(processor.processLine('{"level": "info", "msg": "Connecting"}')).toBe(false)
+      expect(processor.processLine('[1, 2, 3]')).toBe(false)
+      expect(processor.getResult()).toBeNull()
 
-      // Should still have the first JSON
-      expect(processor.getResult()).toEqual({
-        response: 'First JSON',
-        status: 'success',
-      })
+      expect(processor.processLine('{"type": "result", "result": "Done"}')).toBe(true)
+      expect(processor.processLine('{"type": "result", "result": "Again"}')).toBe(false)
+      expect(processor.getResult()).toEqual({ type: 'result', result: 'Done' })
     })
 
     it('should handle cursor-agent JSON format', () => {
@@ -49,13 +46,19 @@ describe('StreamProcessor', () => {
       })
     })
 
-    it('should handle claude JSON format', () => {
-      const claudeJson = '{"response": "Claude output", "status": "complete"}'
+    it('should extract the text, error and usage of the result', () => {
+      const claudeJson =
+        '{"type":"result","subtype":"error_max_turns","is_error":true,"result":"","usage":{"input_tokens":10,"output_tokens":5,"cache_read_input_tokens":3}}'
 
+      expect(processor.getExtractedResult()).toBeNull()
       expect(processor.processLine(claudeJson)).toBe(true)
-      expect(processor.getResult()).toEqual({
-        response: 'Claude output',
-        status: 'complete',
+      expect(processor.getExtractedResult()).toEqual({
+        text: '',
+        isError: true,
+        error: 'error_max_turns',
+        usage: { inputTokens: 10, outputTokens: 5, cacheReadTokens: 3 },
+        toolCalls: [],
+        filesTouched: [],
       })
     })
   })
@@ -78,18 +81,19 @@ describe('StreamProcessor', () => {
     it('should handle malformed JSON gracefully', () => {
       expect(processor.processLine('{invalid json')).toBe(false)
       expect(processor.processLine('{"incomplete": ')).toBe(false)
-      expect(processor.processLine('null')).toBe(true) // null is valid JSON
-      expect(processor.getResult()).toBe(null) // but stored as null
+      expect(processor.processLine('null')).toBe(false) // valid JSON, but not a result
+      expect(processor.getResult()).toBe(null)
     })
   })
 
   describe('Edge cases', () => {
     it('should handle complex nested JSON structures', () => {
       const complexJson =
-        '{"foo": "bar", "nested": {"deep": {"value": "test"}}, "array": [1, 2, 3]}'
+        '{"type": "result", "foo": "bar", "nested": {"deep": {"value": "test"}}, "array": [1, 2, 3]}'
 
       expect(processor.processLine(complexJson)).toBe(true)
       expect(processor.getResult()).toEqual({
+        type: 'result',
         foo: 'bar',
         nested: { deep: { value: 'test' } },
         array: [1, 2, 3],
@@ -97,22 +101,86 @@ describe('StreamProcessor', () => {
     })
 
     it('should handle JSON with special characters', () => {
-      const jsonWithSpecialChars = '{"text": "Line 1\\nLine 2\\tTabbed", "emoji": "🎉"}'
+      const jsonWithSpecialChars =
+        '{"type": "result", "result": "Line 1\\nLine 2\\tTabbed", "emoji": "🎉"}'
 
       expect(processor.processLine(jsonWithSpecialChars)).toBe(true)
       expect(processor.getResult()).toEqual({
-        text: 'Line 1\nLine 2\tTabbed',
+        type: 'result',
+        result: 'Line 1\nLine 2\tTabbed',
         emoji: '🎉',
       })
     })
 
     it('should process lines with leading/trailing whitespace', () => {
-      const jsonWithWhitespace = '  {"data": "value"}  '
+      const jsonWithWhitespace = '  {"type": "result", "data": "value"}  '
 
       expect(processor.processLine(jsonWithWhitespace)).toBe(true)
       expect(processor.getResult()).toEqual({
+        type: 'result',
         data: 'value',
       })
     })
   })
+
+  describe('stream-json events', () => {
+    it('should not complete on intermediate stream events', () => {
+      expect(processor.processLine('{"type":"system","subtype":"init","session_id":"abc"}')).toBe(
+        false
+      )
+      expect(
+        processor.processLine(
+          '{"type":"assistant","message":{"content":[{"type":"text","text":"Working on it"}]}}'
+        )
+      ).toBe(false)
+      expect(processor.getResult()).toBeNull()
+      expect(processor.getEventCount()).toBe(2)
+    })
+
+    it('should complete on the result event', () => {
+      processor.processLine('{"type":"system","subtype":"init"}')
+
+      expect(processor.processLine('{"type":"result","subtype":"success","result":"Done"}')).toBe(
+        true
+      )
+      expect(processor.getResult()).toEqual({ type: 'result', subtype: 'success', result: 'Done' })
+    })
+
+    it('should track the latest assistant message text', () => {
+      processor.processLine(
+        '{"type":"assistant","message":{"content":[{"type":"text","text":"First"}]}}'
+      )
+      processor.processLine(
+        '{"type":"assistant","message":{"content":[{"type":"tool_use","name":"Read"},{"type":"text","text":"Second"}]}}'
+      )
+
+      expect(processor.getLastAssistantMessage()).toBe('Second')
+    })
+
+    it('should accumulate gemini assistant deltas into the result response', () => {
+      processor.processLine('{"type":"message","role":"user","content":"Question"}')
+      processor.processLine('{"type":"message","role":"assistant","content":"Hello ","delta":true}')
+      processor.processLine('{"type":"message","role":"assistant","content":"world","delta":true}')
+
+      expect(processor.getLastAssistantMessage()).toBe('Hello world')
+      expect(processor.processLine('{"type":"result","status":"success"}')).toBe(true)
+      expect(processor.getResult()).toEqual({
+        type: 'result',
+        status: 'success',
+        response: 'Hello world',
+      })
+    })
+
+    it('should record the session id reported by the CLI', () => {
+      processor.processLine('{"type":"system","subtype":"init","session_id":"session-1"}')
+      processor.processLine('{"type":"result","result":"Done","session_id":"session-1"}')
+
+      expect(processor.getSessionId()).toBe('session-1')
+    })
+
+    it('should return null when no assistant message was streamed', () => {
+      expect(processor.getLastAssistantMessage()).toBeNull()
+      expect(processor.getEventCount()).toBe(0)
+    })
+  })
 })
@@ -0,0 +1,128 @@
+import { execFileSync } from 'node:child_process'
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { WorktreeIsolation } from 'src/execution/WorktreeIsolation'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('WorktreeIsolation', () => {
+  let repoDir: string
+  const worktrees = new WorktreeIsolation()
+
+  beforeEach(() => {
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'worktree-isolation-test-')))
+    git('init', '-q')
+    write('src/a.ts', 'export const a = 1\n')
+    git('add', '-A')
+    git('commit', '-q', '-m', 'Initial commit')
+  })
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true })
+  })
+
+  const write = (name: string, content: string, dir = repoDir) => {
+    fs.mkdirSync(path.dirname(path.join(dir, name)), { recursive: true })
+    fs.writeFileSync(path.join(dir, name), content)
+  }
+
+  const read = (name: string) => fs.readFileSync(path.join(repoDir, name), 'utf8')
+
+  const git = (...args: string[]) =>
+    execFileSync('git', ['-c', 'user.name=Test', '-c', 'user.email=test@example.com', ...args], {
+      cwd: repoDir,
+      stdio: 'pipe',
+    }).toString()
+
+  it('should run in a worktree holding uncommitted files and keep its changes on a branch', async () => {
+    write('notes.md', 'draft')
+
+    const worktree = await worktrees.create(path.join(repoDir, 'src'), 'req_1')
+
+    expect(worktree.cwd).toBe(path.join(worktree.path, 'src'))
+    expect(fs.readFileSync(path.join(worktree.path, 'notes.md'), 'utf8')).toBe('draft')
+
+    write('a.ts', 'export const a = 2\n', worktree.cwd)
+    write('b.ts', 'export const b = 1\n', worktree.cwd)
+    const report = await worktrees.finish(worktree, true)
+
+    expect(report).toMatchObject({
+      method: 'git',
+      root: repoDir,
+      branch: 'sub-agents/req_1',
+      files: [
+        { path: 'src/a.ts', change: 'modified' },
+        { path: 'src/b.ts', change: 'created' },
+      ],
+    })
+    expect(report.diff).toContain('+export const a = 2')
+    expect(fs.existsSync(worktree.path)).toBe(false)
+    expect(read('src/a.ts')).toBe('export const a = 1\n')
+    expect(git('worktree', 'list')).not.toContain(worktree.path)
+  })
+
+  it('should not create a branch when the run changed nothing', async () => {
+    const worktree = await worktrees.create(repoDir, 'req_1')
+
+    const report = await worktrees.finish(worktree)
+
+    expect(report).toEqual({ method: 'git', root: repoDir, files: [] })
+    expect(git('branch', '--list', 'sub-agents/*')).toBe('')
+  })
+
+  it('should apply the changes to the working tree and delete the branch', async () => {
+    const worktree = await worktrees.create(repoDir, 'req_1')
+    write('src/a.ts', 'export const a = 2\n', worktree.path)
+    await worktrees.finish(worktree)
+    write('src/other.ts', 'edited meanwhile')
+
+    const report = await worktrees.apply(repoDir, 'sub-agents/req_1')
+
+    expect(report.files).toEqual([{ path: 'src/a.ts', change: 'modified' }])
+    expect(read('src/a.ts')).toBe('export const a = 2\n')
+    expect(read('src/other.ts')).toBe('edited meanwhile')
+    expect(git('branch', '--list', 'sub-agents/*')).toBe('')
+  })
+
+  it('should apply nothing when the changes conflict with later edits', async () => {
+    const worktree = await worktrees.create(repoDir, 'req_1')
+    write('src/a.ts', 'export const a = 2\n', worktree.path)
+    write('src/b.ts', 'export const b = 1\n', worktree.path)
+    await worktrees.finish(worktree)
+    write('src/a.ts', 'export const a = 3\n')
+
+    await expect(worktrees.apply(repoDir, 'sub-agents/req_1')).rejects.toMatchObject({
+      code: 'APPLY_FAILED',
+    })
+    expect(read('src/a.ts')).toBe('export const a = 3\n')
+    expect(fs.existsSync(path.join(repoDir, 'src/b.ts'))).toBe(false)
+    expect(git('branch', '--list', 'sub-agents/*')).toContain('sub-agents/req_1')
+  })
+
+  it('should discard branches of isolated runs only', async () => {
+    const worktree = await worktrees.create(repoDir, 'req_1')
+    write('src/a.ts', 'export const a = 2\n', worktree.path)
+    await worktrees.finish(worktree)
+
+    await expect(worktrees.discard(repoDir, 'master')).rejects.toMatchObject({
+      code: 'INVALID_BRANCH',
+    })
+    await worktrees.discard(repoDir, 'sub-agents/req_1')
+
+    expect(git('branch', '--list', 'sub-agents/*')).toBe('')
+    await expect(worktrees.discard(repoDir, 'sub-agents/req_1')).rejects.toMatchObject({
+      code: 'BRANCH_NOT_FOUND',
+    })
+  })
+
+  it('should reject working directories outside git', async () => {
+    const plainDir = fs.mkdtempSync(path.join(tmpdir(), 'worktree-isolation-plain-'))
+    try {
+      await expect(worktrees.create(plainDir, 'req_1')).rejects.toMatchObject({
+        code: 'NOT_A_GIT_REPOSITORY',
+      })
+    } finally {
+      fs.rmSync(plainDir, { recursive: true, force: true })
+    }
+  })
+})
@@ -6,8 +6,11 @@
  * Initializes and starts the MCP server with configuration loaded from
  * environment variables. This server provides AI agent execution capabilities
  * through the Model Context Protocol.
+ *
+ * `sub-agents-mcp validate` checks the agent definitions instead of starting the server.
  */
 
+import { runValidateCommand } from 'src/cli/ValidateCommand'
 import { ServerConfig } from 'src/config/ServerConfig'
 import { McpServer } from 'src/server/McpServer'
 
@@ -45,10 +48,21 @@ async function main(): Promise<void> {
 // Start the server if this module is the main entry point
 // Note: Using process.argv check instead of import.meta for broader compatibility
 if (require.main === module) {
-  main().catch((error) => {
-    console.error('Unhandled error in main:', error)
-    process.exit(1)
-  })
+  if (process.argv[2] === 'validate') {
+    runValidateCommand(process.argv.slice(3))
+      .then((exitCode) => {
+        process.exitCode = exitCode
+      })
+      .catch((error) => {
+        console.error('Unhandled error in validate:', error)
+        process.exit(1)
+      })
+  } else {
+    main().catch((error) => {
+      console.error('Unhandled error in main:', error)
+      process.exit(1)
+    })
+  }
 }
 
 export { McpServer } from 'src/server/McpServer'
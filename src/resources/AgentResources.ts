@@ -5,7 +5,8 @@
  * available agents and individual agent definition resources.
  */
 
-import type { AgentManager } from 'src/agents/AgentManager'
+import { type AgentManager, getQualifiedAgentName } from 'src/agents/AgentManager'
+import { DynamicAgentTool } from 'src/tools/DynamicAgentTools'
 import { Logger } from 'src/utils/Logger'
 
 /**
@@ -164,14 +165,36 @@ export class AgentResources {
       listText += `Each agent is exposed as its own MCP tool with the prefix 'agent_'.\n\n`
       listText += '---\n\n'
 
+      // Only show the layer of each agent when several directories are configured
+      const layered = this.agentManager.getLayers().length > 1
+
       for (const agent of agents) {
-        // Sanitize tool name the same way DynamicAgentTool does
-        const toolName = `agent_${agent.name.replace(/[^a-zA-Z0-9_-]/g, '_')}`
+        const toolName = DynamicAgentTool.sanitizeToolName(agent.name, agent.namespace)
 
-        listText += `## ${agent.name}\n`
+        listText += `## ${getQualifiedAgentName(agent)}\n`
         listText += `**Description:** ${agent.description}\n`
+        if (agent.namespace) {
+          listText += `**Namespace:** ${agent.namespace}\n`
+        }
         listText += `**Tool Name:** ${toolName}\n`
         listText += `**File:** ${agent.filePath}\n`
+        if (agent.extends) {
+          listText += `**Extends:** ${agent.extends}\n`
+        }
+        if (agent.inputs && Object.keys(agent.inputs).length > 0) {
+          const inputs = Object.entries(agent.inputs).map(
+            ([name, input]) =>
+              `${name} (${input.enum ? input.enum.join(' | ') : input.type}${input.required ? '' : ', optional'})`
+          )
+          listText += `**Inputs:** ${inputs.join(', ')}\n`
+        }
+        if (layered && agent.layer) {
+          listText += `**Layer:** ${agent.layer}\n`
+        }
+        if (agent.shadows && agent.shadows.length > 0) {
+          const shadowed = agent.shadows.map((shadow) => `${shadow.filePath} (${shadow.layer})`)
+          listText += `**Shadows:** ${shadowed.join(', ')}\n`
+        }
         listText += `**Last Modified:** ${agent.lastModified.toISOString()}\n`
 
         // Add agent type and model if available
@@ -0,0 +1,495 @@
+/**
+ * HTTP hosting for the MCP Streamable HTTP transport
+ *
+ * Serves MCP over HTTP so that a single long-lived server process can be
+ * shared by several clients. Each client session gets its own protocol
+ * server instance (created through the supplied factory) connected to its
+ * own StreamableHTTPServerTransport.
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto'
+import http from 'node:http'
+import os from 'node:os'
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { AppError } from 'src/utils/ErrorHandler'
+import { Logger } from 'src/utils/Logger'
+
+/**
+ * Path the MCP endpoint is served on
+ */
+export const MCP_HTTP_PATH = '/mcp'
+
+/**
+ * Maximum accepted request body size in bytes
+ */
+const MAX_BODY_BYTES = 4 * 1024 * 1024
+
+/**
+ * Default time in milliseconds after which a session without requests is closed
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000
+
+/**
+ * Host names that reach the server when it binds to a loopback address
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]']
+
+/**
+ * Check whether a bind address only accepts connections from the local machine
+ *
+ * @param host - Host name or address to bind to
+ * @returns True for localhost and loopback addresses
+ */
+function isLoopbackHost(host: string): boolean {
+  const normalized = host.toLowerCase()
+  return normalized === 'localhost' || normalized === '::1' || normalized.startsWith('127.')
+}
+
+/**
+ * Options for the HTTP transport host
+ */
+export interface HttpTransportHostOptions {
+  /** Host name or address to bind to */
+  host: string
+
+  /** Port to listen on (0 selects a free port) */
+  port: number
+
+  /**
+   * Time in milliseconds after which a session without open requests is closed
+   * (default: 30 minutes, 0 keeps sessions until the client ends them)
+   */
+  sessionIdleTimeoutMs?: number
+
+  /**
+   * Token clients must send as `Authorization: Bearer <token>` on every request.
+   * Required to bind to an address other than loopback.
+   */
+  authToken?: string
+}
+
+/**
+ * Active client session served over HTTP
+ */
+interface HttpSession {
+  transport: StreamableHTTPServerTransport
+  server: Server
+
+  /** Number of requests of the session still being answered */
+  openRequests: number
+
+  /** Timer closing the session once it has been idle for the timeout */
+  idleTimer?: NodeJS.Timeout
+}
+
+/**
+ * HttpTransportHost class serving MCP sessions over Streamable HTTP
+ */
+export class HttpTransportHost {
+  private httpServer: http.Server | null = null
+  private sessions: Map<string, HttpSession> = new Map()
+  private allowedHosts: string[] = []
+  private allowedOrigins: string[] = []
+  private logger: Logger
+
+  /**
+   * Creates a new HttpTransportHost instance.
+   *
+   * @param options - Host and port to listen on
+   * @param createServer - Factory creating a protocol server with all handlers registered
+   * @param logger - Optional Logger instance for structured logging
+   */
+  constructor(
+    private options: HttpTransportHostOptions,
+    private createServer: () => Server,
+    logger?: Logger
+  ) {
+    this.logger = logger || new Logger('info')
+  }
+
+  /**
+   * Start listening for HTTP connections
+   *
+   * @returns Promise resolving to the bound address
+   * @throws {AppError} When a non-loopback address is configured without an auth token
+   *   (code 'HTTP_AUTH_REQUIRED')
+   * @throws {AppError} When the server cannot bind to the configured address
+   */
+  async listen(): Promise<{ host: string; port: number }> {
+    if (this.httpServer) {
+      return this.getAddress()
+    }
+
+    // Anyone who can reach the port can run agents, so only loopback may go without a token
+    if (!this.options.authToken && !isLoopbackHost(this.options.host)) {
+      throw new AppError(
+        `Refusing to listen on ${this.options.host} without an auth token; set HTTP_AUTH_TOKEN or bind to a loopback address`,
+        'HTTP_AUTH_REQUIRED'
+      )
+    }
+
+    const httpServer = http.createServer((req, res) => {
+      this.handleHttpRequest(req, res).catch((error: unknown) => {
+        this.logger.error(
+          'HTTP request handling failed',
+          error instanceof Error ? error : undefined,
+          { method: req.method, url: req.url }
+        )
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error')
+        }
+      })
+    })
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', (error) => {
+        reject(
+          new AppError(
+            `Failed to listen on ${this.options.host}:${this.options.port}: ${error.message}`,
+            'HTTP_LISTEN_FAILED'
+          )
+        )
+      })
+      httpServer.listen(this.options.port, this.options.host, () => resolve())
+    })
+
+    this.httpServer = httpServer
+    const address = this.getAddress()
+    this.allowedHosts = this.getHostNames().map((name) => `${name}:${address.port}`)
+    this.allowedOrigins = this.allowedHosts.map((allowedHost) => `http://${allowedHost}`)
+
+    this.logger.info('MCP HTTP transport listening', {
+      url: `http://${address.host}:${address.port}${MCP_HTTP_PATH}`,
+    })
+
+    return address
+  }
+
+  /**
+   * Get the bound address
+   *
+   * @returns Host and port the server is listening on
+   */
+  getAddress(): { host: string; port: number } {
+    const address = this.httpServer?.address()
+    if (address && typeof address === 'object') {
+      return { host: address.address, port: address.port }
+    }
+    return { host: this.options.host, port: this.options.port }
+  }
+
+  /**
+   * Get the protocol servers of all active sessions
+   *
+   * @returns Array of connected protocol servers
+   */
+  getServers(): Server[] {
+    return Array.from(this.sessions.values()).map((session) => session.server)
+  }
+
+  /**
+   * Get the number of active sessions
+   *
+   * @returns Active session count
+   */
+  getSessionCount(): number {
+    return this.sessions.size
+  }
+
+  /**
+   * Close all sessions and stop listening
+   */
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values())
+    this.sessions.clear()
+
+    for (const session of sessions) {
+      clearTimeout(session.idleTimer)
+      try {
+        await session.server.close()
+      } catch (error) {
+        this.logger.warn('Failed to close HTTP session', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+
+    const httpServer = this.httpServer
+    this.httpServer = null
+    if (httpServer) {
+      httpServer.closeAllConnections()
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()))
+    }
+  }
+
+  /**
+   * Route an HTTP request to the session it belongs to, creating a new
+   * session for initialize requests
+   *
+   * @private
+   * @param req - Incoming HTTP request
+   * @param res - HTTP response
+   */
+  private async handleHttpRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost')
+    if (url.pathname !== MCP_HTTP_PATH) {
+      res.writeHead(404).end('Not Found')
+      return
+    }
+
+    if (!this.isAuthorized(req)) {
+      this.logger.warn('Rejected unauthorized HTTP request', {
+        remoteAddress: req.socket.remoteAddress,
+      })
+      this.sendJsonRpcError(res, 401, -32000, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' })
+      return
+    }
+
+    const rejection = this.validateRequestHeaders(req)
+    if (rejection) {
+      this.logger.warn('Rejected HTTP request', {
+        reason: rejection,
+        remoteAddress: req.socket.remoteAddress,
+      })
+      this.sendJsonRpcError(res, 403, -32000, rejection)
+      return
+    }
+
+    const body = req.method === 'POST' ? await this.readJsonBody(req, res) : undefined
+    if (req.method === 'POST' && body === undefined) {
+      return
+    }
+
+    const sessionHeader = req.headers['mcp-session-id']
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId)
+      if (!session) {
+        this.sendJsonRpcError(res, 404, -32001, 'Session not found')
+        return
+      }
+      this.trackRequest(sessionId, session, res)
+      await session.transport.handleRequest(req, res, body)
+      return
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Bad Request: No valid session ID provided')
+      return
+    }
+
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: true,
+      allowedHosts: this.allowedHosts,
+      onsessioninitialized: (newSessionId) => {
+        const session: HttpSession = { transport, server, openRequests: 0 }
+        this.sessions.set(newSessionId, session)
+        this.trackRequest(newSessionId, session, res)
+        this.logger.info('MCP HTTP session started', {
+          sessionId: newSessionId,
+          activeSessions: this.sessions.size,
+        })
+      },
+    })
+
+    transport.onclose = () => {
+      const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined
+      if (transport.sessionId && session) {
+        clearTimeout(session.idleTimer)
+        this.sessions.delete(transport.sessionId)
+        this.logger.info('MCP HTTP session closed', {
+          sessionId: transport.sessionId,
+          activeSessions: this.sessions.size,
+        })
+      }
+    }
+
+    const server = this.createServer()
+    await server.connect(transport)
+    await transport.handleRequest(req, res, body)
+  }
+
+  /**
+   * Check the bearer token of a request when an auth token is configured
+   *
+   * @private
+   * @param req - Incoming HTTP request
+   * @returns True when no token is configured or the request carries it
+   */
+  private isAuthorized(req: http.IncomingMessage): boolean {
+    const { authToken } = this.options
+    if (!authToken) {
+      return true
+    }
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '')
+    if (!match?.[1]) {
+      return false
+    }
+    // Compare digests so the comparison takes the same time for any token length
+    const digest = (token: string) => createHash('sha256').update(token).digest()
+    return timingSafeEqual(digest(match[1].trim()), digest(authToken))
+  }
+
+  /**
+   * Check the Host and Origin headers against the addresses the server listens on,
+   * so that web pages cannot reach it through DNS rebinding or cross-origin requests
+   *
+   * Requests without an Origin header come from non-browser clients and are accepted.
+   *
+   * @private
+   * @param req - Incoming HTTP request
+   * @returns Reason for rejecting the request, or undefined when it is allowed
+   */
+  private validateRequestHeaders(req: http.IncomingMessage): string | undefined {
+    const hostHeader = req.headers.host
+    if (!hostHeader || !this.allowedHosts.includes(hostHeader.toLowerCase())) {
+      return `Invalid Host header: ${hostHeader}`
+    }
+    const origin = req.headers.origin
+    if (origin !== undefined && !this.allowedOrigins.includes(origin.toLowerCase())) {
+      return `Invalid Origin header: ${origin}`
+    }
+    return undefined
+  }
+
+  /**
+   * Get the host names clients may use to reach the bound address
+   *
+   * A wildcard address accepts the loopback names and the addresses of all
+   * network interfaces; other addresses accept only themselves.
+   *
+   * @private
+   * @returns Host names without port, IPv6 addresses in brackets
+   */
+  private getHostNames(): string[] {
+    const host = this.options.host.toLowerCase()
+    const bracket = (address: string) => (address.includes(':') ? `[${address}]` : address)
+
+    if (host === '' || host === '0.0.0.0' || host === '::') {
+      const interfaceAddresses = Object.values(os.networkInterfaces()).flatMap((addresses) =>
+        (addresses ?? []).map((address) => bracket(address.address.toLowerCase()))
+      )
+      return [...new Set([...LOOPBACK_HOSTS, os.hostname().toLowerCase(), ...interfaceAddresses])]
+    }
+    if (isLoopbackHost(host)) {
+      return [...new Set([...LOOPBACK_HOSTS, bracket(host)])]
+    }
+    return [bracket(host)]
+  }
+
+  /**
+   * Keep a session alive while one of its requests is open and schedule its
+   * expiry once the last one is answered
+   *
+   * @private
+   * @param sessionId - Session the request belongs to
+   * @param session - Session state
+   * @param res - HTTP response of the request
+   */
+  private trackRequest(sessionId: string, session: HttpSession, res: http.ServerResponse): void {
+    const idleTimeoutMs = this.options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS
+    clearTimeout(session.idleTimer)
+    session.openRequests++
+
+    res.once('close', () => {
+      session.openRequests--
+      if (session.openRequests > 0 || idleTimeoutMs <= 0 || !this.sessions.has(sessionId)) {
+        return
+      }
+      session.idleTimer = setTimeout(() => {
+        void this.expireSession(sessionId, session)
+      }, idleTimeoutMs)
+      session.idleTimer.unref()
+    })
+  }
+
+  /**
+   * Close a session that has been idle for the timeout
+   *
+   * @private
+   * @param sessionId - Session to close
+   * @param session - Session state
+   */
+  private async expireSession(sessionId: string, session: HttpSession): Promise<void> {
+    if (this.sessions.get(sessionId) !== session) {
+      return
+    }
+    this.sessions.delete(sessionId)
+    this.logger.info('MCP HTTP session expired', {
+      sessionId,
+      activeSessions: this.sessions.size,
+    })
+    try {
+      await session.server.close()
+    } catch (error) {
+      this.logger.warn('Failed to close HTTP session', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  /**
+   * Read and parse a JSON request body
+   *
+   * @private
+   * @param req - Incoming HTTP request
+   * @param res - HTTP response used to report malformed bodies
+   * @returns Parsed body, or undefined when an error response was sent
+   */
+  private async readJsonBody(
+    req: http.IncomingMessage,
+    res: http.ServerResponse
+  ): Promise<unknown> {
+    const chunks: Buffer[] = []
+    let size = 0
+
+    for await (const chunk of req) {
+      size += (chunk as Buffer).length
+      if (size > MAX_BODY_BYTES) {
+        this.sendJsonRpcError(res, 413, -32000, 'Request body too large')
+        return undefined
+      }
+      chunks.push(chunk as Buffer)
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'))
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: Invalid JSON')
+      return undefined
+    }
+  }
+
+  /**
+   * Send a JSON-RPC error response
+   *
+   * @private
+   * @param res - HTTP response
+   * @param statusCode - HTTP status code
+   * @param code - JSON-RPC error code
+   * @param message - Error message
+   * @param headers - Additional response headers
+   */
+  private sendJsonRpcError(
+    res: http.ServerResponse,
+    statusCode: number,
+    code: number,
+    message: string,
+    headers: http.OutgoingHttpHeaders = {}
+  ): void {
+    res.writeHead(statusCode, { ...headers, 'Content-Type': 'application/json' }).end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null,
+      })
+    )
+  }
+}
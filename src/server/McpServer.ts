@@ -2,8 +2,9 @@
  * MCP Server implementation using @modelcontextprotocol/sdk
  *
  * Provides the foundational MCP server functionality with StdioServerTransport
- * for stdin/stdout communication. This class serves as the entry point for
- * the MCP server and handles basic server lifecycle operations.
+ * for stdin/stdout communication, or the Streamable HTTP transport so that one
+ * long-lived process can be shared by several clients. This class serves as
+ * the entry point for the MCP server and handles basic server lifecycle operations.
  *
  * @example
  * ```typescript
@@ -15,6 +16,7 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js'
 import {
   CallToolRequestSchema,
   type CallToolResult,
@@ -22,16 +24,32 @@ import {
   type ListResourcesResult,
   ListToolsRequestSchema,
   type ListToolsResult,
+  type ProgressToken,
   ReadResourceRequestSchema,
   type ReadResourceResult,
+  type Root,
+  RootsListChangedNotificationSchema,
+  type ServerNotification,
+  type ServerRequest,
 } from '@modelcontextprotocol/sdk/types.js'
-import { AgentManager } from 'src/agents/AgentManager'
+import { type AgentCacheStats, AgentManager } from 'src/agents/AgentManager'
+import { AgentWatcher } from 'src/agents/AgentWatcher'
+import { findProjectAgentLayers } from 'src/agents/ProjectAgents'
+import { BackendRegistry } from 'src/backends/BackendRegistry'
 import type { ServerConfig } from 'src/config/ServerConfig'
-import { AgentExecutor, createExecutionConfig } from 'src/execution/AgentExecutor'
+import {
+  AgentExecutor,
+  type ExecutionProgress,
+  createExecutionConfig,
+} from 'src/execution/AgentExecutor'
+import { WorktreeIsolation } from 'src/execution/WorktreeIsolation'
 import { AgentResources } from 'src/resources/AgentResources'
+import { HttpTransportHost } from 'src/server/HttpTransportHost'
+import { AgentChangesTool } from 'src/tools/AgentChangesTools'
 import { DynamicAgentTool } from 'src/tools/DynamicAgentTools'
 import { AppError, ValidationError } from 'src/utils/ErrorHandler'
 import { Logger } from 'src/utils/Logger'
+import { getRootPaths } from 'src/utils/WorkspaceSandbox'
 
 /**
  * Server information interface for MCP server identification
@@ -41,22 +59,47 @@ interface ServerInfo {
   version: string
 }
 
+/**
+ * Agents of a client whose workspace roots contain project agent folders.
+ * Other clients share the agents of the configured layers.
+ */
+interface ProjectSession {
+  /** Project agent folders found in the client's workspace roots */
+  directories: string[]
+  agentManager: AgentManager
+  agentResources: AgentResources
+  dynamicTools: Map<string, DynamicAgentTool>
+}
+
 /**
  * Logger function type for structured logging
  */
 type LogLevel = 'debug' | 'info' | 'warn' | 'error'
 
+/**
+ * Maximum length of the assistant message snippet included in progress notifications
+ */
+const PROGRESS_SNIPPET_LENGTH = 120
+
 /**
  * MCP Server class providing foundational server functionality
  */
 export class McpServer {
   private server: Server
-  private transport: StdioServerTransport | null = null
+  private transport: StdioServerTransport | HttpTransportHost | null = null
   private config: ServerConfig
   private agentManager: AgentManager
+  private backends: BackendRegistry
   private agentExecutor: AgentExecutor
   private dynamicTools: Map<string, DynamicAgentTool> = new Map()
+  private changesTools: Map<string, AgentChangesTool>
   private agentResources: AgentResources
+  private agentWatchers: AgentWatcher[]
+  private projectWatchers: Map<string, AgentWatcher> = new Map()
+  private workspaceRoots: Map<Server, Root[]> = new Map()
+  private projectSessions: Map<Server, ProjectSession> = new Map()
+  private unrestrictedClients: WeakSet<Server> = new WeakSet()
+  private logger: Logger
 
   /**
    * Create a new MCP server instance
@@ -72,56 +115,300 @@ export class McpServer {
       version: config.serverVersion,
     })
 
+    // Create logger with log level from config
+    const executorLogger = new Logger(config.logLevel)
+    this.logger = executorLogger
+
+    // Resolve the CLI backends available to agents
+    const backends = this.createBackendRegistry(config)
+    this.backends = backends
+
     // Initialize agent management components
-    this.agentManager = new AgentManager(config)
+    this.agentManager = new AgentManager(config, backends)
 
     // Create ExecutionConfig with the agent type from server config
     const executionConfig = createExecutionConfig(config.agentType, {
       executionTimeout: config.executionTimeoutMs, // Use timeout from config (env var or 90s default)
+      maxConcurrent: config.maxConcurrentAgents,
+      queueTimeout: config.queueTimeoutMs,
     })
 
-    // Create logger with log level from config
-    const executorLogger = new Logger(config.logLevel)
-
-    this.agentExecutor = new AgentExecutor(executionConfig, executorLogger)
+    this.agentExecutor = new AgentExecutor(executionConfig, executorLogger, backends)
     this.agentResources = new AgentResources(this.agentManager)
 
-    // Initialize MCP server with capabilities
-    this.server = new Server(
+    // Tools applying or discarding the changes of runs isolated in a worktree
+    const worktrees = new WorktreeIsolation()
+    this.changesTools = new Map(
+      (['apply', 'discard'] as const).map((action) => {
+        const tool = new AgentChangesTool(action, worktrees)
+        return [tool.name, tool]
+      })
+    )
+
+    // Watch agent definitions so edits are picked up without restarting the client
+    this.agentWatchers = config.agentLayers.map(
+      (layer) =>
+        new AgentWatcher(
+          layer.directory,
+          () => this.reloadDynamicTools(),
+          undefined,
+          executorLogger
+        )
+    )
+
+    // Initialize MCP server with capabilities and handlers
+    this.server = this.createProtocolServer()
+
+    // Setup transport (stdio by default, Streamable HTTP when configured)
+    this.setupTransport()
+
+    this.log('info', 'MCP server initialized successfully')
+  }
+
+  /**
+   * Create a protocol server with capabilities and all MCP handlers registered.
+   * The stdio transport uses a single instance; the HTTP transport creates one per session.
+   *
+   * @private
+   * @returns Configured protocol server
+   */
+  private createProtocolServer(): Server {
+    const server = new Server(
       {
-        name: config.serverName,
-        version: config.serverVersion,
+        name: this.config.serverName,
+        version: this.config.serverVersion,
       },
       {
         capabilities: {
-          tools: {},
+          tools: { listChanged: true },
           resources: {},
         },
       }
     )
 
-    // Setup StdioServerTransport for stdin/stdout communication
-    this.setupTransport()
+    this.setupHandlers(server)
 
-    // Setup MCP handlers
-    this.setupHandlers()
+    // Look for project agents in the client's workspace once the session is initialized
+    server.oninitialized = () => {
+      void this.refreshWorkspaceRoots(server)
+    }
 
-    this.log('info', 'MCP server initialized successfully')
+    return server
+  }
+
+  /**
+   * Fetch the workspace roots of a client and update its project agent folders.
+   * Clients without the roots capability are skipped.
+   *
+   * @private
+   * @param server - Protocol server connected to the client
+   */
+  private async refreshWorkspaceRoots(server: Server): Promise<void> {
+    if (!server.getClientCapabilities()?.roots) {
+      return
+    }
+
+    try {
+      const { roots } = await server.listRoots()
+      this.workspaceRoots.set(server, roots)
+      this.log('debug', 'Received workspace roots', { roots: roots.map((root) => root.uri) })
+    } catch (error) {
+      this.log('warn', 'Failed to list workspace roots', {
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return
+    }
+
+    await this.updateProjectLayers(server)
+  }
+
+  /**
+   * Get the directories agents called by a client may run in: ALLOWED_ROOTS when
+   * configured, otherwise the client's workspace roots.
+   *
+   * When neither is available, for example because the client does not support
+   * roots, calls are not restricted to any directory. This is logged as a
+   * warning once per client; set ALLOWED_ROOTS to enforce a sandbox for every client.
+   *
+   * @private
+   * @param server - Protocol server connected to the client, if any
+   * @returns Allowed roots; empty when neither is available
+   */
+  private async getAllowedRoots(server?: Server): Promise<string[]> {
+    const configuredRoots = this.config.allowedRoots ?? []
+    if (configuredRoots.length > 0 || !server) {
+      return configuredRoots
+    }
+
+    // Roots are fetched after initialization; wait for them if a call comes first
+    if (!this.workspaceRoots.has(server)) {
+      await this.refreshWorkspaceRoots(server)
+    }
+
+    const rootPaths = getRootPaths(this.workspaceRoots.get(server) ?? [])
+    if (rootPaths.length === 0 && !this.unrestrictedClients.has(server)) {
+      this.unrestrictedClients.add(server)
+      this.log(
+        'warn',
+        'ALLOWED_ROOTS is not set and the client shares no workspace roots; agents may run in any directory',
+        { clientSupportsRoots: Boolean(server.getClientCapabilities()?.roots) }
+      )
+    }
+    return rootPaths
+  }
+
+  /**
+   * Update the project agent folders of a client from its workspace roots, and
+   * reload its tools when they changed. Only that client is notified; the
+   * agents of other clients are not affected.
+   *
+   * @private
+   * @param server - Protocol server connected to the client
+   */
+  private async updateProjectLayers(server: Server): Promise<void> {
+    this.pruneEndedSessions()
+
+    const layers = findProjectAgentLayers(
+      this.workspaceRoots.get(server) ?? [],
+      this.config.projectAgentsDirs
+    )
+    const directories = layers.map((layer) => layer.directory)
+    const session = this.projectSessions.get(server)
+    if (directories.join('\n') === (session?.directories ?? []).join('\n')) {
+      return
+    }
+
+    this.log('info', 'Project agent folders changed', { directories })
+    if (layers.length === 0) {
+      this.projectSessions.delete(server)
+    } else {
+      const agentManager = session?.agentManager ?? new AgentManager(this.config, this.backends)
+      agentManager.setProjectLayers(layers)
+      this.projectSessions.set(server, {
+        directories,
+        agentManager,
+        agentResources: session?.agentResources ?? new AgentResources(agentManager),
+        dynamicTools: await this.createDynamicTools(agentManager),
+      })
+    }
+    this.updateProjectWatchers()
+
+    await this.notifyToolListChanged([server])
+  }
+
+  /**
+   * Forget the workspace roots and project agents of HTTP sessions that have ended
+   *
+   * @private
+   */
+  private pruneEndedSessions(): void {
+    const connectedServers = new Set(this.getConnectedServers())
+    for (const server of this.workspaceRoots.keys()) {
+      if (!connectedServers.has(server)) {
+        this.workspaceRoots.delete(server)
+      }
+    }
+    for (const server of this.projectSessions.keys()) {
+      if (!connectedServers.has(server)) {
+        this.projectSessions.delete(server)
+      }
+    }
+    this.updateProjectWatchers()
   }
 
   /**
-   * Initialize dynamic agent tools by loading all agents and creating tool instances
+   * Watch the project agent folders of all clients, stopping watchers of folders
+   * no client uses anymore
+   *
+   * @private
+   */
+  private updateProjectWatchers(): void {
+    const directories = new Set(
+      Array.from(this.projectSessions.values()).flatMap((session) => session.directories)
+    )
+    for (const [directory, watcher] of this.projectWatchers) {
+      if (!directories.has(directory)) {
+        watcher.stop()
+        this.projectWatchers.delete(directory)
+      }
+    }
+    for (const directory of directories) {
+      if (!this.projectWatchers.has(directory)) {
+        const watcher = new AgentWatcher(
+          directory,
+          () => this.reloadDynamicTools(directory),
+          undefined,
+          this.logger
+        )
+        watcher.start()
+        this.projectWatchers.set(directory, watcher)
+      }
+    }
+  }
+
+  /**
+   * Get the agent tools of a client: those of its project session, or the
+   * shared tools of the configured layers
+   *
+   * @private
+   * @param server - Protocol server connected to the client, if any
+   * @returns Dynamic agent tools by tool name
+   */
+  private async getDynamicTools(server?: Server): Promise<Map<string, DynamicAgentTool>> {
+    const session = server && this.projectSessions.get(server)
+    if (session) {
+      return session.dynamicTools
+    }
+
+    // Ensure dynamic tools are initialized
+    if (this.dynamicTools.size === 0) {
+      await this.initializeDynamicTools()
+    }
+    return this.dynamicTools
+  }
+
+  /**
+   * Get protocol servers that are connected to clients
+   *
+   * @private
+   * @returns Connected protocol servers
+   */
+  private getConnectedServers(): Server[] {
+    if (this.transport instanceof HttpTransportHost) {
+      return this.transport.getServers()
+    }
+    return [this.server]
+  }
+
+  /**
+   * Initialize the shared dynamic agent tools of the configured layers
    *
    * @private
    */
   private async initializeDynamicTools(): Promise<void> {
+    this.dynamicTools = await this.createDynamicTools(this.agentManager)
+  }
+
+  /**
+   * Create dynamic agent tools by loading all agents of a manager and creating tool instances
+   *
+   * @private
+   * @param agentManager - Manager providing the agents
+   * @returns Dynamic agent tools by tool name; empty when the agents cannot be loaded
+   */
+  private async createDynamicTools(
+    agentManager: AgentManager
+  ): Promise<Map<string, DynamicAgentTool>> {
     try {
       this.log('debug', 'Initializing dynamic agent tools')
       const startTime = Date.now()
 
-      const agents = await this.agentManager.listAgents()
+      const agents = await agentManager.listAgents()
+
+      // Build into a fresh map so a reload swaps the tool set atomically
+      const tools = new Map<string, DynamicAgentTool>()
 
-      // Track tool names to detect collisions
+      // Track tool names to detect collisions, by agent name including the namespace
       const toolNameToAgents = new Map<string, string[]>()
 
       for (const agent of agents) {
@@ -129,21 +416,24 @@ export class McpServer {
           agent.name,
           agent.description,
           this.agentExecutor,
-          this.agentManager
+          agentManager,
+          agent.namespace,
+          agent.inputs,
+          agent.outputSchema
         )
 
         // Check for collision
-        if (this.dynamicTools.has(tool.name)) {
+        if (tools.has(tool.name)) {
           // Collision detected - track all agents with this tool name
           const existingAgents = toolNameToAgents.get(tool.name) || []
           if (existingAgents.length === 0) {
             // First collision - add the original agent that created this tool name
-            const existingTool = this.dynamicTools.get(tool.name)
+            const existingTool = tools.get(tool.name)
             if (existingTool) {
               existingAgents.push(existingTool.getAgentName())
             }
           }
-          existingAgents.push(agent.name)
+          existingAgents.push(tool.getAgentName())
           toolNameToAgents.set(tool.name, existingAgents)
 
           // Log warning about collision
@@ -154,11 +444,11 @@ export class McpServer {
           })
         } else {
           // Track this tool name with its agent
-          toolNameToAgents.set(tool.name, [agent.name])
+          toolNameToAgents.set(tool.name, [tool.getAgentName()])
         }
 
         // Set the tool (will overwrite if collision occurs)
-        this.dynamicTools.set(tool.name, tool)
+        tools.set(tool.name, tool)
       }
 
       // Log summary of any collisions
@@ -182,18 +472,102 @@ export class McpServer {
 
       this.log('info', 'Dynamic agent tools initialized successfully', {
         agentCount: agents.length,
-        toolCount: this.dynamicTools.size,
+        toolCount: tools.size,
         collisionCount: collisions.length,
         initTime: Date.now() - startTime,
       })
+
+      return tools
     } catch (error) {
       // Log the error but don't throw - allow server to work with 0 agents
       this.log('warn', 'Failed to initialize dynamic agent tools (server will have 0 tools)', {
         error: error instanceof Error ? error.message : String(error),
       })
-      // Clear any partially loaded tools
-      this.dynamicTools.clear()
+      // Drop tools from a previous load that may no longer exist on disk
+      return new Map()
+    }
+  }
+
+  /**
+   * Rebuild dynamic agent tools after agent definitions changed on disk
+   * and notify the clients whose tool list changed.
+   *
+   * @param projectDirectory - Project agent folder that changed; omit when a configured
+   *   layer changed, which affects every client
+   */
+  async reloadDynamicTools(projectDirectory?: string): Promise<void> {
+    this.log(
+      'info',
+      'Agent definitions changed, reloading dynamic agent tools',
+      projectDirectory ? { projectDirectory } : undefined
+    )
+    this.pruneEndedSessions()
+
+    const affectedServers: Server[] = []
+    if (!projectDirectory) {
+      await this.initializeDynamicTools()
+      affectedServers.push(...this.getConnectedServers())
     }
+    for (const [server, session] of this.projectSessions) {
+      if (!projectDirectory || session.directories.includes(projectDirectory)) {
+        session.dynamicTools = await this.createDynamicTools(session.agentManager)
+        if (projectDirectory) {
+          affectedServers.push(server)
+        }
+      }
+    }
+
+    await this.notifyToolListChanged(affectedServers)
+  }
+
+  /**
+   * Send tools/list_changed to clients
+   *
+   * @private
+   * @param servers - Protocol servers connected to the clients to notify
+   */
+  private async notifyToolListChanged(servers: Server[]): Promise<void> {
+    for (const server of servers) {
+      try {
+        await server.sendToolListChanged()
+        this.log('debug', 'Sent tools/list_changed notification')
+      } catch (error) {
+        // Not connected yet; clients will fetch the fresh list on their next list_tools
+        this.log('debug', 'Skipped tools/list_changed notification', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+      }
+    }
+  }
+
+  /**
+   * Create the backend registry with the built-in backends and those
+   * declared in the backends configuration file. Without BACKENDS_CONFIG,
+   * a backends.json/.yaml/.yml next to the agents directory is used if present.
+   * @param config Server configuration
+   * @returns Backend registry
+   * @throws {AppError} When the backends configuration file is invalid
+   */
+  private createBackendRegistry(config: ServerConfig): BackendRegistry {
+    const backends = BackendRegistry.withBuiltins()
+    const configPath = config.backendsConfig || BackendRegistry.findConfigFile(config.agentsDir)
+
+    if (configPath) {
+      backends.loadConfigFile(configPath)
+      this.log('info', 'Loaded backends configuration', {
+        path: configPath,
+        backends: backends.names(),
+      })
+    }
+
+    if (!backends.has(config.agentType)) {
+      this.log('warn', 'Default agent type has no registered backend', {
+        agentType: config.agentType,
+        backends: backends.names(),
+      })
+    }
+
+    return backends
   }
 
   /**
@@ -238,10 +612,27 @@ export class McpServer {
   }
 
   /**
-   * Setup StdioServerTransport for MCP communication
+   * Setup the configured transport for MCP communication
    */
   private setupTransport(): void {
     try {
+      if (this.config.transport === 'http') {
+        this.transport = new HttpTransportHost(
+          {
+            host: this.config.httpHost || '127.0.0.1',
+            port: this.config.httpPort ?? 3000,
+            ...(this.config.httpSessionTimeoutMs !== undefined && {
+              sessionIdleTimeoutMs: this.config.httpSessionTimeoutMs,
+            }),
+            ...(this.config.httpAuthToken && { authToken: this.config.httpAuthToken }),
+          },
+          () => this.createProtocolServer(),
+          this.logger
+        )
+        this.log('debug', 'Streamable HTTP transport configured successfully')
+        return
+      }
+
       this.transport = new StdioServerTransport()
       this.log('debug', 'StdioServerTransport configured successfully')
     } catch (error) {
@@ -252,25 +643,32 @@ export class McpServer {
 
   /**
    * Setup MCP protocol handlers with performance monitoring
+   * @param server Protocol server to register the handlers on
    */
-  private setupHandlers(): void {
+  private setupHandlers(server: Server): void {
     try {
       // List tools handler
-      this.server.setRequestHandler(ListToolsRequestSchema, async (): Promise<ListToolsResult> => {
+      server.setRequestHandler(ListToolsRequestSchema, async (): Promise<ListToolsResult> => {
         const startTime = Date.now()
         this.log('debug', 'Received list_tools request')
 
         try {
-          // Ensure dynamic tools are initialized
-          if (this.dynamicTools.size === 0) {
-            await this.initializeDynamicTools()
-          }
-
-          const tools = Array.from(this.dynamicTools.values()).map((tool) => ({
+          const dynamicTools = await this.getDynamicTools(server)
+          const tools: ListToolsResult['tools'] = Array.from(dynamicTools.values()).map((tool) => ({
             name: tool.name,
             description: tool.description,
             inputSchema: tool.inputSchema,
+            ...(tool.outputSchema && {
+              outputSchema: tool.outputSchema as ListToolsResult['tools'][number]['outputSchema'],
+            }),
           }))
+          for (const tool of this.changesTools.values()) {
+            tools.push({
+              name: tool.name,
+              description: tool.description,
+              inputSchema: tool.inputSchema,
+            })
+          }
 
           const result: ListToolsResult = {
             tools,
@@ -292,25 +690,39 @@ export class McpServer {
       })
 
       // Call tool handler
-      this.server.setRequestHandler(
+      server.setRequestHandler(
         CallToolRequestSchema,
-        async (request): Promise<CallToolResult> => {
+        async (request, extra): Promise<CallToolResult> => {
           const startTime = Date.now()
           const { params } = request
-          this.log('debug', 'Received call_tool request', { tool: params.name })
+          const progressToken = params._meta?.progressToken
+          this.log('debug', 'Received call_tool request', {
+            tool: params.name,
+            hasProgressToken: progressToken !== undefined,
+          })
 
           try {
-            // Ensure dynamic tools are initialized
-            if (this.dynamicTools.size === 0) {
-              await this.initializeDynamicTools()
-            }
-
-            const tool = this.dynamicTools.get(params.name)
+            const dynamicTools = await this.getDynamicTools(server)
+            const tool = dynamicTools.get(params.name) ?? this.changesTools.get(params.name)
             if (!tool) {
               throw new ValidationError(`Unknown tool: ${params.name}`, 'UNKNOWN_TOOL')
             }
 
-            const result = await tool.execute(params.arguments)
+            const allowedRoots = await this.getAllowedRoots(server)
+            const result =
+              tool instanceof AgentChangesTool
+                ? await tool.execute(params.arguments, allowedRoots)
+                : await tool.execute(
+                    params.arguments,
+                    {
+                      // Cancels the agent when the client sends notifications/cancelled
+                      signal: extra.signal,
+                      ...(progressToken !== undefined && {
+                        onProgress: this.createProgressReporter(progressToken, extra),
+                      }),
+                    },
+                    allowedRoots
+                  )
 
             this.log('info', 'Tool execution completed', {
               tool: params.name,
@@ -331,14 +743,16 @@ export class McpServer {
       )
 
       // List resources handler
-      this.server.setRequestHandler(
+      server.setRequestHandler(
         ListResourcesRequestSchema,
         async (): Promise<ListResourcesResult> => {
           const startTime = Date.now()
           this.log('debug', 'Received list_resources request')
 
           try {
-            const resources = await this.agentResources.listResources()
+            const agentResources =
+              this.projectSessions.get(server)?.agentResources ?? this.agentResources
+            const resources = await agentResources.listResources()
 
             this.log('debug', 'List resources request completed', {
               responseTime: Date.now() - startTime,
@@ -357,7 +771,7 @@ export class McpServer {
       )
 
       // Read resource handler
-      this.server.setRequestHandler(
+      server.setRequestHandler(
         ReadResourceRequestSchema,
         async (request): Promise<ReadResourceResult> => {
           const startTime = Date.now()
@@ -365,14 +779,16 @@ export class McpServer {
           this.log('debug', 'Received read_resource request', { uri: params.uri })
 
           try {
-            if (!this.agentResources.isValidResourceUri(params.uri)) {
+            const agentResources =
+              this.projectSessions.get(server)?.agentResources ?? this.agentResources
+            if (!agentResources.isValidResourceUri(params.uri)) {
               throw new ValidationError(
                 `Invalid resource URI: ${params.uri}`,
                 'INVALID_RESOURCE_URI'
               )
             }
 
-            const result = await this.agentResources.readResource(params.uri)
+            const result = await agentResources.readResource(params.uri)
 
             this.log('debug', 'Read resource request completed', {
               uri: params.uri,
@@ -392,6 +808,12 @@ export class McpServer {
         }
       )
 
+      // Workspace roots changed handler
+      server.setNotificationHandler(RootsListChangedNotificationSchema, async () => {
+        this.log('debug', 'Received roots/list_changed notification')
+        await this.refreshWorkspaceRoots(server)
+      })
+
       this.log('debug', 'MCP handlers configured successfully')
     } catch (error) {
       this.log('error', 'Failed to setup MCP handlers', { error: String(error) })
@@ -399,6 +821,60 @@ export class McpServer {
     }
   }
 
+  /**
+   * Create a progress callback that forwards execution progress to the client
+   * as MCP notifications/progress messages
+   * @param progressToken Progress token sent by the client with the request
+   * @param extra Request handler context used to send notifications
+   * @returns Progress callback for the agent executor
+   */
+  private createProgressReporter(
+    progressToken: ProgressToken,
+    extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+  ): (progress: ExecutionProgress) => void {
+    return (progress) => {
+      extra
+        .sendNotification({
+          method: 'notifications/progress',
+          params: {
+            progressToken,
+            progress: progress.elapsedMs,
+            message: this.formatProgressMessage(progress),
+          },
+        })
+        .catch((error: unknown) => {
+          this.log('debug', 'Failed to send progress notification', {
+            error: error instanceof Error ? error.message : String(error),
+          })
+        })
+    }
+  }
+
+  /**
+   * Format a human-readable progress message
+   * @param progress Execution progress snapshot
+   * @returns Progress message
+   */
+  private formatProgressMessage(progress: ExecutionProgress): string {
+    const seconds = Math.round(progress.elapsedMs / 1000)
+    if (progress.queuePosition !== undefined) {
+      return `Queued at position ${progress.queuePosition}, waiting for ${seconds}s`
+    }
+
+    const kilobytes = (progress.bytesReceived / 1024).toFixed(1)
+    let message = `Running for ${seconds}s, received ${progress.eventCount} events (${kilobytes} KB)`
+
+    if (progress.lastMessage) {
+      const snippet = progress.lastMessage.replace(/\s+/g, ' ').trim()
+      message +=
+        snippet.length > PROGRESS_SNIPPET_LENGTH
+          ? `: ${snippet.slice(0, PROGRESS_SNIPPET_LENGTH)}...`
+          : `: ${snippet}`
+    }
+
+    return message
+  }
+
   /**
    * Get server information
    * @returns Server name and version
@@ -442,12 +918,23 @@ export class McpServer {
 
       this.log('info', 'Starting MCP server...')
 
-      // Connect server to transport
-      await this.server.connect(this.transport)
+      if (this.transport instanceof HttpTransportHost) {
+        // Sessions connect their own protocol servers as clients initialize
+        await this.transport.listen()
+      } else {
+        // Connect server to transport
+        await this.server.connect(this.transport)
+      }
+
+      // Start hot reload of agent definitions
+      for (const watcher of this.agentWatchers) {
+        watcher.start()
+      }
 
       this.log('info', 'MCP server started successfully', {
         serverName: this.config.serverName,
         serverVersion: this.config.serverVersion,
+        transport: this.config.transport || 'stdio',
       })
     } catch (error) {
       this.log('error', 'Failed to start MCP server', { error: String(error) })
@@ -461,17 +948,27 @@ export class McpServer {
    * List available tools (for testing)
    * @returns Promise resolving to array of tool definitions
    */
-  async listTools(): Promise<Array<{ name: string; description: string; inputSchema: unknown }>> {
+  async listTools(): Promise<
+    Array<{ name: string; description: string; inputSchema: unknown; outputSchema?: unknown }>
+  > {
     // Ensure dynamic tools are initialized
     if (this.dynamicTools.size === 0) {
       await this.initializeDynamicTools()
     }
 
-    return Array.from(this.dynamicTools.values()).map((tool) => ({
-      name: tool.name,
-      description: tool.description,
-      inputSchema: tool.inputSchema,
-    }))
+    return [
+      ...Array.from(this.dynamicTools.values()).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+        ...(tool.outputSchema && { outputSchema: tool.outputSchema }),
+      })),
+      ...Array.from(this.changesTools.values()).map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: tool.inputSchema,
+      })),
+    ]
   }
 
   /**
@@ -494,17 +991,16 @@ export class McpServer {
    * @returns Promise resolving to tool response
    */
   async callTool(toolName: string, params: unknown): Promise<unknown> {
-    // Ensure dynamic tools are initialized
-    if (this.dynamicTools.size === 0) {
-      await this.initializeDynamicTools()
-    }
-
-    const tool = this.dynamicTools.get(toolName)
+    const dynamicTools = await this.getDynamicTools()
+    const tool = dynamicTools.get(toolName) ?? this.changesTools.get(toolName)
     if (!tool) {
       throw new ValidationError(`Unknown tool: ${toolName}`, 'UNKNOWN_TOOL')
     }
 
-    return await tool.execute(params)
+    const allowedRoots = await this.getAllowedRoots()
+    return tool instanceof AgentChangesTool
+      ? await tool.execute(params, allowedRoots)
+      : await tool.execute(params, {}, allowedRoots)
   }
 
   /**
@@ -527,6 +1023,7 @@ export class McpServer {
   getServerStats(): {
     serverInfo: { name: string; version: string }
     executionStats: Map<string, { count: number; totalTime: number; lastUsed: Date }>
+    agentCacheStats: AgentCacheStats
   } {
     // Aggregate stats from all dynamic tools
     const aggregatedStats = new Map<string, { count: number; totalTime: number; lastUsed: Date }>()
@@ -539,6 +1036,7 @@ export class McpServer {
     return {
       serverInfo: this.getServerInfo(),
       executionStats: aggregatedStats,
+      agentCacheStats: this.agentManager.getCacheStats(),
     }
   }
 
@@ -563,8 +1061,22 @@ export class McpServer {
           (sum, stat) => sum + stat.count,
           0
         ),
+        agentCacheStats: stats.agentCacheStats,
       })
 
+      for (const watcher of [...this.agentWatchers, ...this.projectWatchers.values()]) {
+        watcher.stop()
+      }
+      this.projectWatchers.clear()
+      this.projectSessions.clear()
+
+      // Agents run in their own process groups and would outlive the server
+      await this.agentExecutor.terminateAll()
+
+      if (this.transport instanceof HttpTransportHost) {
+        await this.transport.close()
+      }
+
       if (this.server) {
         await this.server.close()
       }
@@ -0,0 +1,185 @@
+/**
+ * Tests for HttpTransportHost
+ *
+ * Tests session handling of the Streamable HTTP transport host using
+ * real HTTP requests against an ephemeral port.
+ */
+
+import http from 'node:http'
+import { Server } from '@modelcontextprotocol/sdk/server/index.js'
+import { HttpTransportHost, MCP_HTTP_PATH } from 'src/server/HttpTransportHost'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('HttpTransportHost', () => {
+  let host: HttpTransportHost
+  let baseUrl: string
+
+  const initializeRequest = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  }
+
+  const post = (body: unknown, headers: Record<string, string> = {}) =>
+    fetch(`${baseUrl}${MCP_HTTP_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        ...headers,
+      },
+      body: JSON.stringify(body),
+    })
+
+  const createServer = () =>
+    new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } })
+
+  // fetch does not allow overriding the Host header, so header checks use node:http
+  const rawPost = (body: unknown, headers: Record<string, string>) =>
+    new Promise<number>((resolve, reject) => {
+      const request = http.request(
+        `${baseUrl}${MCP_HTTP_PATH}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (response) => {
+          response.resume()
+          response.on('end', () => resolve(response.statusCode ?? 0))
+        }
+      )
+      request.on('error', reject)
+      request.end(JSON.stringify(body))
+    })
+
+  beforeEach(async () => {
+    host = new HttpTransportHost({ host: '127.0.0.1', port: 0 }, createServer)
+    const address = await host.listen()
+    baseUrl = `http://127.0.0.1:${address.port}`
+  })
+
+  afterEach(async () => {
+    await host.close()
+  })
+
+  it('should create a session for an initialize request', async () => {
+    const response = await post(initializeRequest)
+    await response.text()
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('mcp-session-id')).toBeTruthy()
+    expect(host.getSessionCount()).toBe(1)
+    expect(host.getServers()).toHaveLength(1)
+  })
+
+  it('should create independent sessions for several clients', async () => {
+    const first = await post(initializeRequest)
+    const second = await post(initializeRequest)
+    await Promise.all([first.text(), second.text()])
+
+    expect(first.headers.get('mcp-session-id')).not.toBe(second.headers.get('mcp-session-id'))
+    expect(host.getSessionCount()).toBe(2)
+  })
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await post({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    const body = (await response.json()) as { error: { code: number; message: string } }
+
+    expect(response.status).toBe(400)
+    expect(body.error.message).toContain('No valid session ID')
+    expect(host.getSessionCount()).toBe(0)
+  })
+
+  it('should reject unknown session ids', async () => {
+    const response = await post(
+      { jsonrpc: '2.0', id: 2, method: 'tools/list' },
+      { 'mcp-session-id': 'unknown-session' }
+    )
+    await response.text()
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should reject malformed JSON bodies', async () => {
+    const response = await fetch(`${baseUrl}${MCP_HTTP_PATH}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{not json',
+    })
+    const body = (await response.json()) as { error: { code: number; message: string } }
+
+    expect(response.status).toBe(400)
+    expect(body.error.code).toBe(-32700)
+  })
+
+  it('should return 404 for other paths', async () => {
+    const response = await fetch(`${baseUrl}/other`)
+    await response.text()
+
+    expect(response.status).toBe(404)
+  })
+
+  it('should reject requests for other host names', async () => {
+    const status = await rawPost(initializeRequest, { Host: 'attacker.example:80' })
+
+    expect(status).toBe(403)
+    expect(host.getSessionCount()).toBe(0)
+  })
+
+  it('should reject browser requests from other origins', async () => {
+    const port = host.getAddress().port
+
+    expect(await rawPost(initializeRequest, { Origin: 'http://attacker.example' })).toBe(403)
+    expect(await rawPost(initializeRequest, { Origin: `http://localhost:${port}` })).toBe(200)
+    expect(host.getSessionCount()).toBe(1)
+  })
+
+  it('should require the auth token on every request when one is configured', async () => {
+    await host.close()
+    host = new HttpTransportHost({ host: '127.0.0.1', port: 0, authToken: 'secret' }, createServer)
+    baseUrl = `http://127.0.0.1:${(await host.listen()).port}`
+
+    const missing = await post(initializeRequest)
+    const wrong = await post(initializeRequest, { Authorization: 'Bearer guess' })
+    const valid = await post(initializeRequest, { Authorization: 'Bearer secret' })
+    await Promise.all([missing.text(), wrong.text(), valid.text()])
+
+    expect(missing.status).toBe(401)
+    expect(missing.headers.get('www-authenticate')).toBe('Bearer')
+    expect(wrong.status).toBe(401)
+    expect(valid.status).toBe(200)
+    expect(host.getSessionCount()).toBe(1)
+  })
+
+  it('should refuse to listen on a non-loopback address without an auth token', async () => {
+    const exposedHost = new HttpTransportHost({ host: '0.0.0.0', port: 0 }, createServer)
+
+    await expect(exposedHost.listen()).rejects.toMatchObject({ code: 'HTTP_AUTH_REQUIRED' })
+  })
+
+  it('should close sessions that stay idle for the timeout', async () => {
+    await host.close()
+    host = new HttpTransportHost(
+      { host: '127.0.0.1', port: 0, sessionIdleTimeoutMs: 50 },
+      createServer
+    )
+    baseUrl = `http://127.0.0.1:${(await host.listen()).port}`
+
+    const response = await post(initializeRequest)
+    await response.text()
+    expect(host.getSessionCount()).toBe(1)
+
+    await new Promise((resolve) => setTimeout(resolve, 200))
+
+    expect(host.getSessionCount()).toBe(0)
+  })
+})
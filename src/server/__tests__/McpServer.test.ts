@@ -5,20 +5,53 @@
  * configuration integration, and transport setup.
  */
 
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js'
+import {
+  ListRootsRequestSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import type { ServerConfig } from 'src/config/ServerConfig'
+import type { HttpTransportHost } from 'src/server/HttpTransportHost'
 import { McpServer } from 'src/server/McpServer'
-import type { ServerConfigInterface } from 'src/types'
-import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+/**
+ * Names of the agent tools among the listed tools.
+ */
+const agentToolNames = (tools: { name: string }[]) =>
+  tools.map((tool) => tool.name).filter((name) => name.startsWith('agent_'))
 
 describe('McpServer', () => {
   let server: McpServer
-  let mockConfig: ServerConfigInterface
+  let mockConfig: ServerConfig
 
   beforeEach(() => {
     mockConfig = {
       serverName: 'test-mcp-server',
       serverVersion: '1.0.0',
       agentsDir: './test-agents',
+      agentLayers: [{ name: './test-agents', directory: './test-agents' }],
+      agentsIgnore: [],
+      projectAgentsDirs: [],
+      agentType: 'cursor',
       logLevel: 'info',
+      executionTimeoutMs: 300000,
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      httpSessionTimeoutMs: 1800000,
+      httpAuthToken: undefined,
+      backendsConfig: undefined,
+      maxConcurrentAgents: 0,
+      queueTimeoutMs: 300000,
+      allowedRoots: [],
     }
   })
 
@@ -82,5 +115,262 @@ describe('McpServer', () => {
     it('should handle graceful shutdown', async () => {
       await expect(server.close()).resolves.not.toThrow()
     })
+
+    it('should terminate running agent processes on shutdown', async () => {
+      const terminateAll = vi.spyOn(server['agentExecutor'], 'terminateAll')
+
+      await server.close()
+
+      expect(terminateAll).toHaveBeenCalled()
+    })
+  })
+
+  describe('hot reload', () => {
+    let testAgentsDir: string
+
+    beforeEach(() => {
+      testAgentsDir = fs.mkdtempSync(path.join(tmpdir(), 'mcp-server-reload-'))
+      fs.writeFileSync(path.join(testAgentsDir, 'first-agent.md'), '# First Agent')
+      server = new McpServer({
+        ...mockConfig,
+        agentsDir: testAgentsDir,
+        agentLayers: [{ name: testAgentsDir, directory: testAgentsDir }],
+      })
+    })
+
+    afterEach(() => {
+      fs.rmSync(testAgentsDir, { recursive: true, force: true })
+    })
+
+    it('should rebuild tools when agent definitions change', async () => {
+      const before = await server.listTools()
+      expect(agentToolNames(before)).toEqual(['agent_first-agent'])
+
+      fs.writeFileSync(path.join(testAgentsDir, 'second-agent.md'), '# Second Agent')
+      fs.rmSync(path.join(testAgentsDir, 'first-agent.md'))
+      await server.reloadDynamicTools()
+
+      const after = await server.listTools()
+      expect(agentToolNames(after)).toEqual(['agent_second-agent'])
+    })
+
+    it('should list the tools applying and discarding isolated changes next to the agents', async () => {
+      const tools = await server.listTools()
+
+      expect(tools.map((tool) => tool.name)).toEqual([
+        'agent_first-agent',
+        'apply_agent_changes',
+        'discard_agent_changes',
+      ])
+    })
+  })
+
+  describe('project agents', () => {
+    let testAgentsDir: string
+    let projectDir: string
+    let client: Client
+
+    beforeEach(() => {
+      testAgentsDir = fs.mkdtempSync(path.join(tmpdir(), 'mcp-server-global-'))
+      projectDir = fs.mkdtempSync(path.join(tmpdir(), 'mcp-server-project-'))
+      fs.writeFileSync(path.join(testAgentsDir, 'global-agent.md'), '# Global Agent')
+      fs.mkdirSync(path.join(projectDir, '.claude', 'agents'), { recursive: true })
+      fs.writeFileSync(
+        path.join(projectDir, '.claude', 'agents', 'project-agent.md'),
+        '# Project Agent'
+      )
+      server = new McpServer({
+        ...mockConfig,
+        agentsDir: testAgentsDir,
+        agentLayers: [{ name: testAgentsDir, directory: testAgentsDir }],
+        projectAgentsDirs: ['.claude/agents'],
+        logLevel: 'error',
+      })
+    })
+
+    afterEach(async () => {
+      await client.close()
+      fs.rmSync(testAgentsDir, { recursive: true, force: true })
+      fs.rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    const connectClient = async (roots: string[]) => {
+      client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: { roots: { listChanged: true } } }
+      )
+      client.setRequestHandler(ListRootsRequestSchema, async () => ({
+        roots: roots.map((root) => ({ uri: pathToFileURL(root).href })),
+      }))
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      await server['server'].connect(serverTransport)
+      await client.connect(clientTransport)
+    }
+
+    const waitForTools = async (expected: string[]) => {
+      const start = Date.now()
+      while (Date.now() - start < 2000) {
+        const { tools } = await client.listTools()
+        if (agentToolNames(tools).join() === expected.join()) {
+          return
+        }
+        await new Promise((resolve) => setTimeout(resolve, 20))
+      }
+      throw new Error(`Tools did not become ${expected.join(', ')}`)
+    }
+
+    it('should load agents from the agent folder of the workspace roots', async () => {
+      await connectClient([projectDir])
+
+      await waitForTools(['agent_global-agent', 'agent_project-agent'])
+    })
+
+    it('should reload agents when the workspace roots change', async () => {
+      const roots: string[] = []
+      await connectClient(roots)
+      await waitForTools(['agent_global-agent'])
+
+      roots.push(projectDir)
+      await client.sendRootsListChanged()
+
+      await waitForTools(['agent_global-agent', 'agent_project-agent'])
+    })
+  })
+
+  describe('project agents of HTTP sessions', () => {
+    let testAgentsDir: string
+    let projectDir: string
+    const clients: Client[] = []
+
+    beforeEach(async () => {
+      testAgentsDir = fs.mkdtempSync(path.join(tmpdir(), 'mcp-server-global-'))
+      projectDir = fs.mkdtempSync(path.join(tmpdir(), 'mcp-server-project-'))
+      fs.writeFileSync(path.join(testAgentsDir, 'global-agent.md'), '# Global Agent')
+      fs.mkdirSync(path.join(projectDir, '.claude', 'agents'), { recursive: true })
+      fs.writeFileSync(
+        path.join(projectDir, '.claude', 'agents', 'project-agent.md'),
+        '# Project Agent'
+      )
+      server = new McpServer({
+        ...mockConfig,
+        agentsDir: testAgentsDir,
+        agentLayers: [{ name: testAgentsDir, directory: testAgentsDir }],
+        projectAgentsDirs: ['.claude/agents'],
+        logLevel: 'error',
+        transport: 'http',
+        httpPort: 0,
+      })
+      await server.start()
+    })
+
+    afterEach(async () => {
+      await Promise.all(clients.splice(0).map((client) => client.close()))
+      fs.rmSync(testAgentsDir, { recursive: true, force: true })
+      fs.rmSync(projectDir, { recursive: true, force: true })
+    })
+
+    const connectClient = async (roots: string[]) => {
+      const client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: { roots: { listChanged: true } } }
+      )
+      client.setRequestHandler(ListRootsRequestSchema, async () => ({
+        roots: roots.map((root) => ({ uri: pathToFileURL(root).href })),
+      }))
+      const toolListChanges = vi.fn()
+      client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+        toolListChanges()
+      })
+      const { port } = (server['transport'] as HttpTransportHost).getAddress()
+      // The SDK's optional transport properties do not satisfy exactOptionalPropertyTypes
+      const transport = new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${port}/mcp`))
+      await client.connect(transport as Transport)
+      clients.push(client)
+      return { client, toolListChanges }
+    }
+
+    const expectTools = (client: Client, expected: string[]) =>
+      vi.waitFor(
+        async () => {
+          const { tools } = await client.listTools()
+          expect(agentToolNames(tools)).toEqual(expected)
+        },
+        { timeout: 2000 }
+      )
+
+    it('should keep project agents and tool list changes to the session of the workspace', async () => {
+      const projectRoots: string[] = []
+      const other = await connectClient([])
+      const project = await connectClient(projectRoots)
+      await expectTools(project.client, ['agent_global-agent'])
+
+      projectRoots.push(projectDir)
+      await project.client.sendRootsListChanged()
+
+      await expectTools(project.client, ['agent_global-agent', 'agent_project-agent'])
+      await vi.waitFor(() => expect(project.toolListChanges).toHaveBeenCalled())
+      await expectTools(other.client, ['agent_global-agent'])
+      expect(other.toolListChanges).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('allowed roots', () => {
+    let workspaceDir: string
+    let client: Client
+
+    beforeEach(() => {
+      workspaceDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'mcp-server-roots-')))
+      server = new McpServer({ ...mockConfig, logLevel: 'warn' })
+    })
+
+    afterEach(async () => {
+      await client.close()
+      fs.rmSync(workspaceDir, { recursive: true, force: true })
+    })
+
+    const connectClient = async (roots?: string[]) => {
+      client = new Client(
+        { name: 'test-client', version: '1.0.0' },
+        { capabilities: roots ? { roots: {} } : {} }
+      )
+      if (roots) {
+        client.setRequestHandler(ListRootsRequestSchema, async () => ({
+          roots: roots.map((root) => ({ uri: pathToFileURL(root).href })),
+        }))
+      }
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+      await server['server'].connect(serverTransport)
+      await client.connect(clientTransport)
+    }
+
+    const discard = (cwd: string) =>
+      client.callTool({
+        name: 'discard_agent_changes',
+        arguments: { branch: 'sub-agents/req_1', cwd },
+      })
+
+    it('should restrict the cwd of the changes tools to the workspace roots', async () => {
+      await connectClient([workspaceDir])
+
+      const result = await discard(tmpdir())
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toMatchObject({ code: 'CWD_OUTSIDE_ROOTS' })
+    })
+
+    it('should warn once when a client without roots runs unrestricted', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+      await connectClient()
+
+      await discard(workspaceDir)
+      await discard(workspaceDir)
+
+      const warnings = consoleError.mock.calls
+        .map(([entry]) => String(entry))
+        .filter((entry) => entry.includes('agents may run in any directory'))
+        .map((entry) => JSON.parse(entry))
+      expect(warnings).toEqual([expect.objectContaining({ clientSupportsRoots: false })])
+      consoleError.mockRestore()
+    })
   })
 })
@@ -0,0 +1,164 @@
+/**
+ * AgentChangesTools implementation for applying or discarding the changes of isolated runs
+ *
+ * Agents run with `isolation: worktree` leave their changes on a `sub-agents/*`
+ * branch instead of in the working tree; these tools bring them into the
+ * working tree or drop them.
+ */
+
+import type { WorktreeIsolation } from 'src/execution/WorktreeIsolation'
+import { AppError } from 'src/utils/ErrorHandler'
+import { type LogLevel, Logger } from 'src/utils/Logger'
+import { resolveWorkingDirectory } from 'src/utils/WorkspaceSandbox'
+
+/**
+ * What an AgentChangesTool does with the branch of an isolated run.
+ */
+export type AgentChangesAction = 'apply' | 'discard'
+
+/**
+ * MCP tool response format
+ */
+interface McpToolResponse {
+  content: { type: 'text'; text: string }[]
+  isError?: boolean
+  structuredContent?: unknown
+}
+
+/**
+ * Input schema of the apply and discard tools
+ */
+interface AgentChangesInputSchema {
+  [x: string]: unknown
+  type: 'object'
+  properties: {
+    branch: {
+      type: 'string'
+      description: string
+    }
+    cwd: {
+      type: 'string'
+      description: string
+    }
+  }
+  required: string[]
+}
+
+/**
+ * AgentChangesTool class applying or discarding the branch of an isolated run
+ */
+export class AgentChangesTool {
+  public readonly name: string
+  public readonly description: string
+  public readonly inputSchema: AgentChangesInputSchema
+  private logger: Logger
+
+  /**
+   * @param action - Whether the tool applies or discards branches
+   * @param worktrees - Worktree isolation holding the git operations
+   */
+  constructor(
+    private readonly action: AgentChangesAction,
+    private readonly worktrees: WorktreeIsolation
+  ) {
+    this.name = `${action}_agent_changes`
+    this.description =
+      action === 'apply'
+        ? 'Apply the changes of an agent run with worktree isolation to the working tree and delete its branch. Fails without changing anything if the changes conflict with edits made since the run.'
+        : 'Discard the changes of an agent run with worktree isolation by deleting its branch.'
+    this.inputSchema = {
+      type: 'object',
+      properties: {
+        branch: {
+          type: 'string',
+          description: 'Branch returned in structuredContent.changes.branch by the agent run',
+        },
+        cwd: {
+          type: 'string',
+          description:
+            'Any directory inside the repository of the run, e.g. structuredContent.changes.root; must lie inside the allowed roots (optional, defaults to the first allowed root, or the server working directory)',
+        },
+      },
+      required: ['branch'],
+    }
+
+    const logLevel = (process.env['LOG_LEVEL'] as LogLevel) || 'info'
+    this.logger = new Logger(logLevel)
+  }
+
+  /**
+   * Apply or discard the branch named in the parameters
+   *
+   * @param params - Tool parameters with the branch and optional cwd
+   * @param allowedRoots - Directories cwd may lie in; any existing directory when empty
+   * @returns MCP tool response; failures are reported with isError and their error code
+   */
+  async execute(params: unknown, allowedRoots: string[] = []): Promise<McpToolResponse> {
+    const p = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>
+    const branch = p['branch']
+    const requestedCwd = p['cwd']
+    if (
+      typeof branch !== 'string' ||
+      (requestedCwd !== undefined && typeof requestedCwd !== 'string')
+    ) {
+      return this.createErrorResponse(
+        'branch parameter is required and must be a string, cwd must be a string if provided',
+        'INVALID_PARAMETERS'
+      )
+    }
+
+    try {
+      const cwd = (await resolveWorkingDirectory(requestedCwd, allowedRoots)) ?? process.cwd()
+
+      if (this.action === 'discard') {
+        await this.worktrees.discard(cwd, branch)
+        this.logger.info('Agent changes discarded', { branch })
+        return {
+          content: [{ type: 'text', text: `Discarded the changes of ${branch}` }],
+          isError: false,
+          structuredContent: { status: 'discarded', branch },
+        }
+      }
+
+      const changes = await this.worktrees.apply(cwd, branch)
+      this.logger.info('Agent changes applied', { branch, fileCount: changes.files.length })
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Applied ${changes.files.length} changed file(s) of ${branch} to ${changes.root}:\n${changes.files
+              .map((file) => `- ${file.path} (${file.change})`)
+              .join('\n')}`,
+          },
+        ],
+        isError: false,
+        structuredContent: { status: 'applied', branch, changes },
+      }
+    } catch (error) {
+      this.logger.warn(`Failed to ${this.action} agent changes`, {
+        branch,
+        error: error instanceof Error ? error.message : String(error),
+      })
+      return this.createErrorResponse(
+        error instanceof Error ? error.message : String(error),
+        error instanceof AppError ? error.code : 'GIT_ERROR'
+      )
+    }
+  }
+
+  /**
+   * Create error response
+   *
+   * @private
+   * @param errorMessage - Error message to display
+   * @param code - Error code for programmatic handling
+   * @returns Error response in MCP format
+   */
+  private createErrorResponse(errorMessage: string, code: string): McpToolResponse {
+    return {
+      content: [{ type: 'text', text: `Error: ${errorMessage}` }],
+      isError: true,
+      structuredContent: { status: 'error', error: errorMessage, code, toolName: this.name },
+    }
+  }
+}
@@ -5,10 +5,20 @@
  * with standardized parameters and automatic output instruction integration.
  */
 
+import { getInputSchema, renderAgentBody, resolveInputValues } from 'src/agents/AgentInputs'
 import type { AgentManager } from 'src/agents/AgentManager'
-import type { AgentExecutionResult, AgentExecutor } from 'src/execution/AgentExecutor'
+import { getOutputSchemaInstructions, parseStructuredOutput } from 'src/agents/OutputSchema'
+import type {
+  AgentExecutionResult,
+  AgentExecutor,
+  ExecutionOptions,
+} from 'src/execution/AgentExecutor'
+import type { AgentInput, IsolationMode } from 'src/types/AgentDefinition'
+import type { AgentType } from 'src/types/AgentType'
 import type { ExecutionParams } from 'src/types/ExecutionParams'
+import { AppError } from 'src/utils/ErrorHandler'
 import { type LogLevel, Logger } from 'src/utils/Logger'
+import { resolveWorkingDirectory } from 'src/utils/WorkspaceSandbox'
 
 /**
  * Default output instructions applied to all agent executions
@@ -25,13 +35,26 @@ interface McpTextContent {
   text: string
 }
 
+/**
+ * MCP tool content type for embedded resources
+ */
+interface McpResourceContent {
+  type: 'resource'
+  resource: {
+    uri: string
+    mimeType: string
+    text: string
+  }
+}
+
 /**
  * MCP tool response format
  */
 interface McpToolResponse {
-  content: McpTextContent[]
+  content: (McpTextContent | McpResourceContent)[]
   isError?: boolean
   structuredContent?: unknown
+  _meta?: Record<string, unknown>
 }
 
 /**
@@ -59,6 +82,23 @@ interface DynamicAgentInputSchema {
       items: { type: 'string' }
       description: string
     }
+    session_id: {
+      type: 'string'
+      description: string
+    }
+    track_changes: {
+      type: 'boolean'
+      description: string
+    }
+    include_diff: {
+      type: 'boolean'
+      description: string
+    }
+    isolation: {
+      type: 'string'
+      enum: IsolationMode[]
+      description: string
+    }
   }
   required: string[]
 }
@@ -71,6 +111,10 @@ interface DynamicAgentParams {
   output_instructions?: string | undefined
   cwd?: string | undefined
   extra_args?: string[] | undefined
+  session_id?: string | undefined
+  track_changes?: boolean | undefined
+  include_diff?: boolean | undefined
+  isolation?: IsolationMode | undefined
 }
 
 /**
@@ -83,6 +127,7 @@ export class DynamicAgentTool {
   public readonly name: string
   public readonly description: string
   public readonly inputSchema: DynamicAgentInputSchema
+  public readonly outputSchema?: Record<string, unknown>
   private logger: Logger
   private executionStats: { count: number; totalTime: number; lastUsed: Date } = {
     count: 0,
@@ -94,10 +139,19 @@ export class DynamicAgentTool {
     private agentName: string,
     agentDescription: string,
     private agentExecutor: AgentExecutor,
-    private agentManager: AgentManager
+    private agentManager: AgentManager,
+    private namespace?: string,
+    inputs: Record<string, AgentInput> = {},
+    outputSchema?: Record<string, unknown>
   ) {
-    this.name = DynamicAgentTool.sanitizeToolName(agentName)
+    this.name = DynamicAgentTool.sanitizeToolName(agentName, namespace)
     this.description = agentDescription
+    if (outputSchema) {
+      this.outputSchema = outputSchema
+    }
+
+    // Inputs declared in the agent's frontmatter become extra parameters next to prompt
+    const inputSchema = getInputSchema(inputs)
 
     this.inputSchema = {
       type: 'object',
@@ -119,8 +173,30 @@ export class DynamicAgentTool {
           items: { type: 'string' },
           description: 'Additional configuration parameters for agent execution (optional)',
         },
+        session_id: {
+          type: 'string',
+          description:
+            'Session id returned in structuredContent.sessionId (_meta.sessionId for agents with an output schema) by a previous call; continues that conversation instead of starting fresh (optional)',
+        },
+        track_changes: {
+          type: 'boolean',
+          description:
+            'Report the files the agent created, modified or deleted in cwd in structuredContent.changes (optional, defaults to false)',
+        },
+        include_diff: {
+          type: 'boolean',
+          description:
+            'Track changes as with track_changes and also return the unified diff of the changed files as an embedded resource (optional)',
+        },
+        isolation: {
+          type: 'string',
+          enum: ['none', 'worktree'],
+          description:
+            "'worktree' runs the agent in a temporary git worktree of cwd and returns its changes as a branch in structuredContent.changes.branch, to apply with apply_agent_changes or drop with discard_agent_changes; 'none' runs in cwd directly (optional, defaults to the agent's isolation setting)",
+        },
+        ...inputSchema.properties,
       },
-      required: ['prompt'],
+      required: ['prompt', ...inputSchema.required],
     }
 
     const logLevel = (process.env['LOG_LEVEL'] as LogLevel) || 'info'
@@ -130,29 +206,40 @@ export class DynamicAgentTool {
   /**
    * Sanitize agent name to create valid MCP tool name
    *
+   * Namespace folders are joined to the name with '__',
+   * e.g. agent 'security' in folder 'review' becomes 'agent_review__security'.
+   *
    * @param agentName - Original agent name
+   * @param namespace - Folder path of the agent relative to AGENTS_DIR, '/' separated
    * @returns Sanitized tool name with agent_ prefix
    */
-  static sanitizeToolName(agentName: string): string {
+  static sanitizeToolName(agentName: string, namespace?: string): string {
+    const segments = namespace ? [...namespace.split('/'), agentName] : [agentName]
     // Prefix with agent_ and ensure valid characters
-    return `agent_${agentName.replace(/[^a-zA-Z0-9_-]/g, '_')}`
+    return `agent_${segments.map((segment) => segment.replace(/[^a-zA-Z0-9_-]/g, '_')).join('__')}`
   }
 
   /**
    * Execute the dynamic agent tool with the provided parameters
    *
    * @param params - Tool execution parameters
+   * @param options - Optional execution options such as a progress callback
+   * @param allowedRoots - Directories the agent may run in; any existing directory when empty
    * @returns Promise resolving to MCP tool response
    * @throws {Error} When parameters are invalid or execution fails
    */
-  async execute(params: unknown): Promise<McpToolResponse> {
+  async execute(
+    params: unknown,
+    options: ExecutionOptions = {},
+    allowedRoots: string[] = []
+  ): Promise<McpToolResponse> {
     const startTime = Date.now()
     const requestId = this.generateRequestId()
 
     this.logger.info('Dynamic agent tool execution started', {
       requestId,
       toolName: this.name,
-      agentName: this.agentName,
+      agentName: this.getAgentName(),
       timestamp: new Date().toISOString(),
     })
 
@@ -168,15 +255,31 @@ export class DynamicAgentTool {
         extraArgsCount: validatedParams.extra_args?.length || 0,
       })
 
+      // Resolve symlinks in cwd and keep the agent inside the allowed roots
+      const cwd = await resolveWorkingDirectory(validatedParams.cwd, allowedRoots)
+
       // Get agent definition
-      const agent = await this.agentManager.getAgent(this.agentName)
+      const agent = await this.agentManager.getAgent(this.agentName, this.namespace)
       if (!agent) {
-        throw new Error(`Agent '${this.agentName}' not found`)
+        throw new Error(`Agent '${this.getAgentName()}' not found`)
       }
 
+      // Substitute the agent's input variables into its body
+      const inputValues = agent.inputs
+        ? resolveInputValues(agent.inputs, params as Record<string, unknown>)
+        : {}
+      const agentContent = agent.inputs
+        ? renderAgentBody(agent.content, agent.inputs, inputValues)
+        : agent.content
+
       // Apply output instructions (use default if not provided)
       const outputInstructions = validatedParams.output_instructions || DEFAULT_OUTPUT_INSTRUCTIONS
-      const finalPrompt = `${validatedParams.prompt}\n\n[Output Instructions]\n${outputInstructions}`
+      let finalPrompt = `${validatedParams.prompt}\n\n[Output Instructions]\n${outputInstructions}`
+
+      // Ask for an answer in the shape of the agent's output schema
+      if (agent.outputSchema) {
+        finalPrompt += `\n\n[Output Format]\n${getOutputSchemaInstructions(agent.outputSchema)}`
+      }
 
       this.logger.debug('Prompt prepared with output instructions', {
         requestId,
@@ -184,11 +287,14 @@ export class DynamicAgentTool {
         usedDefaultInstructions: !validatedParams.output_instructions,
       })
 
+      // A call can isolate or un-isolate the run regardless of the agent's setting
+      const isolation = validatedParams.isolation ?? agent.isolation
+
       // Prepare execution parameters
       const executionParams: ExecutionParams = {
-        agent: agent.content,
+        agent: agentContent,
         prompt: finalPrompt,
-        ...(validatedParams.cwd !== undefined && { cwd: validatedParams.cwd }),
+        ...(cwd !== undefined && { cwd }),
         ...(validatedParams.extra_args !== undefined && {
           extra_args: validatedParams.extra_args,
         }),
@@ -198,10 +304,20 @@ export class DynamicAgentTool {
         ...(agent.autoApprovalMode !== undefined && {
           autoApprovalMode: agent.autoApprovalMode,
         }),
+        ...(agent.systemPromptMode && { systemPromptMode: agent.systemPromptMode }),
+        ...(validatedParams.session_id !== undefined && { sessionId: validatedParams.session_id }),
       }
 
-      // Execute agent
-      const result = await this.agentExecutor.executeAgent(executionParams)
+      // Execute agent, queued under the agent's own concurrency limit
+      const result = await this.agentExecutor.executeAgent(executionParams, {
+        ...options,
+        agentName: this.getAgentName(),
+        ...(agent.maxConcurrent !== undefined && { maxConcurrent: agent.maxConcurrent }),
+        trackChanges:
+          validatedParams.track_changes === true || validatedParams.include_diff === true,
+        includeDiff: validatedParams.include_diff === true,
+        ...(isolation && { isolation }),
+      })
 
       // Update execution statistics
       this.updateExecutionStats(result.executionTime)
@@ -209,13 +325,19 @@ export class DynamicAgentTool {
       this.logger.info('Dynamic agent tool execution completed successfully', {
         requestId,
         toolName: this.name,
-        agentName: this.agentName,
+        agentName: this.getAgentName(),
         exitCode: result.exitCode,
         executionTime: result.executionTime,
         totalTime: Date.now() - startTime,
       })
 
-      return this.formatExecutionResponse(result, requestId, agent.agentType, agent.model)
+      return this.formatExecutionResponse(
+        result,
+        requestId,
+        agent.agentType,
+        agent.model,
+        agent.outputSchema
+      )
     } catch (error) {
       const totalTime = Date.now() - startTime
 
@@ -225,14 +347,15 @@ export class DynamicAgentTool {
         {
           requestId,
           toolName: this.name,
-          agentName: this.agentName,
+          agentName: this.getAgentName(),
           totalTime,
           errorType: error instanceof Error ? error.constructor.name : 'Unknown',
         }
       )
 
       return this.createErrorResponse(
-        `Agent execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+        `Agent execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        error instanceof AppError ? error.code : undefined
       )
     }
   }
@@ -314,11 +437,45 @@ export class DynamicAgentTool {
       }
     }
 
+    // Validate optional session_id parameter
+    if (p['session_id'] !== undefined) {
+      if (typeof p['session_id'] !== 'string') {
+        throw new Error('session_id parameter must be a string if provided')
+      }
+
+      if (!/^[A-Za-z0-9][A-Za-z0-9._:-]{0,199}$/.test(p['session_id'])) {
+        throw new Error('Invalid session_id parameter')
+      }
+    }
+
+    // Validate optional track_changes parameter
+    if (p['track_changes'] !== undefined && typeof p['track_changes'] !== 'boolean') {
+      throw new Error('track_changes parameter must be a boolean if provided')
+    }
+
+    // Validate optional include_diff parameter
+    if (p['include_diff'] !== undefined && typeof p['include_diff'] !== 'boolean') {
+      throw new Error('include_diff parameter must be a boolean if provided')
+    }
+
+    // Validate optional isolation parameter
+    if (
+      p['isolation'] !== undefined &&
+      p['isolation'] !== 'none' &&
+      p['isolation'] !== 'worktree'
+    ) {
+      throw new Error("isolation parameter must be 'none' or 'worktree' if provided")
+    }
+
     return {
       prompt: prompt,
       output_instructions: p['output_instructions'] as string | undefined,
       cwd: p['cwd'] as string | undefined,
       extra_args: p['extra_args'] as string[] | undefined,
+      session_id: p['session_id'] as string | undefined,
+      track_changes: p['track_changes'] as boolean | undefined,
+      include_diff: p['include_diff'] as boolean | undefined,
+      isolation: p['isolation'] as IsolationMode | undefined,
     }
   }
 
@@ -330,33 +487,46 @@ export class DynamicAgentTool {
    * @param requestId - Request tracking ID
    * @param agentType - Optional agent type used
    * @param model - Optional model used
+   * @param outputSchema - Optional output schema the answer must match
    * @returns Formatted MCP response
    */
   private formatExecutionResponse(
     result: AgentExecutionResult,
     requestId?: string,
-    agentType?: 'cursor' | 'claude' | 'gemini',
-    model?: string
+    agentType?: AgentType,
+    model?: string,
+    outputSchema?: Record<string, unknown>
   ): McpToolResponse {
     // Determine execution status
+    const isCancelled = result.cancelled === true // Cancelled by the client
     const isSuccess =
-      result.exitCode === 0 || // Normal completion
-      (result.exitCode === 143 && result.hasResult === true) // SIGTERM with result
+      !isCancelled &&
+      (result.success ?? // Decided by the backend adapter
+        (result.exitCode === 0 || // Normal completion
+          (result.exitCode === 143 && result.hasResult === true))) // SIGTERM with result
 
-    const isPartialSuccess = result.exitCode === 124 && result.hasResult === true // Timeout with partial result
+    const isPartialSuccess = !isCancelled && result.exitCode === 124 && result.hasResult === true // Timeout with partial result
     const isError = !isSuccess && !isPartialSuccess
 
-    // Content is just the agent's actual output
-    const contentText = result.stdout || result.stderr || 'No output'
+    // Content is just the agent's answer; raw stdout only when no result was extracted
+    const extracted = result.extractedResult
+    const contentText =
+      extracted?.text || extracted?.error || result.stdout || result.stderr || 'No output'
 
     // All metadata goes to structuredContent
     const structuredContent: Record<string, unknown> = {
-      agent: this.agentName,
+      agent: this.getAgentName(),
       toolName: this.name,
       exitCode: result.exitCode,
       executionTime: result.executionTime,
       hasResult: result.hasResult || false,
-      status: isSuccess ? 'success' : isPartialSuccess ? 'partial' : 'error',
+      status: isCancelled
+        ? 'cancelled'
+        : isSuccess
+          ? 'success'
+          : isPartialSuccess
+            ? 'partial'
+            : 'error',
     }
 
     if (agentType) {
@@ -365,9 +535,18 @@ export class DynamicAgentTool {
     if (model) {
       structuredContent['model'] = model
     }
-    if (result.resultJson) {
+    if (result.sessionId) {
+      structuredContent['sessionId'] = result.sessionId
+    }
+    if (extracted) {
+      structuredContent['result'] = extracted
+    } else if (result.resultJson) {
       structuredContent['result'] = result.resultJson
     }
+    if (result.changes) {
+      const { diff: _diff, ...changes } = result.changes
+      structuredContent['changes'] = changes
+    }
     if (result.stderr && result.stdout) {
       structuredContent['stderr'] = result.stderr
     }
@@ -381,16 +560,70 @@ export class DynamicAgentTool {
       this.executionStats.totalTime / this.executionStats.count
     )
 
-    return {
-      content: [
+    // The diff of the changed files travels as an embedded resource after the answer
+    const diffContent: McpResourceContent[] = result.changes?.diff
+      ? [
+          {
+            type: 'resource',
+            resource: {
+              uri: `changes://${requestId ?? this.name}.diff`,
+              mimeType: 'text/x-diff',
+              text: result.changes.diff,
+            },
+          },
+        ]
+      : []
+
+    // With an output schema, structuredContent is the parsed answer and the metadata goes to _meta
+    if (outputSchema && !isError) {
+      const output = parseStructuredOutput(contentText, outputSchema)
+      if ('value' in output) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(output.value, null, 2),
+            },
+            ...diffContent,
+          ],
+          isError: false,
+          structuredContent: output.value,
+          _meta: structuredContent,
+        }
+      }
+
+      structuredContent['status'] = 'error'
+      structuredContent['error'] = output.error
+      return this.withMetadata(
         {
-          type: 'text',
-          text: contentText,
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${output.error}\n\n${contentText}`,
+            },
+            ...diffContent,
+          ],
+          isError: true,
         },
-      ],
-      isError: isError,
-      structuredContent,
+        structuredContent,
+        outputSchema
+      )
     }
+
+    return this.withMetadata(
+      {
+        content: [
+          {
+            type: 'text',
+            text: contentText,
+          },
+          ...diffContent,
+        ],
+        isError: isError,
+      },
+      structuredContent,
+      outputSchema
+    )
   }
 
   /**
@@ -398,26 +631,52 @@ export class DynamicAgentTool {
    *
    * @private
    * @param errorMessage - Error message to display
+   * @param code - Error code of structured errors, e.g. 'CWD_OUTSIDE_ROOTS'
    * @returns Error response in MCP format
    */
-  private createErrorResponse(errorMessage: string): McpToolResponse {
+  private createErrorResponse(errorMessage: string, code?: string): McpToolResponse {
     const errorStructuredContent: Record<string, unknown> = {
       status: 'error',
       error: errorMessage,
-      agent: this.agentName,
+      ...(code && { code }),
+      agent: this.getAgentName(),
       toolName: this.name,
     }
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${errorMessage}`,
-        },
-      ],
-      isError: true,
-      structuredContent: errorStructuredContent,
-    }
+    return this.withMetadata(
+      {
+        content: [
+          {
+            type: 'text',
+            text: `Error: ${errorMessage}`,
+          },
+        ],
+        isError: true,
+      },
+      errorStructuredContent
+    )
+  }
+
+  /**
+   * Attach execution metadata to a response
+   *
+   * MCP clients check structuredContent against the tool's output schema even
+   * for errors, so tools with an output schema carry the metadata in _meta.
+   *
+   * @private
+   * @param response - Response content and error flag
+   * @param metadata - Execution metadata such as status and error
+   * @param outputSchema - Output schema of the agent (default: the published one)
+   * @returns Response in MCP format
+   */
+  private withMetadata(
+    response: Pick<McpToolResponse, 'content' | 'isError'>,
+    metadata: Record<string, unknown>,
+    outputSchema = this.outputSchema
+  ): McpToolResponse {
+    return outputSchema
+      ? { ...response, _meta: metadata }
+      : { ...response, structuredContent: metadata }
   }
 
   /**
@@ -452,11 +711,11 @@ export class DynamicAgentTool {
   }
 
   /**
-   * Get the original agent name
+   * Get the original agent name, prefixed with its namespace if any
    *
-   * @returns Original agent name
+   * @returns Agent name such as 'review/security'
    */
   getAgentName(): string {
-    return this.agentName
+    return this.namespace ? `${this.namespace}/${this.agentName}` : this.agentName
   }
 }
@@ -0,0 +1,87 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { WorktreeIsolation } from 'src/execution/WorktreeIsolation'
+import { AgentChangesTool } from 'src/tools/AgentChangesTools'
+import { ValidationError } from 'src/utils/ErrorHandler'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+vi.mock('src/execution/WorktreeIsolation')
+
+describe('AgentChangesTool', () => {
+  let worktrees: WorktreeIsolation
+  let repoDir: string
+
+  beforeEach(() => {
+    worktrees = new WorktreeIsolation()
+    repoDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'agent-changes-test-')))
+  })
+
+  afterEach(() => {
+    fs.rmSync(repoDir, { recursive: true, force: true })
+  })
+
+  it('should apply the branch and list the applied files', async () => {
+    vi.mocked(worktrees.apply).mockResolvedValue({
+      method: 'git',
+      root: repoDir,
+      files: [{ path: 'src/a.ts', change: 'modified' }],
+    })
+    const tool = new AgentChangesTool('apply', worktrees)
+
+    const result = await tool.execute({ branch: 'sub-agents/req_1', cwd: repoDir })
+
+    expect(tool.name).toBe('apply_agent_changes')
+    expect(worktrees.apply).toHaveBeenCalledWith(repoDir, 'sub-agents/req_1')
+    expect(result.isError).toBe(false)
+    expect(result.content[0]?.text).toContain('- src/a.ts (modified)')
+    expect(result.structuredContent).toMatchObject({
+      status: 'applied',
+      branch: 'sub-agents/req_1',
+    })
+  })
+
+  it('should discard the branch', async () => {
+    const tool = new AgentChangesTool('discard', worktrees)
+
+    const result = await tool.execute({ branch: 'sub-agents/req_1' })
+
+    expect(tool.name).toBe('discard_agent_changes')
+    expect(worktrees.discard).toHaveBeenCalledWith(process.cwd(), 'sub-agents/req_1')
+    expect(result.structuredContent).toEqual({ status: 'discarded', branch: 'sub-agents/req_1' })
+  })
+
+  it('should run in the first allowed root and reject directories outside the roots', async () => {
+    const tool = new AgentChangesTool('discard', worktrees)
+
+    await tool.execute({ branch: 'sub-agents/req_1' }, [repoDir])
+    const result = await tool.execute({ branch: 'sub-agents/req_1', cwd: tmpdir() }, [repoDir])
+
+    expect(worktrees.discard).toHaveBeenCalledTimes(1)
+    expect(worktrees.discard).toHaveBeenCalledWith(repoDir, 'sub-agents/req_1')
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({ status: 'error', code: 'CWD_OUTSIDE_ROOTS' })
+  })
+
+  it('should report failures with their error code', async () => {
+    vi.mocked(worktrees.discard).mockRejectedValue(
+      new ValidationError("Branch 'sub-agents/gone' does not exist in /repo", 'BRANCH_NOT_FOUND')
+    )
+    const tool = new AgentChangesTool('discard', worktrees)
+
+    const result = await tool.execute({ branch: 'sub-agents/gone' })
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({ status: 'error', code: 'BRANCH_NOT_FOUND' })
+  })
+
+  it('should require a branch', async () => {
+    const tool = new AgentChangesTool('apply', worktrees)
+
+    const result = await tool.execute({})
+
+    expect(result.isError).toBe(true)
+    expect(result.structuredContent).toMatchObject({ code: 'INVALID_PARAMETERS' })
+    expect(worktrees.apply).not.toHaveBeenCalled()
+  })
+})
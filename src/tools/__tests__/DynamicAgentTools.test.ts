@@ -1,3 +1,6 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
 import { AgentManager } from 'src/agents/AgentManager'
 import type { ServerConfig } from 'src/config/ServerConfig'
 import type { AgentExecutor } from 'src/execution/AgentExecutor'
@@ -9,6 +12,14 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 vi.mock('src/agents/AgentManager')
 vi.mock('src/execution/AgentExecutor')
 
+/**
+ * Text of the first content item of a tool response.
+ */
+const firstText = (result: Awaited<ReturnType<DynamicAgentTool['execute']>>): string => {
+  const item = result.content[0]
+  return item?.type === 'text' ? item.text : ''
+}
+
 describe('DynamicAgentTool', () => {
   let mockAgentExecutor: AgentExecutor
   let mockAgentManager: AgentManager
@@ -17,12 +28,24 @@ describe('DynamicAgentTool', () => {
   beforeEach(() => {
     mockConfig = {
       agentsDir: '/test/agents',
+      agentLayers: [{ name: '/test/agents', directory: '/test/agents' }],
+      agentsIgnore: [],
       serverName: 'test-server',
       serverVersion: '1.0.0',
       agentType: 'cursor',
+      projectAgentsDirs: [],
       logLevel: 'info',
       executionTimeoutMs: 300000,
-    } as ServerConfig
+      transport: 'stdio',
+      httpHost: '127.0.0.1',
+      httpPort: 3000,
+      httpSessionTimeoutMs: 1800000,
+      httpAuthToken: undefined,
+      backendsConfig: undefined,
+      maxConcurrentAgents: 0,
+      queueTimeoutMs: 300000,
+      allowedRoots: [],
+    }
 
     mockAgentManager = new AgentManager(mockConfig)
     mockAgentExecutor = {} as AgentExecutor
@@ -43,6 +66,13 @@ describe('DynamicAgentTool', () => {
       const toolName = DynamicAgentTool.sanitizeToolName('test_agent-123')
       expect(toolName).toBe('agent_test_agent-123')
     })
+
+    it('should join namespace folders to the name with a double underscore', () => {
+      expect(DynamicAgentTool.sanitizeToolName('security', 'review')).toBe('agent_review__security')
+      expect(DynamicAgentTool.sanitizeToolName('lint', 'review/web app')).toBe(
+        'agent_review__web_app__lint'
+      )
+    })
   })
 
   describe('constructor', () => {
@@ -72,8 +102,29 @@ describe('DynamicAgentTool', () => {
       expect(tool.inputSchema.properties).toHaveProperty('output_instructions')
       expect(tool.inputSchema.properties).toHaveProperty('cwd')
       expect(tool.inputSchema.properties).toHaveProperty('extra_args')
+      expect(tool.inputSchema.properties).toHaveProperty('session_id')
       expect(tool.inputSchema.required).toEqual(['prompt'])
     })
+
+    it('should add the agent inputs as typed parameters', () => {
+      const tool = new DynamicAgentTool(
+        'my-agent',
+        'Test description',
+        mockAgentExecutor,
+        mockAgentManager,
+        undefined,
+        {
+          language: { type: 'string', required: true },
+          strictness: { type: 'string', enum: ['low', 'high'], required: false },
+        }
+      )
+
+      expect(tool.inputSchema.properties).toMatchObject({
+        language: { type: 'string' },
+        strictness: { type: 'string', enum: ['low', 'high'] },
+      })
+      expect(tool.inputSchema.required).toEqual(['prompt', 'language'])
+    })
   })
 
   describe('execute', () => {
@@ -114,7 +165,7 @@ describe('DynamicAgentTool', () => {
       const result = await tool.execute(params)
 
       expect(result.content).toHaveLength(1)
-      expect(result.content[0].text).toBe('Success output')
+      expect(firstText(result)).toBe('Success output')
       expect(result.isError).toBe(false)
     })
 
@@ -128,7 +179,8 @@ describe('DynamicAgentTool', () => {
       expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
         expect.objectContaining({
           prompt: expect.stringContaining('[Output Instructions]'),
-        })
+        }),
+        expect.any(Object)
       )
     })
 
@@ -143,25 +195,58 @@ describe('DynamicAgentTool', () => {
       expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
         expect.objectContaining({
           prompt: expect.stringContaining('Return JSON only'),
-        })
+        }),
+        expect.any(Object)
       )
     })
 
     it('should pass cwd parameter to executor', async () => {
       const params = {
         prompt: 'Test prompt',
-        cwd: '/custom/path',
+        cwd: tmpdir(),
       }
 
       await tool.execute(params)
 
       expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
         expect.objectContaining({
-          cwd: '/custom/path',
-        })
+          cwd: fs.realpathSync(tmpdir()),
+        }),
+        expect.any(Object)
       )
     })
 
+    it('should reject a cwd that does not exist', async () => {
+      const result = await tool.execute({
+        prompt: 'Test prompt',
+        cwd: path.join(tmpdir(), 'dynamic-agent-tools-missing'),
+      })
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toMatchObject({ code: 'CWD_NOT_FOUND' })
+      expect(mockAgentExecutor.executeAgent).not.toHaveBeenCalled()
+    })
+
+    it('should reject a cwd outside the allowed roots', async () => {
+      const root = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'dynamic-agent-tools-root-')))
+      try {
+        const result = await tool.execute({ prompt: 'Test prompt', cwd: tmpdir() }, {}, [root])
+
+        expect(result.isError).toBe(true)
+        expect(result.structuredContent).toMatchObject({ code: 'CWD_OUTSIDE_ROOTS' })
+        expect(mockAgentExecutor.executeAgent).not.toHaveBeenCalled()
+
+        await tool.execute({ prompt: 'Test prompt' }, {}, [root])
+
+        expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
+          expect.objectContaining({ cwd: root }),
+          expect.any(Object)
+        )
+      } finally {
+        fs.rmSync(root, { recursive: true, force: true })
+      }
+    })
+
     it('should pass extra_args parameter to executor', async () => {
       const params = {
         prompt: 'Test prompt',
@@ -173,7 +258,8 @@ describe('DynamicAgentTool', () => {
       expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
         expect.objectContaining({
           extra_args: ['--verbose', '--debug'],
-        })
+        }),
+        expect.any(Object)
       )
     })
 
@@ -198,17 +284,281 @@ describe('DynamicAgentTool', () => {
           model: 'gpt-4',
           tools: ['tool1', 'tool2'],
           autoApprovalMode: true,
-        })
+        }),
+        expect.any(Object)
+      )
+    })
+
+    it('should forward execution options such as the progress callback', async () => {
+      const onProgress = vi.fn()
+
+      await tool.execute({ prompt: 'Test prompt' }, { onProgress })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(expect.any(Object), {
+        onProgress,
+        agentName: mockAgent.name,
+        trackChanges: false,
+        includeDiff: false,
+      })
+    })
+
+    it('should pass the agent concurrency limit to the executor', async () => {
+      vi.spyOn(mockAgentManager, 'getAgent').mockResolvedValue({ ...mockAgent, maxConcurrent: 2 })
+
+      await tool.execute({ prompt: 'Test prompt' })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(expect.any(Object), {
+        agentName: mockAgent.name,
+        maxConcurrent: 2,
+        trackChanges: false,
+        includeDiff: false,
+      })
+    })
+
+    it('should track changes only when the call asks for them', async () => {
+      await tool.execute({ prompt: 'Update a.ts', track_changes: true })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ trackChanges: true, includeDiff: false })
+      )
+    })
+
+    it('should report changed files and return the diff as an embedded resource', async () => {
+      const diff = 'diff --git a/a.ts b/a.ts\n--- a/a.ts\n+++ b/a.ts\n@@ -1 +1 @@\n-old\n+new\n'
+      mockAgentExecutor.executeAgent = vi.fn().mockResolvedValue({
+        stdout: 'Updated a.ts',
+        stderr: '',
+        exitCode: 0,
+        executionTime: 100,
+        hasResult: true,
+        changes: {
+          method: 'git',
+          root: '/repo',
+          files: [{ path: 'a.ts', change: 'modified' }],
+          diff,
+        },
+      })
+
+      const result = await tool.execute({ prompt: 'Update a.ts', include_diff: true })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ trackChanges: true, includeDiff: true })
+      )
+      expect(result.structuredContent).toMatchObject({
+        changes: { method: 'git', root: '/repo', files: [{ path: 'a.ts', change: 'modified' }] },
+      })
+      expect(result.structuredContent).not.toHaveProperty('changes.diff')
+      expect(result.content).toEqual([
+        { type: 'text', text: 'Updated a.ts' },
+        {
+          type: 'resource',
+          resource: {
+            uri: expect.stringMatching(/^changes:\/\/.+\.diff$/),
+            mimeType: 'text/x-diff',
+            text: diff,
+          },
+        },
+      ])
+    })
+
+    it('should run isolated when the agent or the call asks for a worktree', async () => {
+      mockAgent.isolation = 'worktree'
+
+      await tool.execute({ prompt: 'Refactor' })
+      await tool.execute({ prompt: 'Refactor in place', isolation: 'none' })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenNthCalledWith(
+        1,
+        expect.any(Object),
+        expect.objectContaining({ isolation: 'worktree' })
+      )
+      expect(mockAgentExecutor.executeAgent).toHaveBeenNthCalledWith(
+        2,
+        expect.any(Object),
+        expect.objectContaining({ isolation: 'none' })
       )
     })
 
+    it('should reject track_changes values that are not booleans', async () => {
+      const result = await tool.execute({ prompt: 'Test prompt', track_changes: 'yes' })
+
+      expect(result.isError).toBe(true)
+      expect(firstText(result)).toContain('track_changes parameter must be a boolean')
+    })
+
+    it('should reject include_diff values that are not booleans', async () => {
+      const result = await tool.execute({ prompt: 'Test prompt', include_diff: 'yes' })
+
+      expect(result.isError).toBe(true)
+      expect(firstText(result)).toContain('include_diff parameter must be a boolean')
+    })
+
+    it('should pass session_id to the executor and return the session id', async () => {
+      mockAgentExecutor.executeAgent = vi.fn().mockResolvedValue({
+        stdout: 'Follow-up answer',
+        stderr: '',
+        exitCode: 0,
+        executionTime: 100,
+        hasResult: true,
+        sessionId: 'session-1',
+      })
+
+      const result = await tool.execute({ prompt: 'And now?', session_id: 'session-1' })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
+        expect.objectContaining({ sessionId: 'session-1' }),
+        expect.any(Object)
+      )
+      expect(result.structuredContent).toMatchObject({ sessionId: 'session-1' })
+    })
+
+    it('should return the extracted answer as text and the normalized result', async () => {
+      const extractedResult = {
+        text: 'Fixed the bug',
+        isError: false,
+        usage: { inputTokens: 10, outputTokens: 5 },
+        costUsd: 0.02,
+        turns: 2,
+        toolCalls: [{ name: 'Edit', filePath: '/repo/a.ts', writes: true }],
+        filesTouched: ['/repo/a.ts'],
+      }
+      mockAgentExecutor.executeAgent = vi.fn().mockResolvedValue({
+        stdout: '{"type":"result","result":"Fixed the bug","total_cost_usd":0.02}',
+        stderr: '',
+        exitCode: 0,
+        executionTime: 100,
+        hasResult: true,
+        resultJson: { type: 'result', result: 'Fixed the bug', total_cost_usd: 0.02 },
+        extractedResult,
+      })
+
+      const result = await tool.execute({ prompt: 'Fix the bug' })
+
+      expect(firstText(result)).toBe('Fixed the bug')
+      expect(result.structuredContent).toMatchObject({ result: extractedResult })
+    })
+
+    it('should reject session ids that could be read as flags', async () => {
+      const result = await tool.execute({ prompt: 'Test prompt', session_id: '--dangerous' })
+
+      expect(result.isError).toBe(true)
+      expect(firstText(result)).toContain('Invalid session_id')
+    })
+
+    it('should substitute input values into the agent body', async () => {
+      mockAgent.content = 'Review {{language}} code with {{strictness}} strictness.'
+      mockAgent.inputs = {
+        language: { type: 'string', required: true },
+        strictness: { type: 'string', enum: ['low', 'high'], required: false, default: 'low' },
+      }
+
+      const result = await tool.execute({ prompt: 'Review the diff', language: 'Go' })
+
+      expect(result.isError).toBe(false)
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
+        expect.objectContaining({ agent: 'Review Go code with low strictness.' }),
+        expect.any(Object)
+      )
+    })
+
+    it('should return the answer of agents with an output schema as structuredContent', async () => {
+      mockAgent.outputSchema = {
+        type: 'object',
+        properties: { approved: { type: 'boolean' } },
+        required: ['approved'],
+      }
+      mockAgentExecutor.executeAgent = vi.fn().mockResolvedValue({
+        stdout: '```json\n{"approved": true}\n```',
+        stderr: '',
+        exitCode: 0,
+        executionTime: 100,
+        hasResult: true,
+        sessionId: 'session-1',
+      })
+
+      const result = await tool.execute({ prompt: 'Review the diff' })
+
+      expect(mockAgentExecutor.executeAgent).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: expect.stringContaining('[Output Format]') }),
+        expect.any(Object)
+      )
+      expect(result.isError).toBe(false)
+      expect(result.structuredContent).toEqual({ approved: true })
+      expect(JSON.parse(firstText(result))).toEqual({ approved: true })
+      expect(result._meta).toMatchObject({ status: 'success', sessionId: 'session-1' })
+    })
+
+    it('should fail when the answer does not match the output schema', async () => {
+      mockAgent.outputSchema = { type: 'object', required: ['approved'] }
+
+      const result = await tool.execute({ prompt: 'Review the diff' })
+
+      expect(result.isError).toBe(true)
+      expect(firstText(result)).toBe(
+        'Error: The agent did not answer with a JSON object\n\nSuccess output'
+      )
+      expect(result.structuredContent).toBeUndefined()
+      expect(result._meta).toMatchObject({
+        status: 'error',
+        error: 'The agent did not answer with a JSON object',
+      })
+    })
+
+    it('should keep metadata out of structuredContent for failed runs of agents with an output schema', async () => {
+      mockAgent.outputSchema = { type: 'object', required: ['approved'] }
+      mockAgentExecutor.executeAgent = vi.fn().mockResolvedValue({
+        stdout: '',
+        stderr: 'Execution cancelled',
+        exitCode: 130,
+        executionTime: 100,
+        hasResult: false,
+        cancelled: true,
+      })
+
+      const result = await tool.execute({ prompt: 'Review the diff' })
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toBeUndefined()
+      expect(result._meta).toMatchObject({ status: 'cancelled' })
+    })
+
+    it('should report errors of tools publishing an output schema in _meta', async () => {
+      const schemaTool = new DynamicAgentTool(
+        'test-agent',
+        'Test agent',
+        mockAgentExecutor,
+        mockAgentManager,
+        undefined,
+        {},
+        { type: 'object', required: ['approved'] }
+      )
+
+      const result = await schemaTool.execute({ prompt: '' })
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toBeUndefined()
+      expect(result._meta).toMatchObject({ status: 'error' })
+    })
+
+    it('should reject calls missing a required input', async () => {
+      mockAgent.inputs = { language: { type: 'string', required: true } }
+
+      const result = await tool.execute({ prompt: 'Review the diff' })
+
+      expect(result.isError).toBe(true)
+      expect(firstText(result)).toContain("Input 'language' is required")
+      expect(mockAgentExecutor.executeAgent).not.toHaveBeenCalled()
+    })
+
     it('should reject invalid parameters - missing prompt', async () => {
       const params = {}
 
       const result = await tool.execute(params)
 
       expect(result.isError).toBe(true)
-      expect(result.content[0].text).toContain('Prompt parameter is required')
+      expect(firstText(result)).toContain('Prompt parameter is required')
     })
 
     it('should reject invalid parameters - empty prompt', async () => {
@@ -219,7 +569,7 @@ describe('DynamicAgentTool', () => {
       const result = await tool.execute(params)
 
       expect(result.isError).toBe(true)
-      expect(result.content[0].text).toContain('cannot be empty')
+      expect(firstText(result)).toContain('cannot be empty')
     })
 
     it('should reject invalid parameters - prompt too long', async () => {
@@ -230,7 +580,7 @@ describe('DynamicAgentTool', () => {
       const result = await tool.execute(params)
 
       expect(result.isError).toBe(true)
-      expect(result.content[0].text).toContain('Prompt too long')
+      expect(firstText(result)).toContain('Prompt too long')
     })
 
     it('should handle agent not found error', async () => {
@@ -243,7 +593,7 @@ describe('DynamicAgentTool', () => {
       const result = await tool.execute(params)
 
       expect(result.isError).toBe(true)
-      expect(result.content[0].text).toContain('not found')
+      expect(firstText(result)).toContain('not found')
     })
 
     it('should handle execution failure', async () => {
@@ -262,7 +612,23 @@ describe('DynamicAgentTool', () => {
       const result = await tool.execute(params)
 
       expect(result.isError).toBe(true)
-      expect(result.content[0].text).toBe('Execution error')
+      expect(firstText(result)).toBe('Execution error')
+    })
+
+    it('should report cancelled status when the execution was cancelled', async () => {
+      mockAgentExecutor.executeAgent = vi.fn().mockResolvedValue({
+        stdout: '',
+        stderr: 'Execution cancelled',
+        exitCode: 130,
+        executionTime: 50,
+        hasResult: false,
+        cancelled: true,
+      })
+
+      const result = await tool.execute({ prompt: 'Test prompt' })
+
+      expect(result.isError).toBe(true)
+      expect(result.structuredContent).toMatchObject({ status: 'cancelled' })
     })
 
     it('should update execution statistics', async () => {
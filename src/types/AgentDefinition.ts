@@ -1,3 +1,80 @@
+import type { AgentType } from 'src/types/AgentType'
+
+/**
+ * Where the agent definition body is placed when the agent runs.
+ * - inline: prepended to the user prompt as `[System Context]` (works with every backend)
+ * - append: appended to the backend's default system prompt
+ * - replace: replaces the backend's default system prompt
+ * Backends without native system prompt support fall back to inline.
+ */
+export type SystemPromptMode = 'inline' | 'append' | 'replace'
+
+/**
+ * Where the agent runs.
+ * - none: directly in the working directory
+ * - worktree: in a temporary git worktree of the working directory; the
+ *   changes are returned as a branch to apply or discard
+ */
+export type IsolationMode = 'none' | 'worktree'
+
+/**
+ * Where the parent's body goes in an agent that extends another agent.
+ * - prepend: the parent's body comes before the agent's own body
+ * - append: the parent's body comes after the agent's own body
+ */
+export type ExtendsBodyMode = 'prepend' | 'append'
+
+/**
+ * JSON type of an agent input variable. Enum inputs are strings restricted to a list of values.
+ */
+export type AgentInputType = 'string' | 'number' | 'integer' | 'boolean'
+
+/**
+ * A typed input variable declared in the `inputs` frontmatter of an agent.
+ * Exposed as a tool parameter and substituted into the body as `{{name}}`.
+ */
+export interface AgentInput {
+  /**
+   * JSON type of the value.
+   */
+  type: AgentInputType
+
+  /**
+   * Allowed values of an enum input (type 'string').
+   */
+  enum?: string[]
+
+  /**
+   * Description shown to the calling model.
+   */
+  description?: string
+
+  /**
+   * Whether the caller must pass the value.
+   */
+  required: boolean
+
+  /**
+   * Value used when the caller does not pass one.
+   */
+  default?: string | number | boolean
+}
+
+/**
+ * An agent definition overridden by an agent with the same name in a later layer.
+ */
+export interface ShadowedAgent {
+  /**
+   * Name of the layer the overridden definition belongs to.
+   */
+  layer: string
+
+  /**
+   * Absolute file path of the overridden definition.
+   */
+  filePath: string
+}
+
 /**
  * Represents an AI agent definition loaded from a markdown file.
  * This interface defines the structure for Claude Code sub-agent format files
@@ -22,6 +99,23 @@ export interface AgentDefinition {
    */
   content: string
 
+  /**
+   * Folder of the agent relative to the agents directory, '/' separated (e.g. 'review').
+   * Absent for agents at the top level. Becomes part of the tool name.
+   */
+  namespace?: string
+
+  /**
+   * Name of the agents directory layer the definition was loaded from.
+   */
+  layer?: string
+
+  /**
+   * Definitions with the same name in earlier layers that this agent overrides,
+   * lowest precedence first.
+   */
+  shadows?: ShadowedAgent[]
+
   /**
    * Absolute file path where the agent definition is stored.
    * Used for file watching and cache invalidation.
@@ -60,8 +154,52 @@ export interface AgentDefinition {
 
   /**
    * Type of agent to use for execution (e.g., "cursor", "claude", "gemini").
-   * Optional field that overrides the server's default agentType.
+   * Must name a registered backend. Optional field that overrides the server's default agentType.
    * If not specified, falls back to server configuration.
    */
-  agentType?: 'cursor' | 'claude' | 'gemini'
+  agentType?: AgentType
+
+  /**
+   * Where to place the agent body: inline in the prompt or as the backend's system prompt.
+   * Default: 'inline'
+   */
+  systemPromptMode?: SystemPromptMode
+
+  /**
+   * Maximum number of concurrent executions of this agent; further calls wait in the queue.
+   * Optional field; unlimited when not specified (subject to the global and backend limits).
+   */
+  maxConcurrent?: number
+
+  /**
+   * Where the agent runs; a tool call can override it with its `isolation` parameter.
+   * Default: 'none'
+   */
+  isolation?: IsolationMode
+
+  /**
+   * Typed input variables by name, exposed as tool parameters next to `prompt`
+   * and substituted into the body as `{{name}}` when the agent runs.
+   */
+  inputs?: Record<string, AgentInput>
+
+  /**
+   * JSON Schema (type 'object') of the agent's answer, from the frontmatter or a
+   * sidecar `<name>.schema.json` file. Published as the tool's outputSchema; the
+   * answer is validated against it and returned as structuredContent.
+   */
+  outputSchema?: Record<string, unknown>
+
+  /**
+   * Name of the agent this agent extends. The parent's tools, model, agentType,
+   * autoApprovalMode, systemPromptMode, maxConcurrent, isolation and outputSchema are inherited unless set
+   * here, inputs are merged, and the parent's body is combined with this agent's body.
+   */
+  extends?: string
+
+  /**
+   * Where the parent's body goes when extending another agent.
+   * Default: 'prepend'
+   */
+  extendsBody?: ExtendsBodyMode
 }
@@ -0,0 +1,31 @@
+/**
+ * Problem found in an agent definition file.
+ * Errors are values that were ignored or agents that cannot be used as
+ * intended; warnings point at likely mistakes.
+ */
+export interface AgentDiagnostic {
+  /**
+   * Whether the problem is an error or a warning.
+   */
+  severity: 'error' | 'warning'
+
+  /**
+   * Path of the agent definition file.
+   */
+  filePath: string
+
+  /**
+   * 1-based line in the agent definition file (1 for problems with the whole file).
+   */
+  line: number
+
+  /**
+   * Frontmatter key the diagnostic refers to, if any.
+   */
+  key?: string
+
+  /**
+   * Human readable description of the problem.
+   */
+  message: string
+}
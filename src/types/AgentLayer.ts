@@ -0,0 +1,17 @@
+/**
+ * A directory of agent definitions taking part in layered discovery.
+ * Agents in later layers override agents with the same name in earlier layers,
+ * e.g. user-global, then team-shared, then project-local agents.
+ */
+export interface AgentLayer {
+  /**
+   * Name identifying the layer in logs and the agents://list resource.
+   * Defaults to the directory path.
+   */
+  name: string
+
+  /**
+   * Directory containing the agent definition files of the layer.
+   */
+  directory: string
+}
@@ -0,0 +1,6 @@
+/**
+ * Name of a backend registered in the BackendRegistry (e.g. "cursor", "claude", "gemini").
+ * Additional backends can be registered from a backends configuration file,
+ * so any registered name is a valid agent type.
+ */
+export type AgentType = string
@@ -1,3 +1,6 @@
+import type { SystemPromptMode } from 'src/types/AgentDefinition'
+import type { AgentType } from 'src/types/AgentType'
+
 /**
  * Parameters for executing an AI agent through the MCP server.
  * These parameters are passed to the run_agent tool to initiate agent execution.
@@ -30,9 +33,9 @@ export interface ExecutionParams {
   /**
    * Optional agent type override for this specific execution.
    * If specified, overrides the server's default agentType configuration.
-   * Values: 'cursor' | 'claude' | 'gemini'
+   * Values: name of a registered backend, e.g. 'cursor' | 'claude' | 'gemini'
    */
-  agentType?: 'cursor' | 'claude' | 'gemini'
+  agentType?: AgentType
 
   /**
    * Optional model to use for this agent (e.g., "sonnet", "opus").
@@ -49,6 +52,16 @@ export interface ExecutionParams {
    * Whether to enable auto-approval mode.
    */
   autoApprovalMode?: boolean
+
+  /**
+   * Where the backend places the agent content. Default: 'inline'
+   */
+  systemPromptMode?: SystemPromptMode
+
+  /**
+   * Backend session id of a previous execution to resume (e.g. claude's --resume).
+   */
+  sessionId?: string
 }
 
 /**
@@ -1,3 +1,5 @@
+import type { AgentType } from 'src/types/AgentType'
+
 /**
  * Configuration interface for the MCP server.
  * Defines the structure for server configuration parameters
@@ -24,9 +26,9 @@ export interface ServerConfigInterface {
 
   /**
    * Type of agent to use for execution.
-   * 'cursor' or 'claude'
+   * Name of a registered backend, e.g. 'cursor', 'claude' or 'gemini'
    */
-  agentType: 'cursor' | 'claude'
+  agentType: AgentType
 
   /**
    * Log level for server operations.
@@ -40,4 +42,41 @@ export interface ServerConfigInterface {
    * Default: 90000ms (90 seconds), Range: 1000ms - 240000ms (4 minutes)
    */
   executionTimeoutMs: number
+
+  /**
+   * Transport used to serve MCP.
+   * 'stdio' serves a single client; 'http' serves the Streamable HTTP transport
+   * so several clients can share one server process.
+   */
+  transport?: 'stdio' | 'http'
+
+  /**
+   * Host to bind the HTTP transport to.
+   * Only used when transport is 'http'.
+   */
+  httpHost?: string
+
+  /**
+   * Port the HTTP transport listens on.
+   * Only used when transport is 'http'.
+   */
+  httpPort?: number
+
+  /**
+   * Time in milliseconds after which an HTTP session without requests is closed.
+   * 0 keeps sessions until the client ends them. Only used when transport is 'http'.
+   */
+  httpSessionTimeoutMs?: number
+
+  /**
+   * Bearer token HTTP clients must send on every request.
+   * Required when httpHost is not a loopback address. Only used when transport is 'http'.
+   */
+  httpAuthToken?: string
+
+  /**
+   * Directories agents may run in, including their subdirectories.
+   * When empty, the workspace roots reported by the MCP client are used.
+   */
+  allowedRoots?: string[]
 }
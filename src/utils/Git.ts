@@ -0,0 +1,97 @@
+import { execFile } from 'node:child_process'
+import fs from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
+
+/**
+ * Prefix of the temp directories holding the index used to snapshot a git worktree.
+ */
+const SNAPSHOT_DIR_PREFIX = 'sub-agents-index-'
+
+/**
+ * Run a git command.
+ *
+ * @param cwd - Directory to run git in
+ * @param args - Git arguments
+ * @param options - Environment (defaults to the server's) and text written to stdin
+ * @returns Standard output
+ * @throws {Error} When git exits with a non-zero code or cannot be started; the message includes stderr
+ */
+export function runGit(
+  cwd: string,
+  args: string[],
+  options: { env?: NodeJS.ProcessEnv; input?: string } = {}
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile(
+      'git',
+      args,
+      { cwd, env: options.env ?? process.env, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(new Error(`git ${args[0]} failed: ${stderr.trim() || error.message}`))
+        } else {
+          resolve(stdout)
+        }
+      }
+    )
+    child.stdin?.end(options.input)
+  })
+}
+
+/**
+ * Find the root of the git worktree containing a directory.
+ *
+ * @param cwd - Directory to check
+ * @returns Worktree root, or null outside git or when git is not installed
+ */
+export async function findWorktreeRoot(cwd: string): Promise<string | null> {
+  try {
+    const root = (await runGit(cwd, ['rev-parse', '--show-toplevel'])).trim()
+    return root || null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Get a pathspec matching a directory of a git worktree and everything below it.
+ *
+ * @param cwd - Directory inside a git worktree
+ * @returns Literal pathspec relative to the worktree root, usable from any directory of the worktree
+ * @throws {Error} When the directory is not inside a git worktree
+ */
+export async function getDirectoryPathspec(cwd: string): Promise<string> {
+  const prefix = (await runGit(cwd, ['rev-parse', '--show-prefix'])).replace(/\n$/, '')
+  return `:(top,literal)${prefix}`
+}
+
+/**
+ * Write all non-ignored files of a worktree, including uncommitted and
+ * untracked ones, as a tree object.
+ *
+ * Files are added to a temporary copy of the worktree's index, so the real
+ * index and HEAD are never touched.
+ *
+ * @param root - Worktree root
+ * @param pathspec - Only add files matching this pathspec; others keep their state in the index
+ * @returns Hash of the tree object
+ * @throws {Error} When a git command fails
+ */
+export async function writeWorkingTree(root: string, pathspec?: string): Promise<string> {
+  const indexPath = path.resolve(
+    root,
+    (await runGit(root, ['rev-parse', '--git-path', 'index'])).trim()
+  )
+  const tempDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), SNAPSHOT_DIR_PREFIX))
+  const env = { ...process.env, GIT_INDEX_FILE: path.join(tempDir, 'index') }
+
+  try {
+    // Starting from the real index lets git skip hashing files whose stat data is unchanged
+    await fs.promises.copyFile(indexPath, env.GIT_INDEX_FILE).catch(() => undefined)
+    await runGit(root, ['add', '-A', ...(pathspec ? ['--', pathspec] : [])], { env })
+    return (await runGit(root, ['write-tree'], { env })).trim()
+  } finally {
+    await fs.promises.rm(tempDir, { recursive: true, force: true })
+  }
+}
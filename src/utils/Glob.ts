@@ -0,0 +1,59 @@
+/**
+ * Minimal glob matching for ignore patterns.
+ *
+ * Supported syntax:
+ * - `*` matches any characters except '/'
+ * - `**` matches any characters including '/' (`dir/**` also matches `dir` itself)
+ * - `?` matches a single character except '/'
+ *
+ * Paths and patterns use '/' as separator. A pattern without '/' matches
+ * the name of a file or directory at any depth (like .gitignore); a pattern
+ * containing '/' matches the whole path relative to the root.
+ */
+
+/**
+ * Convert a glob pattern to a regular expression matching whole paths.
+ *
+ * @param pattern - Glob pattern
+ * @returns Regular expression anchored at both ends
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  for (let index = 0; index < pattern.length; index++) {
+    const char = pattern[index] as string
+    if (char === '*' && pattern[index + 1] === '*') {
+      index++
+      if (source.endsWith('/') && index === pattern.length - 1) {
+        // Trailing '/**' also matches the directory itself
+        source = `${source.slice(0, -1)}(?:/.*)?`
+      } else if (pattern[index + 1] === '/') {
+        // '**/' matches zero or more leading directories
+        index++
+        source += '(?:.*/)?'
+      } else {
+        source += '.*'
+      }
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+/**
+ * Check if a path matches any of the glob patterns.
+ *
+ * @param relativePath - Path relative to the root, '/' separated
+ * @param patterns - Glob patterns
+ * @returns True if at least one pattern matches
+ */
+export function matchesAnyGlob(relativePath: string, patterns: string[]): boolean {
+  const name = relativePath.slice(relativePath.lastIndexOf('/') + 1)
+  return patterns.some((pattern) =>
+    globToRegExp(pattern).test(pattern.includes('/') ? relativePath : name)
+  )
+}
@@ -0,0 +1,82 @@
+/**
+ * Minimal JSONPath support for extracting values from backend output.
+ *
+ * Supported syntax: the root `$`, dot member access (`$.result.text`),
+ * bracket member access (`$['key with spaces']`) and array indices
+ * (`$.messages[0]`, `$.messages[-1]` for the last element).
+ */
+
+/**
+ * Single step of a parsed JSONPath: an object key or an array index.
+ */
+export type JsonPathSegment = string | number
+
+const SEGMENT_PATTERN =
+  /^(?:\.([A-Za-z_$][\w$-]*)|\[(-?\d+)\]|\['((?:[^'\\]|\\.)*)'\]|\["((?:[^"\\]|\\.)*)"\])/
+
+/**
+ * Parse a JSONPath expression into segments.
+ *
+ * @param expression - JSONPath expression starting with `$`
+ * @returns Parsed path segments
+ * @throws {Error} When the expression uses unsupported syntax
+ */
+export function parseJsonPath(expression: string): JsonPathSegment[] {
+  const trimmed = expression.trim()
+  if (!trimmed.startsWith('$')) {
+    throw new Error(`Invalid JSONPath '${expression}': must start with '$'`)
+  }
+
+  const segments: JsonPathSegment[] = []
+  let rest = trimmed.slice(1)
+
+  while (rest.length > 0) {
+    const match = rest.match(SEGMENT_PATTERN)
+    if (!match) {
+      throw new Error(`Invalid JSONPath '${expression}': unsupported syntax at '${rest}'`)
+    }
+
+    const [segment, dotKey, index, singleQuoted, doubleQuoted] = match
+    if (dotKey !== undefined) {
+      segments.push(dotKey)
+    } else if (index !== undefined) {
+      segments.push(Number.parseInt(index, 10))
+    } else {
+      segments.push((singleQuoted ?? doubleQuoted ?? '').replace(/\\(.)/g, '$1'))
+    }
+    rest = rest.slice(segment.length)
+  }
+
+  return segments
+}
+
+/**
+ * Evaluate parsed JSONPath segments against a value.
+ *
+ * @param value - Value to query
+ * @param segments - Segments returned by parseJsonPath
+ * @returns Matched value or undefined when the path does not exist
+ */
+export function evaluateJsonPath(value: unknown, segments: JsonPathSegment[]): unknown {
+  let current = value
+
+  for (const segment of segments) {
+    if (typeof segment === 'number') {
+      if (!Array.isArray(current)) {
+        return undefined
+      }
+      current = current[segment < 0 ? current.length + segment : segment]
+    } else {
+      if (typeof current !== 'object' || current === null || Array.isArray(current)) {
+        return undefined
+      }
+      current = (current as Record<string, unknown>)[segment]
+    }
+
+    if (current === undefined) {
+      return undefined
+    }
+  }
+
+  return current
+}
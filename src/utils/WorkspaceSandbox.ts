@@ -0,0 +1,100 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import { ValidationError } from 'src/utils/ErrorHandler'
+
+/**
+ * Convert the workspace roots reported by an MCP client to directory paths.
+ * Only `file://` roots are usable; others are left out.
+ *
+ * @param roots - Workspace roots reported by the client
+ * @returns Absolute paths of the roots
+ */
+export function getRootPaths(roots: { uri: string }[]): string[] {
+  const rootPaths: string[] = []
+  for (const root of roots) {
+    if (!root.uri.startsWith('file://')) {
+      continue
+    }
+    try {
+      rootPaths.push(fileURLToPath(root.uri))
+    } catch {
+      // Not a local path
+    }
+  }
+  return rootPaths
+}
+
+/**
+ * Resolve the working directory of an agent call and check it against the allowed roots.
+ *
+ * Symlinks are resolved with realpath before the check, so a link inside a root
+ * cannot point the agent outside of it. Without allowed roots any existing
+ * directory is accepted. A call without cwd runs in the first allowed root, or in
+ * the server's working directory when there are none; relative paths are
+ * resolved against the same directory.
+ *
+ * @param cwd - Working directory passed in the call
+ * @param allowedRoots - Directories the agent may run in, including their subdirectories
+ * @returns Real path of the working directory, or undefined when the call has no cwd and no roots apply
+ * @throws {ValidationError} With code 'CWD_NOT_FOUND', 'CWD_NOT_A_DIRECTORY' or 'CWD_OUTSIDE_ROOTS'
+ */
+export async function resolveWorkingDirectory(
+  cwd: string | undefined,
+  allowedRoots: string[]
+): Promise<string | undefined> {
+  const [defaultRoot] = allowedRoots
+  if (cwd === undefined && defaultRoot === undefined) {
+    return undefined
+  }
+
+  const requested = path.resolve(defaultRoot ?? process.cwd(), cwd ?? '.')
+  let realCwd: string
+  try {
+    realCwd = await fs.promises.realpath(requested)
+  } catch {
+    throw new ValidationError(`Working directory '${requested}' does not exist`, 'CWD_NOT_FOUND', {
+      metadata: { cwd: requested },
+    })
+  }
+  if (!(await fs.promises.stat(realCwd)).isDirectory()) {
+    throw new ValidationError(
+      `Working directory '${requested}' is not a directory`,
+      'CWD_NOT_A_DIRECTORY',
+      { metadata: { cwd: requested } }
+    )
+  }
+
+  if (allowedRoots.length === 0) {
+    return realCwd
+  }
+
+  const realRoots = await Promise.all(
+    allowedRoots.map((root) => fs.promises.realpath(root).catch(() => path.resolve(root)))
+  )
+  if (!realRoots.some((root) => isInside(realCwd, root))) {
+    throw new ValidationError(
+      `Working directory '${requested}' is outside the allowed roots: ${allowedRoots.join(', ')}`,
+      'CWD_OUTSIDE_ROOTS',
+      { metadata: { cwd: requested, realPath: realCwd, allowedRoots } }
+    )
+  }
+  return realCwd
+}
+
+/**
+ * Check if a path is a directory or lies below it.
+ *
+ * @param target - Path to check
+ * @param directory - Containing directory
+ * @returns True if target is directory itself or inside it
+ */
+function isInside(target: string, directory: string): boolean {
+  const relativePath = path.relative(directory, target)
+  return (
+    relativePath === '' ||
+    (relativePath !== '..' &&
+      !relativePath.startsWith(`..${path.sep}`) &&
+      !path.isAbsolute(relativePath))
+  )
+}
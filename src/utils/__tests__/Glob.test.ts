@@ -0,0 +1,43 @@
+import { globToRegExp, matchesAnyGlob } from 'src/utils/Glob'
+import { describe, expect, it } from 'vitest'
+
+describe('Glob', () => {
+  describe('globToRegExp', () => {
+    it('should match single path segments with * and ?', () => {
+      expect(globToRegExp('drafts/*.md').test('drafts/todo.md')).toBe(true)
+      expect(globToRegExp('drafts/*.md').test('drafts/old/todo.md')).toBe(false)
+      expect(globToRegExp('agent?.md').test('agent1.md')).toBe(true)
+      expect(globToRegExp('agent?.md').test('agent10.md')).toBe(false)
+    })
+
+    it('should match any depth with **', () => {
+      expect(globToRegExp('**/wip.md').test('wip.md')).toBe(true)
+      expect(globToRegExp('**/wip.md').test('review/deep/wip.md')).toBe(true)
+      expect(globToRegExp('archive/**').test('archive')).toBe(true)
+      expect(globToRegExp('archive/**').test('archive/old/agent.md')).toBe(true)
+      expect(globToRegExp('archive/**').test('archived')).toBe(false)
+    })
+
+    it('should treat regular expression characters literally', () => {
+      expect(globToRegExp('a+b.md').test('a+b.md')).toBe(true)
+      expect(globToRegExp('a+b.md').test('aab_md')).toBe(false)
+    })
+  })
+
+  describe('matchesAnyGlob', () => {
+    it('should match patterns without a slash against the name at any depth', () => {
+      expect(matchesAnyGlob('review/drafts', ['drafts'])).toBe(true)
+      expect(matchesAnyGlob('review/notes.txt', ['*.txt'])).toBe(true)
+      expect(matchesAnyGlob('review/security.md', ['*.txt'])).toBe(false)
+    })
+
+    it('should match patterns with a slash against the whole relative path', () => {
+      expect(matchesAnyGlob('review/drafts', ['review/drafts'])).toBe(true)
+      expect(matchesAnyGlob('other/review/drafts', ['review/drafts'])).toBe(false)
+    })
+
+    it('should match nothing without patterns', () => {
+      expect(matchesAnyGlob('review/security.md', [])).toBe(false)
+    })
+  })
+})
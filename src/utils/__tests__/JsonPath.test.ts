@@ -0,0 +1,44 @@
+import { evaluateJsonPath, parseJsonPath } from 'src/utils/JsonPath'
+import { describe, expect, it } from 'vitest'
+
+describe('JsonPath', () => {
+  describe('parseJsonPath', () => {
+    it('should parse dot, bracket and index segments', () => {
+      expect(parseJsonPath("$.choices[0]['message text'].value")).toEqual([
+        'choices',
+        0,
+        'message text',
+        'value',
+      ])
+    })
+
+    it('should parse the root path as no segments', () => {
+      expect(parseJsonPath('$')).toEqual([])
+    })
+
+    it('should reject paths without the root', () => {
+      expect(() => parseJsonPath('result')).toThrow("must start with '$'")
+    })
+
+    it('should reject unsupported syntax', () => {
+      expect(() => parseJsonPath('$.items[*].name')).toThrow('unsupported syntax')
+    })
+  })
+
+  describe('evaluateJsonPath', () => {
+    const document = { result: { messages: [{ text: 'first' }, { text: 'last' }] } }
+
+    it('should return the value at the path', () => {
+      expect(evaluateJsonPath(document, parseJsonPath('$.result.messages[0].text'))).toBe('first')
+    })
+
+    it('should support negative indices from the end', () => {
+      expect(evaluateJsonPath(document, parseJsonPath('$.result.messages[-1].text'))).toBe('last')
+    })
+
+    it('should return undefined for missing paths', () => {
+      expect(evaluateJsonPath(document, parseJsonPath('$.result.missing.text'))).toBeUndefined()
+      expect(evaluateJsonPath(document, parseJsonPath('$.result[0]'))).toBeUndefined()
+    })
+  })
+})
@@ -0,0 +1,85 @@
+import fs from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { getRootPaths, resolveWorkingDirectory } from 'src/utils/WorkspaceSandbox'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+
+describe('WorkspaceSandbox', () => {
+  let baseDir: string
+  let workspace: string
+  let outside: string
+
+  beforeEach(() => {
+    baseDir = fs.realpathSync(fs.mkdtempSync(path.join(tmpdir(), 'workspace-sandbox-test-')))
+    workspace = path.join(baseDir, 'workspace')
+    outside = path.join(baseDir, 'outside')
+    fs.mkdirSync(path.join(workspace, 'src'), { recursive: true })
+    fs.mkdirSync(outside)
+    fs.writeFileSync(path.join(workspace, 'README.md'), '# Workspace')
+  })
+
+  afterEach(() => {
+    fs.rmSync(baseDir, { recursive: true, force: true })
+  })
+
+  describe('resolveWorkingDirectory', () => {
+    it('should accept the roots and directories below them', async () => {
+      await expect(resolveWorkingDirectory(workspace, [workspace])).resolves.toBe(workspace)
+      await expect(resolveWorkingDirectory(path.join(workspace, 'src'), [workspace])).resolves.toBe(
+        path.join(workspace, 'src')
+      )
+    })
+
+    it('should run calls without cwd in the first root and resolve relative paths against it', async () => {
+      await expect(resolveWorkingDirectory(undefined, [workspace, outside])).resolves.toBe(
+        workspace
+      )
+      await expect(resolveWorkingDirectory('src', [workspace])).resolves.toBe(
+        path.join(workspace, 'src')
+      )
+      await expect(resolveWorkingDirectory(undefined, [])).resolves.toBeUndefined()
+    })
+
+    it('should reject directories outside the roots, including siblings sharing a prefix', async () => {
+      const sibling = `${workspace}-other`
+      fs.mkdirSync(sibling)
+
+      await expect(resolveWorkingDirectory(outside, [workspace])).rejects.toMatchObject({
+        name: 'ValidationError',
+        code: 'CWD_OUTSIDE_ROOTS',
+      })
+      await expect(resolveWorkingDirectory(sibling, [workspace])).rejects.toMatchObject({
+        code: 'CWD_OUTSIDE_ROOTS',
+      })
+    })
+
+    it('should resolve symlinks before checking the roots', async () => {
+      fs.symlinkSync(outside, path.join(workspace, 'escape'))
+
+      await expect(
+        resolveWorkingDirectory(path.join(workspace, 'escape'), [workspace])
+      ).rejects.toMatchObject({ code: 'CWD_OUTSIDE_ROOTS' })
+      await expect(resolveWorkingDirectory(path.join(workspace, 'escape'), [])).resolves.toBe(
+        outside
+      )
+    })
+
+    it('should reject missing directories and files', async () => {
+      await expect(
+        resolveWorkingDirectory(path.join(workspace, 'missing'), [workspace])
+      ).rejects.toMatchObject({ code: 'CWD_NOT_FOUND' })
+      await expect(
+        resolveWorkingDirectory(path.join(workspace, 'README.md'), [])
+      ).rejects.toMatchObject({ code: 'CWD_NOT_A_DIRECTORY' })
+    })
+  })
+
+  describe('getRootPaths', () => {
+    it('should convert file roots to paths and skip other schemes', () => {
+      expect(
+        getRootPaths([{ uri: pathToFileURL(workspace).href }, { uri: 'https://example.com/repo' }])
+      ).toEqual([workspace])
+    })
+  })
+})